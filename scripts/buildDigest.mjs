@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+/**
+ * Weekly usage digest from the generated data files: writes digest.md and
+ * index.html (self-contained, see lib/digest.mjs). Runs offline after
+ * fetch:data; the default output under public/ is copied into dist/ by the
+ * build and linked from the app header.
+ *
+ * Usage: node scripts/buildDigest.mjs [dataDir] [outDir]
+ *   (default: output.dir from preset.config.yml / PRESET_CONFIG, and public/digest)
+ * Optional:
+ *   PRESET_DIGEST_END    last day covered, YYYY-MM-DD (default: the day before the data was generated)
+ *   PRESET_DIGEST_TEAM   team id, name or title to limit the digest to (default: all teams, with a per-team table)
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { loadConfig } from './lib/config.mjs';
+import { buildDigest, findTeam, renderHtml, renderMarkdown } from './lib/digest.mjs';
+import { readLocalJSON } from './lib/published.mjs';
+import { unpackRows } from '../shared/rollups.mjs';
+
+let dataDir;
+try {
+  dataDir = path.resolve(process.argv[2] || (await loadConfig(process.env.PRESET_CONFIG || null)).config.output.dir);
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
+}
+const outDir = path.resolve(process.argv[3] || 'public/digest');
+const rel = (p) => path.relative(process.cwd(), p) || '.';
+
+async function main() {
+  const files = ['rollups/daily.json', 'rollups/users.json', 'rollups/entities.json', 'changes.json', 'teams.json'];
+  const [packed, users, entities, changes, teams] = await Promise.all(files.map(f => readLocalJSON(path.join(dataDir, f))));
+  if (!packed) console.warn(`digest: no rollups/daily.json under ${rel(dataDir)}; the digest will be empty (run fetch:data first)`);
+  const teamList = Array.isArray(teams) ? teams : [];
+
+  const generated = Date.parse(packed?.generated_at || '') || Date.now();
+  const end = process.env.PRESET_DIGEST_END || new Date(generated - 86_400_000).toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(end) || isNaN(Date.parse(end))) {
+    console.error(`digest: PRESET_DIGEST_END must be a date (YYYY-MM-DD), got "${end}"`);
+    process.exit(1);
+  }
+  let team = null;
+  if (process.env.PRESET_DIGEST_TEAM) {
+    team = findTeam(teamList, process.env.PRESET_DIGEST_TEAM);
+    if (!team) {
+      console.error(`digest: no team matches PRESET_DIGEST_TEAM="${process.env.PRESET_DIGEST_TEAM}" (teams: ${teamList.map(t => t.title || t.name).join(', ') || 'none'})`);
+      process.exit(1);
+    }
+  }
+
+  const digest = buildDigest({ daily: unpackRows(packed), users: unpackRows(users), entities: unpackRows(entities), changes: Array.isArray(changes) ? changes : [], teams: teamList }, { end, team });
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(path.join(outDir, 'digest.md'), renderMarkdown(digest));
+  await fs.writeFile(path.join(outDir, 'index.html'), renderHtml(digest));
+  const events = digest.kpis.find(k => k.id === 'events').value;
+  console.log(`digest: ${digest.start} – ${digest.end}${digest.team ? ` (${digest.team})` : ''}, ${events} events -> ${rel(outDir)}/index.html, digest.md`);
+}
+
+main().catch(err => { console.error(err); process.exit(1); });
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+/**
+ * Build guard: fail if anything that ends up in dist/ (published as-is to GitHub
+ * Pages) contains a known secret pattern — JWTs, bearer headers, unredacted
+ * token/secret/cookie fields, debug dumps, or the API credentials themselves.
+ * That is Vite's public/ directory (data, digest, …) and output.dir, should it
+ * lie elsewhere.
+ *
+ * Usage: node scripts/checkSecrets.mjs [dir ...]   (default: public/ and output.dir from preset.config.yml / PRESET_CONFIG)
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { loadConfig } from './lib/config.mjs';
+import { findSecrets } from './lib/redact.mjs';
+
+const PUBLIC_DIR = 'public';
+
+let roots;
+try {
+  const dirs = process.argv.length > 2 ? process.argv.slice(2) : [PUBLIC_DIR, (await loadConfig(process.env.PRESET_CONFIG || null)).config.output.dir];
+  // A directory inside another one listed is scanned with it
+  const resolved = [...new Set(dirs.map(d => path.resolve(d)))];
+  roots = resolved.filter(d => !resolved.some(o => o !== d && !path.relative(o, d).startsWith('..') && !path.isAbsolute(path.relative(o, d))));
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
+}
+const credentials = [process.env.PRESET_API_TOKEN, process.env.PRESET_API_SECRET, process.env.PRESET_BEARER];
+
+async function* walk(dir) {
+  let entries;
+  try { entries = await fs.readdir(dir, { withFileTypes: true }); } catch (e) { if (e.code === 'ENOENT') return; throw e; }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) yield* walk(full);
+    else yield full;
+  }
+}
+
+async function main() {
+  const problems = [];
+  let files = 0;
+  for (const root of roots) for await (const file of walk(root)) {
+    files += 1;
+    const rel = path.relative(process.cwd(), file);
+    if (/^_(auth_debug|teams_raw|team_members_raw_.*)\.json$/.test(path.basename(file))) problems.push(`${rel}: debug dump must not be published`);
+    const text = await fs.readFile(file, 'utf8');
+    for (const f of findSecrets(text, credentials)) problems.push(`${rel}: ${f.pattern} ${f.match.slice(0, 40)}${f.match.length > 40 ? '…' : ''}`);
+  }
+  if (problems.length) {
+    console.error(`checkSecrets: ${problems.length} potential secret(s) under ${roots.map(r => path.relative(process.cwd(), r) || '.').join(', ')}:`);
+    problems.forEach(p => console.error(`  ${p}`));
+    process.exit(1);
+  }
+  console.log(`checkSecrets: ${files} files clean`);
+}
+
+main().catch(err => { console.error(err); process.exit(1); });
@@ -6,135 +6,106 @@
  * Environment expected:
  *   PRESET_API_TOKEN
  *   PRESET_API_SECRET
- * Optional:
- *   PRESET_API_BASE (default: https://api.app.preset.io)
+ *
+ * Everything else — datasets, endpoints and fallbacks, audit lookback, team
+ * filters, pagination limits, output and debug directories — comes from
+ * preset.config.yml (see lib/config.mjs), with the PRESET_* variables as overrides.
+ *
+ * Usage: node scripts/fetchPresetData.mjs [--config <file>] [--dry-run]
+ *   --config    config file (default: PRESET_CONFIG or preset.config.yml)
+ *   --dry-run   validate the config and alert rules, print the planned requests and exit
  */
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { evaluateAlerts, loadAlertRules, postAlerts, writeAlerts } from './lib/alerts.mjs';
+import { eventKey, latestByTeam, loadAuditArchive, mergeAuditEvents, withEventKey, writeAuditArchive } from './lib/auditArchive.mjs';
+import { loadConfig } from './lib/config.mjs';
+import { createPresetClient, mapLimit } from './lib/presetClient.mjs';
+import { maskPII, writeDebugDump, writeJSON } from './lib/redact.mjs';
+import { recordSnapshot } from './lib/snapshots.mjs';
+import {
+  ASSET_KINDS, describeIssue, normalizeAsset, normalizeAuditEvent, normalizeMember, normalizeRole, normalizeTeam, normalizeWorkspace, normalizeWorkspaceMembership, timestampMs, validateDataset,
+} from '../shared/model.mjs';
 
 const token = process.env.PRESET_API_TOKEN; // API token / name
 const secret = process.env.PRESET_API_SECRET; // API secret
 const presetBearer = process.env.PRESET_BEARER; // Optional: direct bearer token (skips /v1/auth/)
-const base = process.env.PRESET_API_BASE || 'https://api.app.preset.io';
 
-if (!token || !secret) {
-  console.error('Missing PRESET_API_TOKEN or PRESET_API_SECRET');
-  process.exit(1);
+let dryRun = false;
+let configArg = null;
+for (let i = 2; i < process.argv.length; i++) {
+  const arg = process.argv[i];
+  if (arg === '--dry-run') dryRun = true;
+  else if (arg === '--config' && process.argv[i + 1]) configArg = process.argv[++i];
+  else if (arg.startsWith('--config=')) configArg = arg.slice('--config='.length);
+  else {
+    console.error(`Usage: node scripts/fetchPresetData.mjs [--config <file>] [--dry-run] (unexpected "${arg}")`);
+    process.exit(1);
+  }
 }
 
-// Helper fetch wrapper (Node 18+ global fetch)
-let cachedJWT = null;
-let attemptedAuth = false;
-let debugAuthPayload = null;
-let sessionCookie = null; // raw cookie string(s)
-async function obtainJWT() {
-  // Short-circuit if caller supplied a ready bearer token (debug / alt usage)
-  if (presetBearer) { cachedJWT = presetBearer; return cachedJWT; }
-  if (cachedJWT) return cachedJWT;
-  if (attemptedAuth && !cachedJWT && sessionCookie) return null; // we have cookie-based session
-  if (attemptedAuth && !cachedJWT && !sessionCookie) throw new Error('Auth previously failed');
-  attemptedAuth = true;
-  const authUrl = `${base.replace(/\/$/, '')}/v1/auth/`;
-  // Attempt JSON POST first
-  try {
-    // Primary expected schema appears to want name + secret (based on 400 response mentioning those fields)
-    const primaryBody = { name: token, secret };
-    let res = await fetch(authUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(primaryBody) });
-    if (res.status === 400) {
-      // Retry legacy field names if validation complained
-      res = await fetch(authUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ api_token: token, api_secret: secret }) });
-    }
-    if (res.ok) {
-      const json = await res.json();
-      debugAuthPayload = json;
-      const jwtExtracted = extractJWT(json, res.headers);
-      // Capture cookie if provided
-      const setCookie = res.headers.get('set-cookie');
-      if (setCookie) sessionCookie = setCookie.split(/,(?=[^;]+;)/).map(s => s.split(';')[0]).join('; ');
-      if (jwtExtracted) { cachedJWT = jwtExtracted; return jwtExtracted; }
-      if (sessionCookie) { console.log('Auth POST produced session cookie (no JWT). Using cookie auth.'); return null; }
-      console.warn('Auth POST succeeded but no jwt field found');
-    } else {
-      const body = await res.text().catch(()=> '');
-      console.warn(`Auth POST failed ${res.status} ${res.statusText} body≈ ${body.slice(0,120)}`);
-    }
-  } catch (e) {
-    console.warn('Auth POST error', e.message);
-  }
-  // Fallback: Basic GET
-  try {
-    const res = await fetch(authUrl, {
-      headers: { 'Authorization': `Basic ${Buffer.from(`${token}:${secret}`).toString('base64')}` }
-    });
-    if (res.ok) {
-      const json = await res.json();
-      debugAuthPayload = debugAuthPayload || json;
-      const jwtExtracted = extractJWT(json, res.headers);
-      const setCookie = res.headers.get('set-cookie');
-      if (setCookie) sessionCookie = setCookie.split(/,(?=[^;]+;)/).map(s => s.split(';')[0]).join('; ');
-      if (jwtExtracted) { cachedJWT = jwtExtracted; return jwtExtracted; }
-      if (sessionCookie) { console.log('Auth GET produced session cookie (no JWT). Using cookie auth.'); return null; }
-    } else {
-      const body = await res.text().catch(()=> '');
-      console.warn(`Auth GET failed ${res.status} ${res.statusText} body≈ ${body.slice(0,120)}`);
-    }
-  } catch (e) {
-    console.warn('Auth GET error', e.message);
-  }
-  if (sessionCookie) return null;
-  throw new Error('Unable to obtain JWT or session cookie from /v1/auth/');
+// Validated before anything else, so a broken config never gets as far as a request
+let loaded;
+try {
+  loaded = await loadConfig(configArg || process.env.PRESET_CONFIG || null);
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
 }
+const { config } = loaded;
+const base = config.api.base;
+const auditDays = config.audit.days; // API retention window
+const auditPageSize = config.audit.page_size;
+const concurrency = config.api.concurrency; // teams fetched in parallel
+// Team ids, names or titles: teams.include keeps only these, teams.exclude drops these
+const includeTeams = config.teams.include.map(s => s.toLowerCase());
+const excludeTeams = config.teams.exclude.map(s => s.toLowerCase());
+// Workspaces, workspace memberships and workspace role permissions
+const fetchWorkspaces = config.datasets.workspaces;
+// Where a workspace's own Superset API lives; {hostname} and {name} come from the workspace record
+const workspaceUrlPattern = config.endpoints.workspace_url;
+// Chart, dashboard and dataset inventory per workspace
+const fetchContent = config.datasets.content;
+// Alert rules (YAML) evaluated over each run's new events and membership changes; new firings are POSTed to the webhook
+const alertRulesFile = path.resolve(config.alerts.rules);
+const alertWebhook = process.env.PRESET_ALERT_WEBHOOK;
+// A run fails (non-zero exit, previous data kept) when any of these come back empty
+const requiredDatasets = config.datasets.required;
+// Debug dumps (debug.auth / debug.teams / debug.team_members) are written here, never under the output directory
+const debugDir = path.resolve(config.debug.dir);
 
-function extractJWT(json, headers) {
-  if (!json) return null;
-  const candidates = [
-    json.jwt,
-    json.access_token,
-    json.token,
-    json.id_token,
-  json?.payload?.access_token,
-  json?.payload?.token,
-    json?.data?.jwt,
-    json?.data?.access_token,
-    json?.result?.jwt,
-    json?.result?.token
-  ].filter(Boolean);
-  if (candidates.length) return candidates[0];
-  // Header fallback
-  if (headers) {
-    const auth = headers.get('Authorization') || headers.get('authorization');
-    if (auth && /bearer /i.test(auth)) return auth.split(/\s+/).pop();
-    const xToken = headers.get('x-access-token') || headers.get('X-Access-Token');
-    if (xToken) return xToken;
-  }
-  return null;
+if (!dryRun && (!token || !secret)) {
+  console.error('Missing PRESET_API_TOKEN or PRESET_API_SECRET');
+  process.exit(1);
 }
 
-async function api(relative, opts = {}) {
-  const url = `${base.replace(/\/$/, '')}${relative}`;
-  let jwt;
-  try { jwt = await obtainJWT(); } catch (e) { console.error('Auth obtain failed; API call aborted', e.message); return undefined; }
-  const headers = { 'Content-Type': 'application/json', 'Accept': 'application/json' };
-  if (jwt) headers['Authorization'] = `Bearer ${jwt}`;
-  else if (sessionCookie) headers['Cookie'] = sessionCookie;
-  try {
-    return await fetch(url, { headers, ...opts });
-  } catch (e) {
-    console.warn(`Network error for ${relative}: ${e.message}`);
-    return undefined;
-  }
+const client = createPresetClient({
+  base, token, secret, bearer: presetBearer,
+  retries: config.api.retries, backoffMs: config.api.backoff_ms, timeoutMs: config.api.timeout_ms, rps: config.api.rps,
+});
+const api = client.api;
+/** An endpoint template with its {placeholders} filled in (URL-encoded). */
+const endpointFor = (template, values) => template.replace(/\{(\w+)\}/g, (m, k) => (k in values ? encodeURIComponent(values[k]) : m));
+
+/** Whether a team passes teams.include / teams.exclude (matched case-insensitively on id, name, slug or title). */
+function teamSelected(t) {
+  const names = [t?.id, t?.name, t?.slug, t?.title].filter(v => v !== undefined && v !== null).map(v => String(v).toLowerCase());
+  if (includeTeams.length && !names.some(n => includeTeams.includes(n))) return false;
+  return !names.some(n => excludeTeams.includes(n));
 }
 
 /**
  * Try a list of candidate endpoints (first success wins). Supports both Preset
  * "v1" style and Superset-style "/api/v1/" endpoints. For Superset style, data
  * often lives in `result` property, while Preset custom endpoints may use `data`.
+ * Superset pages are 0-based. `allowEmpty` accepts an empty first page as an
+ * empty list instead of moving on to the next candidate.
  */
-async function tryEndpoints(label, candidates, { paginated = false, pageSize = 100 } = {}) {
+async function tryEndpoints(label, candidates, { paginated = false, pageSize = config.pagination.page_size, allowEmpty = false } = {}) {
   for (const endpoint of candidates) {
     try {
       if (paginated) {
-        let page = 0;
+        let page = -1;
         const out = [];
         while (true) {
           page += 1;
@@ -146,10 +117,14 @@ async function tryEndpoints(label, candidates, { paginated = false, pageSize = 1
           if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
           const json = await res.json();
           const items = Array.isArray(json?.result) ? json.result : Array.isArray(json?.data) ? json.data : Array.isArray(json) ? json : [];
-          if (items.length === 0) { if (page === 1) throw new Error('Empty first page'); break; }
+          if (items.length === 0) {
+            if (page === 0 && allowEmpty) return out;
+            if (page === 0) throw new Error('Empty first page');
+            break;
+          }
           out.push(...items);
           if (!json?.result || items.length < pageSize) break;
-          if (page > 50) { console.warn(`Stopping pagination for ${label}; >50 pages.`); break; }
+          if (page + 1 >= config.pagination.max_pages) { console.warn(`Stopping pagination for ${label}; >${config.pagination.max_pages} pages.`); break; }
         }
         if (out.length) { console.log(`${label}: fetched ${out.length} records from ${endpoint}`); return out; }
       } else {
@@ -171,28 +146,204 @@ async function tryEndpoints(label, candidates, { paginated = false, pageSize = 1
   return [];
 }
 
+const extractAuditItems = (json) => {
+  if (Array.isArray(json)) return json;
+  for (const k of ['data', 'result', 'payload', 'logs']) if (Array.isArray(json?.[k])) return json[k];
+  return [];
+};
+
+/**
+ * Work out the next audit-log page. Prefers an explicit `next` link, then a
+ * total count from `meta`, and finally assumes more pages while pages are full.
+ */
+function nextAuditPage(json, current, page, received) {
+  const link = json?.next || json?.links?.next || json?.meta?.next;
+  if (typeof link === 'string' && link) return link;
+  const total = Number(json?.meta?.count ?? json?.meta?.total ?? json?.count ?? json?.total);
+  if (Number.isFinite(total) && total > 0) { if (page * auditPageSize >= total) return null; }
+  else if (received < auditPageSize) return null;
+  return current.replace(/([?&]page_number=)\d+/, `$1${page + 1}`);
+}
+
+/** First audit-log page for a team identifier. */
+function auditLogsEndpoint(teamId) {
+  const url = endpointFor(config.endpoints.audit_logs, { team_id: teamId });
+  return `${url}${url.includes('?') ? '&' : '?'}days=${auditDays}&page_number=1&page_size=${auditPageSize}`;
+}
+
+/**
+ * Fetch audit logs for one team identifier, following pagination to the end or
+ * until we reach events already present in the archive (`since`, epoch ms).
+ * Returns null when the identifier is not recognised (404 on the first page).
+ */
+async function fetchAuditLogs(candidate, { since = 0 } = {}) {
+  const out = [];
+  let endpoint = auditLogsEndpoint(candidate);
+  let page = 1;
+  let previousFirst = null;
+  while (endpoint) {
+    const res = await api(endpoint);
+    if (!res) throw new Error('No response');
+    if (res.status === 404) { if (page === 1) { console.warn(`audit_logs: 404 ${endpoint}`); return null; } break; }
+    if (!res.ok) throw new Error(`${res.status} ${res.statusText} (page ${page})`);
+    const json = await res.json();
+    const items = extractAuditItems(json);
+    if (!items.length) break;
+    // Guard against an API that ignores paging params and returns page 1 forever
+    const firstKey = eventKey(items[0]);
+    if (firstKey === previousFirst) { console.warn(`audit_logs: page ${page} repeats previous page; stopping.`); break; }
+    previousFirst = firstKey;
+    out.push(...items);
+    if (since) {
+      const oldest = Math.min(...items.map(l => timestampMs(l?.timestamp)).filter(t => !isNaN(t)));
+      if (oldest <= since) { console.log(`audit_logs: reached archived events at page ${page}`); break; }
+    }
+    endpoint = nextAuditPage(json, endpoint, page, items.length);
+    page += 1;
+    if (page > config.audit.max_pages) { console.warn(`audit_logs: stopping pagination; >${config.audit.max_pages} pages.`); break; }
+  }
+  return out;
+}
+
+const listOf = (json) => {
+  if (Array.isArray(json)) return json;
+  for (const k of ['payload', 'data', 'result']) if (Array.isArray(json?.[k])) return json[k];
+  if (Array.isArray(json?.payload?.data)) return json.payload.data;
+  return [];
+};
+
+/** GET a list endpoint; null on 404, throws on other errors. */
+async function getList(endpoint) {
+  const res = await api(endpoint);
+  if (!res) throw new Error('No response');
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+  return listOf(await res.json());
+}
+
+/** Base URL of a workspace's own Superset API; null when the pattern needs a hostname the workspace lacks. */
+function workspaceRoot(ws) {
+  if (workspaceUrlPattern.includes('{hostname}') && !ws.hostname) return null;
+  return workspaceUrlPattern.replace('{hostname}', ws.hostname || '').replace('{name}', encodeURIComponent(ws.name)).replace(/\/+$/, '');
+}
+
+/**
+ * Roles defined in one workspace, with their permissions, read from the
+ * workspace's Superset security API (/api/v1/security/roles/).
+ */
+async function fetchWorkspaceRoles(ws, teamId) {
+  const root = workspaceRoot(ws);
+  if (!root) return [];
+  const list = await getList(`${root}/api/v1/security/roles/?q=${encodeURIComponent(JSON.stringify({ page: 0, page_size: 100 }))}`);
+  if (!list) { console.warn(`workspace_roles: ${ws.name} has no security API at ${root}`); return []; }
+  const roles = [];
+  for (const r of list) {
+    const permissions = await getList(`${root}/api/v1/security/roles/${encodeURIComponent(r.id)}/permissions/`);
+    roles.push(normalizeRole({ ...r, permissions: permissions || [] }, { teamId, workspace: ws }));
+  }
+  return roles;
+}
+
+/** Charts, dashboards and datasets of one workspace from its /api/v1/ list endpoints. */
+async function fetchWorkspaceContent(ws, teamId) {
+  const root = workspaceRoot(ws);
+  if (!root) return [];
+  const assets = [];
+  for (const kind of ASSET_KINDS) {
+    const items = await tryEndpoints(`content ${ws.name} ${kind}s`, [`${root}/api/v1/${kind}/`], { paginated: true, allowEmpty: true });
+    items.forEach(a => assets.push(normalizeAsset(maskPII(a), { kind, teamId, workspace: ws })));
+  }
+  return assets;
+}
+
+/**
+ * A team's workspaces, who holds which role in each, what each role may do and
+ * (datasets.content) the content in each. Null when the team has no workspace API.
+ */
+async function fetchWorkspaceAccess(teamId, identifiers) {
+  let list = null;
+  let identifier;
+  for (const candidate of identifiers) {
+    list = await getList(endpointFor(config.endpoints.workspaces, { team_id: candidate }));
+    if (list) { identifier = candidate; break; }
+  }
+  if (!list) return null;
+  const workspaces = list.map(w => normalizeWorkspace(w, { teamId }));
+  const memberships = [];
+  const roles = [];
+  const content = [];
+  for (const ws of workspaces) {
+    const items = await getList(endpointFor(config.endpoints.workspace_memberships, { team_id: identifier, workspace_id: ws.id }));
+    (items || []).forEach(m => memberships.push(maskPII(normalizeWorkspaceMembership(m, { teamId, workspace: ws }))));
+    try { roles.push(...await fetchWorkspaceRoles(ws, teamId)); }
+    catch (e) { console.warn(`workspace_roles: ${ws.name} error ${e.message}`); }
+    if (fetchContent) content.push(...await fetchWorkspaceContent(ws, teamId));
+  }
+  console.log(`workspaces: team ${teamId} -> ${workspaces.length} workspaces, ${memberships.length} memberships, ${roles.length} roles, ${content.length} assets`);
+  return { workspaces, memberships, roles, content };
+}
+
+/** --dry-run: the requests a run would make with this config, without making any. */
+function printPlan(outDir, alertRules) {
+  const rel = (p) => path.relative(process.cwd(), p) || '.';
+  const url = (e) => (/^https?:\/\//i.test(e) ? e : `${base.replace(/\/$/, '')}${e}`);
+  const paged = `page_size ${config.pagination.page_size}, up to ${config.pagination.max_pages} pages`;
+  const lines = [
+    `config: ${loaded.file ? rel(loaded.file) : 'defaults (no config file)'}${loaded.overrides.length ? `; env overrides: ${loaded.overrides.join(', ')}` : ''}`,
+    '',
+    'Planned requests:',
+    presetBearer ? '  auth: PRESET_BEARER set, no token exchange' : `  POST ${url('/v1/auth/')}`,
+  ];
+  for (const [name, endpoints] of [['users', config.endpoints.users], ['roles', config.endpoints.roles]]) {
+    if (config.datasets[name]) lines.push(`  ${name} (first that answers, ${paged}):`, ...endpoints.map(e => `    GET ${url(e)}`));
+  }
+  lines.push(`  GET ${url(config.endpoints.teams)}`);
+  if (includeTeams.length) lines.push(`    keep teams: ${config.teams.include.join(', ')}`);
+  if (excludeTeams.length) lines.push(`    skip teams: ${config.teams.exclude.join(', ')}`);
+  lines.push('  per team ({team_id} tried as name, id, then uuid):');
+  lines.push('    members (first that answers):', ...config.endpoints.team_members.map(e => `      GET ${url(e)}`));
+  if (fetchWorkspaces) {
+    const root = workspaceUrlPattern.replace(/\/+$/, '');
+    lines.push(`    GET ${url(config.endpoints.workspaces)}`);
+    lines.push('    per workspace:');
+    lines.push(`      GET ${url(config.endpoints.workspace_memberships)}`);
+    lines.push(`      GET ${root}/api/v1/security/roles/ (+ /{role_id}/permissions/ each)`);
+    if (fetchContent) lines.push(...ASSET_KINDS.map(kind => `      GET ${root}/api/v1/${kind}/ (${paged})`));
+  }
+  lines.push(`    GET ${url(auditLogsEndpoint('{team_id}').replace(/%7B(\w+)%7D/g, '{$1}'))} (up to ${config.audit.max_pages} pages, stops at archived events)`);
+  lines.push(
+    '',
+    `output: ${rel(outDir)}`,
+    `debug dumps: ${['auth', 'teams', 'team_members'].filter(k => config.debug[k]).join(', ') || 'off'} (${rel(debugDir)})`,
+    `alert rules: ${alertRules ? `${alertRules.length} from ${rel(alertRulesFile)}` : 'none'}${alertWebhook ? ', webhook set' : ''}`,
+    `required datasets: ${requiredDatasets.join(', ') || 'none'}`,
+  );
+  console.log(lines.join('\n'));
+}
+
 async function main() {
-  const outDir = path.resolve('public/data');
+  const startedAt = new Date().toISOString();
+  const outDir = path.resolve(config.output.dir);
+  // Load rules before any fetching so a broken rules file fails fast
+  const alertRules = await loadAlertRules(alertRulesFile);
+  if (!alertRules && loaded.explicit.has('alerts.rules')) throw new Error(`alerts.rules: ${alertRulesFile} not found`);
+  if (dryRun) { printPlan(outDir, alertRules); return; }
   await fs.mkdir(outDir, { recursive: true });
+  // Debug dumps used to be written here; make sure none from older runs get published
+  for (const f of await fs.readdir(outDir)) {
+    if (/^_(auth_debug|teams_raw|team_members_raw_.*)\.json$/.test(f)) await fs.rm(path.join(outDir, f), { force: true });
+  }
+  const auditArchive = await loadAuditArchive(outDir);
+  const archivedUntil = latestByTeam(auditArchive);
 
-    // Optional legacy user/role fetch can be enabled via PRESET_FETCH_USERS=1 / PRESET_FETCH_ROLES=1
-    const fetchUsers = process.env.PRESET_FETCH_USERS === '1';
-    const fetchRoles = process.env.PRESET_FETCH_ROLES === '1';
-    const users = fetchUsers ? await tryEndpoints('users', ['/api/v1/user/','/api/v1/users','/v1/users'], { paginated: true }) : [];
-    const roles = fetchRoles ? await tryEndpoints('roles', ['/api/v1/role/','/api/v1/roles','/v1/roles'], { paginated: true }) : [];
+  // Optional legacy user/role fetch (datasets.users / datasets.roles)
+  const users = config.datasets.users ? await tryEndpoints('users', config.endpoints.users, { paginated: true }) : [];
+  const roles = config.datasets.roles ? await tryEndpoints('roles', config.endpoints.roles, { paginated: true }) : [];
 
   // --- Teams / Team Members (primary new requirement) ---
-  // Endpoint defaults (configurable)
-  const teamsEndpoint = process.env.PRESET_TEAMS_ENDPOINT || '/v1/teams/';
-  const teamMembersPattern = process.env.PRESET_TEAM_MEMBERS_PATTERN || '/v1/teams/{team_id}/memberships';
-  const teamMembersFallbacks = [
-    teamMembersPattern,
-    '/v1/teams/{team_id}/memberships/',
-    '/v1/teams/{team_id}/members',
-    '/v1/teams/{team_id}/members/',
-    '/v1/teams/{team_id}/users',
-    '/v1/teams/{team_id}/users/'
-  ];
+  // Membership endpoints are tried in order (endpoints.team_members)
+  const teamsEndpoint = config.endpoints.teams;
+  const teamMembersFallbacks = config.endpoints.team_members;
 
   let teams = [];
   let rawTeamsResponse = null;
@@ -218,27 +369,37 @@ async function main() {
           }
         }
       }
+      teams = teams.map(normalizeTeam);
       console.log(`teams: fetched ${teams.length}`);
     } else if (res) {
       const body = await res.text().catch(()=> '');
       console.warn(`teams endpoint failed ${res.status} ${res.statusText} body≈ ${body.slice(0,120)}`);
     }
   } catch (e) { console.warn('teams fetch error', e.message); }
+  // Skipped teams are not fetched, and their archived events are dropped from the published archive
+  const skippedTeams = teams.filter(t => !teamSelected(t));
+  const skippedTeamIds = new Set(skippedTeams.flatMap(t => [t.id, t.name]).filter(v => v !== undefined && v !== null).map(String));
+  if (skippedTeams.length) {
+    teams = teams.filter(teamSelected);
+    console.log(`teams: skipping ${skippedTeams.map(t => t.title || t.name || t.id).join(', ')} (teams.include / teams.exclude)`);
+  }
 
-  // Fetch members per team (aggregate)
-  const teamMembers = [];
-  const auditLogsAll = [];
-  for (const t of teams) {
+  // Fetch members and audit logs per team, a few teams at a time (api.concurrency)
+  const failedTeams = [];
+  const perTeam = await mapLimit(teams, concurrency, async (t) => {
+    const members = [];
+    const logs = [];
+    let access = null;
     const numericId = t?.id || t?.team_id;
     const nameId = t?.name || t?.slug || t?.title; // observed membership endpoint uses name (e.g. /v1/teams/{name}/memberships)
     const uuidId = t?.uuid;
     const identifiers = [nameId, numericId, uuidId].filter(v => v !== undefined && v !== null).map(String);
     const uniqueIds = [...new Set(identifiers)];
-    if (!uniqueIds.length) continue;
+    if (!uniqueIds.length) return { members, logs, access };
     let got = false;
     for (const candidate of uniqueIds) {
       for (const pattern of teamMembersFallbacks) {
-        const ep = pattern.replace('{team_id}', encodeURIComponent(candidate));
+        const ep = endpointFor(pattern, { team_id: candidate });
         try {
           const res = await api(ep);
           if (!res) continue;
@@ -258,26 +419,11 @@ async function main() {
               if (Array.isArray(v) && v.some(o => o && typeof o === 'object' && ('user_id' in o || 'email' in o))) { items = v; break; }
             }
           }
-          if (items.length) {
-            items.forEach(m => {
-              const u = m?.user || {};
-              teamMembers.push({
-                ...m,
-                _team_id: numericId ?? nameId,
-                _team_identifier_used: candidate,
-                email: u.email,
-                first_name: u.first_name,
-                last_name: u.last_name,
-                username: u.username,
-                user_id: u.id ?? m.user_id ?? m.id,
-                team_role_name: m?.team_role?.name
-              });
-            });
-          }
+          items.forEach(m => members.push(maskPII(normalizeMember(m, { teamId: numericId ?? nameId, identifier: candidate }))));
           console.log(`team_members: team ${numericId ?? nameId} via ${ep} -> ${items.length}`);
-          if (process.env.PRESET_DEBUG_TEAM_MEMBERS === '1') {
+          if (config.debug.team_members) {
             const dumpName = `_team_members_raw_${(numericId ?? nameId)}.json`;
-            try { await fs.writeFile(path.join(outDir, dumpName), JSON.stringify(json, null, 2)); } catch {}
+            try { await writeDebugDump(dumpName, json, debugDir); } catch {}
           }
           got = true;
           break;
@@ -285,49 +431,134 @@ async function main() {
       }
       if (got) break;
     }
-    if (!got) console.warn(`team_members: ${(numericId ?? nameId)} all patterns failed`);
+    if (!got) {
+      console.warn(`team_members: ${(numericId ?? nameId)} all patterns failed`);
+      failedTeams.push({ team: String(numericId ?? nameId), dataset: 'team_members' });
+    }
+
+    if (fetchWorkspaces) {
+      try {
+        access = await fetchWorkspaceAccess(numericId ?? nameId, uniqueIds);
+        if (!access) console.warn(`workspaces: ${numericId ?? nameId} 404 for every identifier`);
+      } catch (e) {
+        console.warn(`workspaces: ${numericId ?? nameId} error ${e.message}`);
+      }
+      if (!access) failedTeams.push({ team: String(numericId ?? nameId), dataset: 'workspaces' });
+    }
 
-    // Audit logs fetch (once per team)
+    // Audit logs fetch (once per team, all pages since the last archived event)
     const auditTried = new Set();
+    let auditFailed = false;
+    const since = archivedUntil.get(String(numericId ?? nameId)) || 0;
     for (const candidate of uniqueIds) {
       if (auditTried.has(candidate)) continue;
       auditTried.add(candidate);
-      const auditEndpoint = `/v2/audit/teams/${encodeURIComponent(candidate)}/logs?days=30`;
       try {
-        const res = await api(auditEndpoint);
-        if (!res) continue;
-        if (res.status === 404) { console.warn(`audit_logs: 404 ${auditEndpoint}`); continue; }
-        if (!res.ok) { console.warn(`audit_logs: ${res.status} ${auditEndpoint}`); continue; }
-        const json = await res.json();
-        let items = [];
-        if (Array.isArray(json)) items = json; else if (Array.isArray(json?.data)) items = json.data; else if (Array.isArray(json?.result)) items = json.result; else if (Array.isArray(json?.payload)) items = json.payload; else if (Array.isArray(json?.logs)) items = json.logs;
-        if (!items.length) continue;
-        items.forEach(l => auditLogsAll.push({ ...l, _team_id: numericId ?? nameId, _team_identifier_used: candidate }));
-        console.log(`audit_logs: team ${numericId ?? nameId} via ${auditEndpoint} -> ${items.length}`);
+        const items = await fetchAuditLogs(candidate, { since });
+        if (!items?.length) continue;
+        // Key on the raw event so the archive deduplicates the same way whatever the PII mode
+        items.forEach(l => logs.push(maskPII(normalizeAuditEvent(withEventKey({ ...l, _team_id: numericId ?? nameId }), { identifier: candidate }))));
+        console.log(`audit_logs: team ${numericId ?? nameId} via ${candidate} -> ${items.length}`);
         break; // stop after first successful identifier
-      } catch (e) { console.warn(`audit_logs: error ${e.message}`); }
+      } catch (e) {
+        console.warn(`audit_logs: ${candidate} error ${e.message}`);
+        auditFailed = true;
+      }
     }
-  }
+    const auditUnavailable = auditFailed && !logs.length;
+    if (auditUnavailable) failedTeams.push({ team: String(numericId ?? nameId), dataset: 'audit_logs' });
+    return { members, logs, access, auditUnavailable };
+  });
+  const teamMembers = perTeam.flatMap(r => r.members);
+  const auditLogsAll = perTeam.flatMap(r => r.logs);
+  const workspaces = perTeam.flatMap(r => r.access?.workspaces || []);
+  const workspaceMemberships = perTeam.flatMap(r => r.access?.memberships || []);
+  const workspaceRoles = perTeam.flatMap(r => r.access?.roles || []);
+  const content = perTeam.flatMap(r => r.access?.content || []);
 
   const usersFinal = users;
   const rolesFinal = roles;
 
   const timestamp = new Date().toISOString();
+  // Restored events are re-normalized and re-masked in case the model or PRESET_PII_MODE changed since they were archived
+  const restored = auditArchive.filter(e => !skippedTeamIds.has(String(e._team_id ?? '')));
+  const auditLogs = mergeAuditEvents(maskPII(restored.map(e => normalizeAuditEvent(e))), auditLogsAll);
+  const datasets = { users: usersFinal.length, roles: rolesFinal.length, teams: teams.length, team_members: teamMembers.length, workspaces: workspaces.length, workspace_memberships: workspaceMemberships.length, workspace_roles: workspaceRoles.length, content: content.length, audit_logs: auditLogs.length, audit_logs_new: auditLogs.length - restored.length };
+  // Restored events keep audit_logs non-zero, so it counts as missing when no team's audit fetch succeeded this run
+  const auditFetched = !perTeam.length || !perTeam.every(r => r.auditUnavailable);
+  const missing = requiredDatasets.filter(d => !datasets[d] || (d === 'audit_logs' && !auditFetched));
+  const report = {
+    generated_at: timestamp,
+    started_at: startedAt,
+    duration_ms: Date.now() - Date.parse(startedAt),
+    ok: missing.length === 0,
+    datasets,
+    required: requiredDatasets,
+    missing,
+    failed_teams: failedTeams,
+    skipped_teams: skippedTeams.map(t => String(t.id ?? t.name)),
+    ...client.stats,
+  };
+  await writeJSON(path.join(outDir, 'run_report.json'), report);
+  if (client.stats.failures.length) console.warn(`run_report: ${client.stats.failures.length} failed request(s), ${client.stats.retries} retries`);
+  if (missing.length) {
+    // Keep the previous data files rather than publishing empty ones
+    console.error(`Required dataset(s) empty: ${missing.join(', ')}. Previous data left in place; see run_report.json.`);
+    process.exitCode = 1;
+    return;
+  }
+
   const metaWrap = (arr) => ({ generated_at: timestamp, count: arr.length, data: arr.slice(0,3).map(o=>o?.id ?? o?.name ?? 'sample') });
 
-  await fs.writeFile(path.join(outDir, 'users.json'), JSON.stringify(usersFinal, null, 2));
-  await fs.writeFile(path.join(outDir, 'roles.json'), JSON.stringify(rolesFinal, null, 2));
-  await fs.writeFile(path.join(outDir, 'teams.json'), JSON.stringify(teams, null, 2));
-  await fs.writeFile(path.join(outDir, 'team_members.json'), JSON.stringify(teamMembers, null, 2));
-  await fs.writeFile(path.join(outDir, 'audit_logs.json'), JSON.stringify(auditLogsAll, null, 2));
-  await fs.writeFile(path.join(outDir, 'summary.json'), JSON.stringify({ users: metaWrap(usersFinal), roles: metaWrap(rolesFinal), teams: metaWrap(teams), team_members: metaWrap(teamMembers) }, null, 2));
-  if (process.env.PRESET_DEBUG_AUTH === '1' && debugAuthPayload) {
-    await fs.writeFile(path.join(outDir, '_auth_debug.json'), JSON.stringify(debugAuthPayload, null, 2));
+  await writeJSON(path.join(outDir, 'users.json'), usersFinal);
+  await writeJSON(path.join(outDir, 'roles.json'), rolesFinal);
+  await writeJSON(path.join(outDir, 'teams.json'), teams);
+  await writeJSON(path.join(outDir, 'team_members.json'), teamMembers);
+  await writeJSON(path.join(outDir, 'workspaces.json'), workspaces);
+  await writeJSON(path.join(outDir, 'workspace_memberships.json'), workspaceMemberships);
+  await writeJSON(path.join(outDir, 'workspace_roles.json'), workspaceRoles);
+  await writeJSON(path.join(outDir, 'content.json'), content);
+  await writeAuditArchive(outDir, auditLogs, timestamp);
+  const summary = { users: metaWrap(usersFinal), roles: metaWrap(rolesFinal), teams: metaWrap(teams), team_members: metaWrap(teamMembers),
+    workspaces: metaWrap(workspaces), workspace_memberships: metaWrap(workspaceMemberships), workspace_roles: metaWrap(workspaceRoles), content: metaWrap(content) };
+  await writeJSON(path.join(outDir, 'summary.json'), summary);
+  await writeValidationReport(outDir, timestamp, {
+    'teams.json': validateDataset('team', teams),
+    'team_members.json': validateDataset('member', teamMembers),
+    'workspaces.json': validateDataset('workspace', workspaces),
+    'workspace_memberships.json': validateDataset('workspace_membership', workspaceMemberships),
+    'workspace_roles.json': validateDataset('workspace_role', workspaceRoles),
+    'content.json': validateDataset('asset', content),
+    'audit/*.json': validateDataset('audit_event', auditLogs),
+    'summary.json': validateDataset('summary_entry', summary, { list: false }),
+  });
+  const changes = teams.length || teamMembers.length ? await recordSnapshot(outDir, { teams, team_members: teamMembers, generated_at: timestamp }) : [];
+  if (alertRules) {
+    const archived = new Set(auditArchive.map(eventKey));
+    const newEvents = auditLogsAll.filter(e => !archived.has(e._event_key));
+    const fired = evaluateAlerts(alertRules, { events: newEvents, changes, members: teamMembers, generated_at: timestamp });
+    const fresh = await writeAlerts(outDir, alertRules, fired, timestamp);
+    report.alerts = { rules: alertRules.length, fired: fired.length, new: fresh.length, webhook: null };
+    if (alertWebhook && fresh.length) report.alerts.webhook = await postAlerts(alertWebhook, fresh, { generated_at: timestamp });
+    await writeJSON(path.join(outDir, 'run_report.json'), report);
+    console.log(`alerts: ${alertRules.length} rules, ${fired.length} firing(s), ${fresh.length} new${report.alerts.webhook ? `, webhook ${report.alerts.webhook.ok ? 'ok' : 'failed'}` : ''}`);
   }
-  if (process.env.PRESET_DEBUG_TEAMS === '1' && rawTeamsResponse) {
-    await fs.writeFile(path.join(outDir, '_teams_raw.json'), JSON.stringify(rawTeamsResponse, null, 2));
+  // Debug dumps go to the unpublished debug directory (.debug/ by default), never public/data
+  if (config.debug.auth && client.debugAuthPayload) await writeDebugDump('_auth_debug.json', client.debugAuthPayload, debugDir);
+  if (config.debug.teams && rawTeamsResponse) await writeDebugDump('_teams_raw.json', rawTeamsResponse, debugDir);
+  console.log(`Wrote (users:${usersFinal.length}) (roles:${rolesFinal.length}) (teams:${teams.length}) (team_members:${teamMembers.length}) (workspaces:${workspaces.length}) (workspace_roles:${workspaceRoles.length}) (content:${content.length}) (audit_logs:${auditLogs.length}, +${auditLogs.length - restored.length} new).`);
+}
+
+/**
+ * Record how well the written files match the shared model (shared/model.mjs).
+ * Mismatches are reported, not fatal: the UI shows a warning banner for them.
+ */
+async function writeValidationReport(outDir, generated_at, files) {
+  const invalid = Object.entries(files).filter(([, r]) => r.invalid);
+  for (const [file, r] of invalid) {
+    console.warn(`validation: ${file} ${r.invalid}/${r.total} records do not match the ${r.kind} schema; first: ${describeIssue(r.issues[0])}`);
   }
-  console.log(`Wrote (users:${usersFinal.length}) (roles:${rolesFinal.length}) (teams:${teams.length}) (team_members:${teamMembers.length}).`);
+  await writeJSON(path.join(outDir, 'validation_report.json'), { generated_at, ok: invalid.length === 0, files });
 }
 
 main().catch(err => { console.error(err); process.exit(1); });
@@ -0,0 +1,249 @@
+/**
+ * Build-time alert rules. Rules live in a YAML file (alerts.yml by default,
+ * PRESET_ALERT_RULES to override) and are evaluated over each run's new audit
+ * events and membership changes. Firings accumulate in alerts.json and can be
+ * POSTed to a webhook (PRESET_ALERT_WEBHOOK).
+ *
+ * Rule fields:
+ *   id, title, severity (low | medium | high)
+ *   source     audit (default) | changes
+ *   match      { field: value } or a list of them (any may match). Fields are
+ *              dotted paths; values match exactly, by `*` glob, by /regex/, or
+ *              any of a list
+ *   exclude    same shape as match; matching records are skipped
+ *   member     true | false: only events whose user is / is not a team member
+ *   group_by   field paths firings are split by, e.g. [user]
+ *   window     30m | 1h | 1d ...; threshold records within this span fire
+ *   threshold  minimum number of records (default 1)
+ */
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import yaml from 'js-yaml';
+import { loadPrevious } from './published.mjs';
+import { writeJSON } from './redact.mjs';
+import { timestampMs } from '../../shared/model.mjs';
+
+export const SEVERITIES = ['low', 'medium', 'high'];
+export const SOURCES = ['audit', 'changes'];
+const RULE_KEYS = ['id', 'title', 'description', 'severity', 'source', 'match', 'exclude', 'member', 'group_by', 'window', 'threshold'];
+const MAX_ALERTS = 1000;
+const MAX_KEYS = 50;
+
+const UNIT_MS = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** "90s", "30m", "1h", "7d" (or a number of seconds) to milliseconds; null when absent. */
+export function parseDuration(v) {
+  if (v === undefined || v === null) return null;
+  if (typeof v === 'number' && v > 0) return v * 1000;
+  const m = /^(\d+(?:\.\d+)?)\s*([smhd])$/.exec(String(v).trim());
+  if (!m) throw new Error(`invalid duration "${v}" (use e.g. 30m, 1h, 7d)`);
+  return Number(m[1]) * UNIT_MS[m[2]];
+}
+
+function checkConditions(value, where) {
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.length || list.some(c => !c || typeof c !== 'object' || Array.isArray(c) || !Object.keys(c).length)) {
+    throw new Error(`${where} must be a non-empty mapping of field: value (or a list of them)`);
+  }
+  for (const c of list) {
+    for (const [field, expected] of Object.entries(c)) {
+      for (const e of Array.isArray(expected) ? expected : [expected]) {
+        if (typeof e === 'string' && /^\/.*\/[a-z]*$/.test(e)) {
+          try { toRegExp(e); } catch (err) { throw new Error(`${where}.${field}: ${err.message}`); }
+        }
+      }
+    }
+  }
+  return list;
+}
+
+/**
+ * Validate parsed rules, throwing an Error that names the rule and field at
+ * fault. Returns rules with defaults filled in.
+ */
+export function validateRules(doc, file = 'alert rules') {
+  const rules = Array.isArray(doc) ? doc : doc?.rules;
+  if (!Array.isArray(rules)) throw new Error(`${file}: expected a top-level "rules:" list`);
+  const seen = new Set();
+  return rules.map((r, i) => {
+    const where = `${file}: rules[${i}]${r?.id ? ` (${r.id})` : ''}`;
+    if (!r || typeof r !== 'object' || Array.isArray(r)) throw new Error(`${where}: expected a mapping`);
+    const unknown = Object.keys(r).filter(k => !RULE_KEYS.includes(k));
+    if (unknown.length) throw new Error(`${where}: unknown field(s) ${unknown.join(', ')}; allowed: ${RULE_KEYS.join(', ')}`);
+    if (typeof r.id !== 'string' || !/^[\w.-]+$/.test(r.id)) throw new Error(`${where}: "id" must be a word-like string`);
+    if (seen.has(r.id)) throw new Error(`${where}: duplicate id`);
+    seen.add(r.id);
+    const source = r.source ?? 'audit';
+    if (!SOURCES.includes(source)) throw new Error(`${where}: source must be one of ${SOURCES.join(', ')}`);
+    const severity = r.severity ?? 'medium';
+    if (!SEVERITIES.includes(severity)) throw new Error(`${where}: severity must be one of ${SEVERITIES.join(', ')}`);
+    const threshold = r.threshold ?? 1;
+    if (!Number.isInteger(threshold) || threshold < 1) throw new Error(`${where}: threshold must be a positive integer`);
+    let windowMs;
+    try { windowMs = parseDuration(r.window); } catch (e) { throw new Error(`${where}: window: ${e.message}`); }
+    const groupBy = r.group_by === undefined ? [] : Array.isArray(r.group_by) ? r.group_by : [r.group_by];
+    if (groupBy.some(g => typeof g !== 'string' || !g)) throw new Error(`${where}: group_by must be a field name or a list of them`);
+    if (r.member !== undefined && typeof r.member !== 'boolean') throw new Error(`${where}: member must be true or false`);
+    if (r.member !== undefined && source !== 'audit') throw new Error(`${where}: member only applies to audit rules`);
+    return {
+      id: r.id,
+      title: r.title ? String(r.title) : r.id,
+      description: r.description ? String(r.description) : undefined,
+      severity,
+      source,
+      match: r.match === undefined ? [] : checkConditions(r.match, `${where}: match`),
+      exclude: r.exclude === undefined ? [] : checkConditions(r.exclude, `${where}: exclude`),
+      member: r.member,
+      group_by: groupBy,
+      window_ms: windowMs,
+      window: r.window ?? null,
+      threshold,
+    };
+  });
+}
+
+/** Read and validate the rules file; null when it does not exist. YAML and rule errors name the file. */
+export async function loadAlertRules(file) {
+  let text;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (e) {
+    if (e.code === 'ENOENT') return null;
+    throw e;
+  }
+  let doc;
+  try {
+    doc = yaml.load(text, { filename: file });
+  } catch (e) {
+    throw new Error(`${path.basename(file)}: invalid YAML: ${e.message}`);
+  }
+  return validateRules(doc, path.basename(file));
+}
+
+const valueAt = (record, field) => field.split('.').reduce((v, k) => (v && typeof v === 'object' ? v[k] : undefined), record);
+
+function toRegExp(pattern) {
+  const m = /^\/(.*)\/([a-z]*)$/.exec(pattern);
+  return new RegExp(m[1], m[2]);
+}
+
+function matchesValue(actual, expected) {
+  if (Array.isArray(expected)) return expected.some(e => matchesValue(actual, e));
+  if (expected === null) return actual === null || actual === undefined;
+  if (typeof expected !== 'string') return actual === expected;
+  if (actual === null || actual === undefined) return false;
+  const s = String(actual);
+  if (/^\/.*\/[a-z]*$/.test(expected)) return toRegExp(expected).test(s);
+  if (expected.includes('*')) {
+    const re = new RegExp(`^${expected.split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+    return re.test(s);
+  }
+  return s.toLowerCase() === expected.toLowerCase();
+}
+
+const matchesAll = (record, condition) => Object.entries(condition).every(([f, v]) => matchesValue(valueAt(record, f), v));
+const matchesAny = (record, conditions) => conditions.some(c => matchesAll(record, c));
+
+const timeOf = (record, source) => timestampMs(source === 'changes' ? record.generated_at || record.date : record.timestamp);
+const keyOf = (record, source) => String(source === 'changes' ? record.id : record._event_key ?? '');
+const shortHash = (s) => crypto.createHash('sha1').update(s).digest('hex').slice(0, 12);
+
+/** Split time-ordered records into bursts of >= threshold records no more than windowMs apart from the first. */
+function bursts(records, threshold, windowMs, source) {
+  if (windowMs === null) return records.length >= threshold ? [records] : [];
+  const out = [];
+  let i = 0;
+  for (let j = 0; j < records.length; j++) {
+    while (timeOf(records[j], source) - timeOf(records[i], source) > windowMs) i += 1;
+    if (j - i + 1 < threshold) continue;
+    // Extend to everything still inside this window, then start looking after it
+    let k = j + 1;
+    while (k < records.length && timeOf(records[k], source) - timeOf(records[i], source) <= windowMs) k += 1;
+    out.push(records.slice(i, k));
+    i = k;
+    j = k - 1;
+  }
+  return out;
+}
+
+const sampleOf = (r, source) => (source === 'changes'
+  ? { id: r.id, date: r.date, type: r.type, subject: r.subject, before: r.before ?? null, after: r.after ?? null }
+  : { _event_key: r._event_key, timestamp: r.timestamp, user: r.user, action: r.action, entity_type: r.entity_type, entity_name: r.entity_name, workspace_title: r.workspace_title });
+
+/**
+ * Evaluate rules over new audit events and membership changes. `members` are
+ * the current team members (for `member:`, matched on `_team_id` and email). Returns firings, newest first.
+ */
+export function evaluateAlerts(rules, { events = [], changes = [], members = [], generated_at = new Date().toISOString() }) {
+  // Membership is per team: a member of one team logging into another is still a non-member there
+  const memberKey = (team, email) => `${team ?? ''}|${String(email || '').toLowerCase()}`;
+  const memberKeys = new Set(members.filter(m => m.email).map(m => memberKey(m._team_id, m.email)));
+  const alerts = [];
+  for (const rule of rules) {
+    const source = rule.source;
+    const candidates = (source === 'changes' ? changes : events).filter(r =>
+      (!rule.match.length || matchesAny(r, rule.match))
+      && !(rule.exclude.length && matchesAny(r, rule.exclude))
+      && (rule.member === undefined || memberKeys.has(memberKey(r._team_id, r.user)) === rule.member)
+      && !isNaN(timeOf(r, source)));
+    const groups = new Map();
+    for (const r of candidates) {
+      const group = Object.fromEntries(rule.group_by.map(g => [g, valueAt(r, g) ?? null]));
+      const key = JSON.stringify(group);
+      if (!groups.has(key)) groups.set(key, { group, records: [] });
+      groups.get(key).records.push(r);
+    }
+    for (const { group, records } of groups.values()) {
+      records.sort((a, b) => timeOf(a, source) - timeOf(b, source));
+      for (const burst of bursts(records, rule.threshold, rule.window_ms, source)) {
+        const keys = burst.map(r => keyOf(r, source));
+        alerts.push({
+          id: shortHash(`${rule.id}|${JSON.stringify(group)}|${keys[0]}`),
+          rule: rule.id,
+          title: rule.title,
+          severity: rule.severity,
+          source,
+          group,
+          count: burst.length,
+          first: new Date(timeOf(burst[0], source)).toISOString(),
+          last: new Date(timeOf(burst[burst.length - 1], source)).toISOString(),
+          detected_at: generated_at,
+          keys: keys.slice(0, MAX_KEYS),
+          teams: [...new Set(burst.map(r => String((source === 'changes' ? r.team_id : r._team_id) ?? '')).filter(Boolean))],
+          samples: burst.slice(0, 5).map(r => sampleOf(r, source)),
+        });
+      }
+    }
+  }
+  return alerts.sort((a, b) => b.last.localeCompare(a.last));
+}
+
+/**
+ * Merge new firings into alerts.json (local and published history, deduped by
+ * id, newest first, capped at MAX_ALERTS). Returns the firings not seen before.
+ */
+export async function writeAlerts(outDir, rules, fired, generated_at) {
+  const { local, published } = await loadPrevious(outDir, 'alerts.json');
+  const history = new Map();
+  for (const doc of [published, local]) for (const a of doc?.alerts || []) history.set(a.id, a);
+  const fresh = fired.filter(a => !history.has(a.id));
+  fresh.forEach(a => history.set(a.id, a));
+  const alerts = [...history.values()].sort((a, b) => b.last.localeCompare(a.last)).slice(0, MAX_ALERTS);
+  const ruleSummary = rules.map(r => ({ id: r.id, title: r.title, severity: r.severity, source: r.source, threshold: r.threshold, window: r.window }));
+  await writeJSON(path.join(outDir, 'alerts.json'), { generated_at, rules: ruleSummary, alerts });
+  return fresh;
+}
+
+/** POST new firings to a webhook as JSON. Resolves to { ok, status } and never throws. */
+export async function postAlerts(url, alerts, { generated_at, timeoutMs = 10_000 } = {}) {
+  const body = JSON.stringify({ source: 'preset-analytics', generated_at, count: alerts.length, alerts });
+  try {
+    const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, signal: AbortSignal.timeout(timeoutMs) });
+    if (!res.ok) console.warn(`alerts: webhook responded ${res.status}`);
+    return { ok: res.ok, status: res.status };
+  } catch (e) {
+    console.warn(`alerts: webhook failed -> ${e.message}`);
+    return { ok: false, status: null };
+  }
+}
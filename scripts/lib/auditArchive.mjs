@@ -0,0 +1,130 @@
+/**
+ * Persistent audit-log archive. Preset only retains a rolling window of audit
+ * events, so every run merges freshly fetched events into the archive written
+ * by earlier runs, deduplicated by a stable event key.
+ *
+ * The archive is stored as month shards plus pre-aggregated rollups:
+ *   audit/manifest.json   { generated_at, total, months: [{ month, file, count, first, last }] }
+ *   audit/YYYY-MM.json    events of that month, newest first
+ *   rollups/daily.json    packed DAILY_COLUMNS rows
+ *   rollups/users.json    packed USER_COLUMNS rows
+ *   rollups/entities.json packed ENTITY_COLUMNS rows
+ *   rollups/hourly.json   packed HOURLY_COLUMNS rows
+ *   rollups/queries.json  packed QUERY_COLUMNS rows (datasets, metrics, columns, filters … from query payloads)
+ * The legacy single-file audit_logs.json is still read when restoring.
+ */
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { loadPrevious, readLocalJSON, readPublishedJSON } from './published.mjs';
+import { writeJSON } from './redact.mjs';
+import { timestampMs } from '../../shared/model.mjs';
+import { QUERY_COLUMNS, rollupQueries } from '../../shared/queries.mjs';
+import { DAILY_COLUMNS, ENTITY_COLUMNS, HOURLY_COLUMNS, USER_COLUMNS, eventMonth, packRows, rollupEvents } from '../../shared/rollups.mjs';
+
+const userOf = (e) => typeof e?.user === 'string' ? e.user : (e?.user?.email || e?.user_email || e?.actor || '');
+
+/**
+ * Stable identity for an audit event. The API does not expose an event id, so
+ * we hash the fields that together identify a single occurrence.
+ */
+export function eventKey(e) {
+  if (e?._event_key) return e._event_key;
+  const parts = [
+    e?.timestamp,
+    userOf(e),
+    e?.action || e?.event || e?.type,
+    e?.entity_type,
+    e?.entity_id,
+    e?.workspace_name || e?.workspace_title,
+    e?._team_id
+  ].map(v => v === undefined || v === null ? '' : String(v));
+  return crypto.createHash('sha1').update(parts.join('␟')).digest('hex').slice(0, 16);
+}
+
+export const withEventKey = (e) => e._event_key ? e : { ...e, _event_key: eventKey(e) };
+
+const tsOf = (e) => {
+  const t = timestampMs(e?.timestamp);
+  return isNaN(t) ? 0 : t;
+};
+
+/**
+ * Merge event lists (later lists win on key collisions) and return them newest
+ * first, matching the order the API returns.
+ */
+export function mergeAuditEvents(...lists) {
+  const byKey = new Map();
+  for (const list of lists) {
+    if (!Array.isArray(list)) continue;
+    for (const e of list) {
+      if (!e || typeof e !== 'object') continue;
+      const keyed = withEventKey(e);
+      byKey.set(keyed._event_key, keyed);
+    }
+  }
+  return [...byKey.values()].sort((a, b) => tsOf(b) - tsOf(a));
+}
+
+const shardFile = (month) => `audit/${month || 'undated'}.json`;
+
+async function readShard(outDir, file) {
+  return (await readLocalJSON(path.join(outDir, file))) || (await readPublishedJSON(file)) || [];
+}
+
+/** Archive from previous runs (local checkout + published site, sharded or legacy single file). */
+export async function loadAuditArchive(outDir) {
+  const [{ local: localManifest, published: publishedManifest }, { local: legacyLocal, published: legacyPublished }] = await Promise.all([
+    loadPrevious(outDir, 'audit/manifest.json'),
+    loadPrevious(outDir, 'audit_logs.json')
+  ]);
+  const files = new Set([...(localManifest?.months || []), ...(publishedManifest?.months || [])].map(m => m.file));
+  const shards = [];
+  for (const file of files) shards.push(await readShard(outDir, file));
+  const archive = mergeAuditEvents(legacyLocal, legacyPublished, ...shards);
+  console.log(`audit_archive: restored ${archive.length} events (${files.size} month shards, legacy local:${Array.isArray(legacyLocal) ? legacyLocal.length : 0} published:${Array.isArray(legacyPublished) ? legacyPublished.length : 0})`);
+  return archive;
+}
+
+/**
+ * Write the merged archive as month shards with a manifest, plus daily/hourly
+ * rollups for the charts and the query rollup for Query Insights. Replaces the legacy audit_logs.json.
+ */
+export async function writeAuditArchive(outDir, events, generated_at) {
+  const dir = path.join(outDir, 'audit');
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.mkdir(dir, { recursive: true });
+  const byMonth = new Map();
+  for (const e of events) {
+    const month = eventMonth(e);
+    if (!byMonth.has(month)) byMonth.set(month, []);
+    byMonth.get(month).push(e);
+  }
+  const months = [];
+  for (const [month, list] of [...byMonth.entries()].sort((a, b) => b[0].localeCompare(a[0]))) {
+    const file = shardFile(month);
+    await writeJSON(path.join(outDir, file), list);
+    months.push({ month: month || null, file, count: list.length, first: list[list.length - 1]?.timestamp ?? null, last: list[0]?.timestamp ?? null });
+  }
+  await writeJSON(path.join(dir, 'manifest.json'), { generated_at, total: events.length, months });
+  const { daily, users, entities, hourly } = rollupEvents(events);
+  await writeJSON(path.join(outDir, 'rollups', 'daily.json'), { generated_at, ...packRows(DAILY_COLUMNS, daily) }, { compact: true });
+  await writeJSON(path.join(outDir, 'rollups', 'users.json'), { generated_at, ...packRows(USER_COLUMNS, users) }, { compact: true });
+  await writeJSON(path.join(outDir, 'rollups', 'entities.json'), { generated_at, ...packRows(ENTITY_COLUMNS, entities) }, { compact: true });
+  await writeJSON(path.join(outDir, 'rollups', 'hourly.json'), { generated_at, ...packRows(HOURLY_COLUMNS, hourly) }, { compact: true });
+  const queries = rollupQueries(events);
+  await writeJSON(path.join(outDir, 'rollups', 'queries.json'), { generated_at, ...packRows(QUERY_COLUMNS, queries) }, { compact: true });
+  await fs.rm(path.join(outDir, 'audit_logs.json'), { force: true });
+  console.log(`audit_archive: wrote ${events.length} events in ${months.length} month shards; rollups daily:${daily.length} users:${users.length} entities:${entities.length} hourly:${hourly.length} queries:${queries.length}`);
+}
+
+/** Newest event timestamp per team in the archive, used to stop paging early. */
+export function latestByTeam(archive) {
+  const out = new Map();
+  for (const e of archive) {
+    const key = String(e?._team_id ?? '');
+    const ts = tsOf(e);
+    if (ts > (out.get(key) || 0)) out.set(key, ts);
+  }
+  return out;
+}
@@ -0,0 +1,264 @@
+/**
+ * Fetch pipeline settings. They come from a YAML (or JSON) file —
+ * preset.config.yml by default, PRESET_CONFIG or --config <file> to override —
+ * checked against SCHEMA with errors naming the file and field. The PRESET_*
+ * variables that configured the script before the file existed still apply
+ * and take precedence (ENV_OVERRIDES). Without a file the defaults below apply.
+ *
+ * Credentials (PRESET_API_TOKEN / PRESET_API_SECRET / PRESET_BEARER), the
+ * alert webhook, PII masking and PRESET_PUBLISHED_DATA_URL stay
+ * environment-only: they are secrets or differ per deployment.
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import yaml from 'js-yaml';
+
+export const DEFAULT_CONFIG_FILE = 'preset.config.yml';
+
+// Dataset counts in run_report.json that `datasets.required` may name
+export const DATASET_NAMES = ['users', 'roles', 'teams', 'team_members', 'workspaces', 'workspace_memberships', 'workspace_roles', 'content', 'audit_logs'];
+
+export const DEFAULT_CONFIG = {
+  api: { base: 'https://api.app.preset.io', concurrency: 4, rps: 8, retries: 4, backoff_ms: 500, timeout_ms: 60000 },
+  datasets: { users: false, roles: false, workspaces: true, content: true, required: ['teams', 'team_members', 'audit_logs'] },
+  teams: { include: [], exclude: [] },
+  endpoints: {
+    teams: '/v1/teams/',
+    team_members: ['/v1/teams/{team_id}/memberships', '/v1/teams/{team_id}/memberships/', '/v1/teams/{team_id}/members', '/v1/teams/{team_id}/members/', '/v1/teams/{team_id}/users', '/v1/teams/{team_id}/users/'],
+    users: ['/api/v1/user/', '/api/v1/users', '/v1/users'],
+    roles: ['/api/v1/role/', '/api/v1/roles', '/v1/roles'],
+    workspaces: '/v1/teams/{team_id}/workspaces',
+    workspace_memberships: '/v1/teams/{team_id}/workspaces/{workspace_id}/memberships',
+    audit_logs: '/v2/audit/teams/{team_id}/logs',
+    workspace_url: 'https://{hostname}',
+  },
+  audit: { days: 30, page_size: 100, max_pages: 500 },
+  pagination: { page_size: 100, max_pages: 50 },
+  output: { dir: 'public/data' },
+  debug: { dir: '.debug', auth: false, teams: false, team_members: false },
+  alerts: { rules: 'alerts.yml' },
+};
+
+// Field kinds per section; see check() for what each accepts
+const SCHEMA = {
+  api: { base: 'url', concurrency: 'count', rps: 'number', retries: 'number', backoff_ms: 'number', timeout_ms: 'count' },
+  datasets: { users: 'boolean', roles: 'boolean', workspaces: 'boolean', content: 'boolean', required: 'datasets' },
+  teams: { include: 'list', exclude: 'list' },
+  endpoints: { teams: 'path', team_members: 'paths', users: 'paths', roles: 'paths', workspaces: 'path', workspace_memberships: 'path', audit_logs: 'path', workspace_url: 'url' },
+  audit: { days: 'count', page_size: 'count', max_pages: 'count' },
+  pagination: { page_size: 'count', max_pages: 'count' },
+  output: { dir: 'string' },
+  debug: { dir: 'string', auth: 'boolean', teams: 'boolean', team_members: 'boolean' },
+  alerts: { rules: 'string' },
+};
+
+// Placeholders each endpoint must contain; any other {placeholder} is rejected
+const PLACEHOLDERS = {
+  team_members: ['team_id'],
+  workspaces: ['team_id'],
+  workspace_memberships: ['team_id', 'workspace_id'],
+  audit_logs: ['team_id'],
+};
+const ALLOWED_PLACEHOLDERS = { workspace_url: ['hostname', 'name'] };
+
+/** Environment variable -> config field. Env values win over the file. */
+export const ENV_OVERRIDES = {
+  PRESET_API_BASE: 'api.base',
+  PRESET_CONCURRENCY: 'api.concurrency',
+  PRESET_API_RPS: 'api.rps',
+  PRESET_API_RETRIES: 'api.retries',
+  PRESET_API_BACKOFF_MS: 'api.backoff_ms',
+  PRESET_API_TIMEOUT_MS: 'api.timeout_ms',
+  PRESET_FETCH_USERS: 'datasets.users',
+  PRESET_FETCH_ROLES: 'datasets.roles',
+  PRESET_FETCH_WORKSPACES: 'datasets.workspaces',
+  PRESET_FETCH_CONTENT: 'datasets.content',
+  PRESET_REQUIRED_DATASETS: 'datasets.required',
+  PRESET_TEAMS: 'teams.include',
+  PRESET_EXCLUDE_TEAMS: 'teams.exclude',
+  PRESET_TEAMS_ENDPOINT: 'endpoints.teams',
+  // Tried first; the configured list stays as fallbacks
+  PRESET_TEAM_MEMBERS_PATTERN: 'endpoints.team_members',
+  PRESET_WORKSPACE_URL_PATTERN: 'endpoints.workspace_url',
+  PRESET_AUDIT_DAYS: 'audit.days',
+  PRESET_AUDIT_PAGE_SIZE: 'audit.page_size',
+  PRESET_OUTPUT_DIR: 'output.dir',
+  PRESET_DEBUG_DIR: 'debug.dir',
+  PRESET_DEBUG_AUTH: 'debug.auth',
+  PRESET_DEBUG_TEAMS: 'debug.teams',
+  PRESET_DEBUG_TEAM_MEMBERS: 'debug.team_members',
+  PRESET_ALERT_RULES: 'alerts.rules',
+};
+
+const isUrl = (v) => /^https?:\/\/\S+$/.test(v);
+const isPath = (v) => /^\/\S*$/.test(v) || isUrl(v);
+
+/** Check (and normalize) one value of the given kind; throws a message without the field name. */
+function check(kind, v) {
+  switch (kind) {
+    case 'boolean':
+      if (typeof v !== 'boolean') throw new Error('must be true or false');
+      return v;
+    case 'count':
+      if (!Number.isInteger(v) || v < 1) throw new Error('must be a positive integer');
+      return v;
+    case 'number':
+      if (typeof v !== 'number' || !Number.isFinite(v) || v < 0) throw new Error('must be a number ≥ 0');
+      return v;
+    case 'string':
+      if (typeof v !== 'string' || !v.trim()) throw new Error('must be a non-empty string');
+      return v;
+    case 'url':
+      if (typeof v !== 'string' || !isUrl(v)) throw new Error('must be an http(s) URL');
+      return v;
+    case 'path':
+      if (typeof v !== 'string' || !isPath(v)) throw new Error('must be a path starting with / or an http(s) URL');
+      return v;
+    case 'paths': {
+      const list = Array.isArray(v) ? v : [v];
+      if (!list.length) throw new Error('must list at least one endpoint');
+      list.forEach((p, i) => { if (typeof p !== 'string' || !isPath(p)) throw new Error(`[${i}] must be a path starting with / or an http(s) URL`); });
+      return list;
+    }
+    case 'list': {
+      const list = v === null ? [] : Array.isArray(v) ? v : [v];
+      list.forEach((s, i) => { if (typeof s !== 'string' && typeof s !== 'number') throw new Error(`[${i}] must be a team id, name or title`); });
+      return list.map(String);
+    }
+    case 'datasets': {
+      const list = v === null ? [] : Array.isArray(v) ? v : [v];
+      const unknown = list.filter(d => !DATASET_NAMES.includes(d));
+      if (unknown.length) throw new Error(`unknown dataset(s) ${unknown.join(', ')}; allowed: ${DATASET_NAMES.join(', ')}`);
+      return list;
+    }
+    default:
+      throw new Error(`unknown kind ${kind}`);
+  }
+}
+
+function checkPlaceholders(key, value) {
+  const required = PLACEHOLDERS[key] || [];
+  const allowed = [...required, ...(ALLOWED_PLACEHOLDERS[key] || [])];
+  for (const [i, p] of (Array.isArray(value) ? value : [value]).entries()) {
+    const at = Array.isArray(value) ? `[${i}] ` : '';
+    const found = [...p.matchAll(/\{(\w+)\}/g)].map(m => m[1]);
+    const missing = required.filter(name => !found.includes(name));
+    if (missing.length) throw new Error(`${at}must contain ${missing.map(n => `{${n}}`).join(' and ')}`);
+    const unknown = found.filter(name => !allowed.includes(name));
+    if (unknown.length) throw new Error(`${at}unknown placeholder ${unknown.map(n => `{${n}}`).join(', ')}${allowed.length ? `; allowed: ${allowed.map(n => `{${n}}`).join(', ')}` : ''}`);
+  }
+}
+
+/** Throw when debug.dir lies inside output.dir: debug dumps must never be published. */
+function checkDebugDir(config) {
+  const inside = path.relative(path.resolve(config.output.dir), path.resolve(config.debug.dir));
+  if (!inside || (!inside.startsWith('..') && !path.isAbsolute(inside))) {
+    throw new Error(`debug.dir ${config.debug.dir} must not be inside output.dir ${config.output.dir} (debug dumps are never published)`);
+  }
+}
+
+/**
+ * Validate a parsed config document, throwing an Error that names the file and
+ * field at fault. Returns the full config with defaults filled in.
+ */
+export function validateConfig(doc, file = 'config') {
+  if (doc === undefined || doc === null) doc = {};
+  if (typeof doc !== 'object' || Array.isArray(doc)) throw new Error(`${file}: expected a mapping of sections (${Object.keys(SCHEMA).join(', ')})`);
+  const unknownSections = Object.keys(doc).filter(k => !SCHEMA[k]);
+  if (unknownSections.length) throw new Error(`${file}: unknown section(s) ${unknownSections.join(', ')}; allowed: ${Object.keys(SCHEMA).join(', ')}`);
+  const config = {};
+  for (const [section, fields] of Object.entries(SCHEMA)) {
+    const given = doc[section] ?? {};
+    if (typeof given !== 'object' || Array.isArray(given)) throw new Error(`${file}: ${section}: expected a mapping`);
+    const unknown = Object.keys(given).filter(k => !fields[k]);
+    if (unknown.length) throw new Error(`${file}: ${section}: unknown field(s) ${unknown.join(', ')}; allowed: ${Object.keys(fields).join(', ')}`);
+    config[section] = { ...DEFAULT_CONFIG[section] };
+    for (const [key, kind] of Object.entries(fields)) {
+      if (given[key] === undefined) continue;
+      try {
+        config[section][key] = check(kind, given[key]);
+        if (section === 'endpoints') checkPlaceholders(key, config[section][key]);
+      } catch (e) {
+        throw new Error(`${file}: ${section}.${key} ${e.message}`);
+      }
+    }
+  }
+  try { checkDebugDir(config); } catch (e) { throw new Error(`${file}: ${e.message}`); }
+  return config;
+}
+
+/** Convert an environment string to the field's kind; empty strings only count for lists. */
+function fromEnv(kind, raw) {
+  if (kind === 'boolean') {
+    if (/^(1|true|yes)$/i.test(raw)) return true;
+    if (/^(0|false|no)$/i.test(raw)) return false;
+    throw new Error('must be 1 / 0 (or true / false)');
+  }
+  if (kind === 'count' || kind === 'number') {
+    const n = Number(raw);
+    if (!Number.isFinite(n)) throw new Error(`must be a number, got "${raw}"`);
+    return n;
+  }
+  if (kind === 'list' || kind === 'datasets' || kind === 'paths') return raw.split(',').map(s => s.trim()).filter(Boolean);
+  return raw;
+}
+
+/**
+ * Apply ENV_OVERRIDES to a validated config. Returns the new config and the
+ * names of the variables that were applied.
+ */
+export function applyEnvOverrides(config, env = process.env) {
+  const out = Object.fromEntries(Object.entries(config).map(([k, v]) => [k, { ...v }]));
+  const applied = [];
+  for (const [name, field] of Object.entries(ENV_OVERRIDES)) {
+    const raw = env[name];
+    if (raw === undefined) continue;
+    const [section, key] = field.split('.');
+    const kind = SCHEMA[section][key];
+    if (raw === '' && !['list', 'datasets'].includes(kind)) continue;
+    let value;
+    try {
+      value = check(kind, fromEnv(kind, raw));
+      if (section === 'endpoints') checkPlaceholders(key, value);
+    } catch (e) {
+      throw new Error(`${name} (${field}) ${e.message}`);
+    }
+    if (name === 'PRESET_TEAM_MEMBERS_PATTERN') value = [...new Set([...value, ...out.endpoints.team_members])];
+    out[section][key] = value;
+    applied.push(name);
+  }
+  if (applied.includes('PRESET_OUTPUT_DIR') || applied.includes('PRESET_DEBUG_DIR')) {
+    try { checkDebugDir(out); } catch (e) { throw new Error(`PRESET_OUTPUT_DIR / PRESET_DEBUG_DIR: ${e.message}`); }
+  }
+  return { config: out, applied };
+}
+
+/**
+ * Read, validate and env-override the config. `file` is null for the default
+ * location, where a missing file means defaults; an explicit file must exist.
+ * Returns { config, file (null when none was read), overrides (env names
+ * applied), explicit (fields set by the file or the environment, e.g. "alerts.rules") }.
+ */
+export async function loadConfig(file = null, env = process.env) {
+  const resolved = path.resolve(file || DEFAULT_CONFIG_FILE);
+  let doc;
+  let text = null;
+  try {
+    text = await fs.readFile(resolved, 'utf8');
+  } catch (e) {
+    if (e.code !== 'ENOENT' || file) throw new Error(`config: cannot read ${resolved}: ${e.code === 'ENOENT' ? 'file not found' : e.message}`);
+  }
+  if (text !== null) {
+    try {
+      doc = yaml.load(text, { filename: resolved });
+    } catch (e) {
+      throw new Error(`${path.basename(resolved)}: invalid YAML: ${e.message}`);
+    }
+  }
+  const { config, applied } = applyEnvOverrides(validateConfig(doc, path.basename(resolved)), env);
+  const explicit = new Set([
+    ...Object.entries(doc || {}).flatMap(([section, fields]) => Object.keys(fields || {}).map(k => `${section}.${k}`)),
+    ...applied.map(name => ENV_OVERRIDES[name]),
+  ]);
+  return { config, file: text === null ? null : resolved, overrides: applied, explicit };
+}
@@ -0,0 +1,260 @@
+/**
+ * Weekly digest: one 7-day window of the published data (daily, user and
+ * entity rollups, changes.json, teams.json) against the 7 days before it, rendered as
+ * Markdown and as a standalone HTML page. Sparklines are inline SVG (data:
+ * URIs in the Markdown), so neither output loads anything.
+ *
+ * Sections: headline numbers with an 8-week trend, top dashboards and charts
+ * by views, most active users, members added / removed, content created /
+ * deleted and, for a digest over several teams, one row per team.
+ */
+const DAY_MS = 86_400_000;
+const TOP_N = 10;
+const TREND_WEEKS = 8;
+const CONTENT_TYPES = ['chart', 'dashboard', 'dataset'];
+
+const KPIS = [
+  ['events', 'Events'],
+  ['users', 'Active users'],
+  ['dashboard_views', 'Dashboard views'],
+  ['chart_views', 'Chart views'],
+  ['edits', 'Edits (create / update)'],
+];
+
+const dayKey = (ms) => new Date(ms).toISOString().slice(0, 10);
+const addDays = (date, n) => dayKey(Date.parse(`${date}T00:00:00Z`) + n * DAY_MS);
+const daysBetween = (a, b) => Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / DAY_MS);
+const teamId = (t) => String(t?.id ?? t?.name ?? '');
+
+/** Team whose id, name, slug or title matches `wanted` (case-insensitive). */
+export function findTeam(teams, wanted) {
+  const needle = String(wanted ?? '').trim().toLowerCase();
+  return (teams || []).find(t => [t?.id, t?.name, t?.slug, t?.title].some(v => v !== undefined && v !== null && String(v).toLowerCase() === needle)) || null;
+}
+
+/** Same wording as the app's delta badges: "+12 (+25%)", "new", "dropped", "±0". */
+export function delta(value, previous) {
+  if (!previous && value) return { text: 'new', dir: 'up' };
+  if (previous && !value) return { text: 'dropped', dir: 'down' };
+  const diff = value - previous;
+  if (!diff) return { text: '±0', dir: 'flat' };
+  const pct = Math.round(diff / previous * 100);
+  return { text: `${diff > 0 ? '+' : ''}${diff} (${pct > 0 ? '+' : ''}${pct}%)`, dir: diff > 0 ? 'up' : 'down' };
+}
+
+/** Small line chart of `values` as an SVG string; the last point is marked. */
+export function sparkline(values, { width = 96, height = 24, color = '#4f8cff' } = {}) {
+  const max = Math.max(1, ...values);
+  const step = values.length > 1 ? (width - 4) / (values.length - 1) : 0;
+  const points = values.map((v, i) => [2 + i * step, height - 2 - (v / max) * (height - 4)].map(n => Number(n.toFixed(1))));
+  const [lx, ly] = points[points.length - 1] || [2, height - 2];
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${values.join(', ')}">`
+    + `<polyline points="${points.map(p => p.join(',')).join(' ')}" fill="none" stroke="${color}" stroke-width="1.5" stroke-linejoin="round"/>`
+    + `<circle cx="${lx}" cy="${ly}" r="2" fill="${color}"/></svg>`;
+}
+
+function totals(daily, users) {
+  const t = { events: 0, users: new Set(users.map(r => r.user.toLowerCase())).size, dashboard_views: 0, chart_views: 0, edits: 0 };
+  for (const r of daily) {
+    t.events += r.count;
+    if (r.action === 'dashboard:view') t.dashboard_views += r.count;
+    if (r.action === 'chart:view') t.chart_views += r.count;
+    if (/:(create|update)$/.test(r.action)) t.edits += r.count;
+  }
+  return t;
+}
+
+/**
+ * Compute the digest for the 7 days ending on `end` (YYYY-MM-DD, inclusive).
+ * `team` (a teams.json record) limits every section to that team.
+ */
+export function buildDigest({ daily = [], users = [], entities = [], changes = [], teams = [] }, { end, team = null, generated_at = new Date().toISOString() }) {
+  const start = addDays(end, -6);
+  const previousStart = addDays(end, -13), previousEnd = addDays(end, -7);
+  const trendStart = addDays(end, -(TREND_WEEKS * 7 - 1));
+  const scope = team ? teamId(team) : null;
+  const inScope = (id) => scope === null || String(id ?? '') === scope;
+  const labels = new Map(teams.map(t => [teamId(t), t.title || t.name || teamId(t)]));
+  const teamLabel = (id) => labels.get(String(id ?? '')) || String(id ?? '') || 'unknown team';
+
+  // Week 0 is the oldest trend week, TREND_WEEKS - 1 the digest week
+  const weekOf = (date) => TREND_WEEKS - 1 - Math.floor(daysBetween(date, end) / 7);
+  const byWeek = (rows) => {
+    const weeks = Array.from({ length: TREND_WEEKS }, () => []);
+    rows.filter(r => r.date >= trendStart && r.date <= end && inScope(r.team_id)).forEach(r => weeks[weekOf(r.date)].push(r));
+    return weeks;
+  };
+  const dailyWeeks = byWeek(daily), userWeeks = byWeek(users), entityWeeks = byWeek(entities);
+  const current = dailyWeeks[TREND_WEEKS - 1], previous = dailyWeeks[TREND_WEEKS - 2];
+  const currentUsers = userWeeks[TREND_WEEKS - 1], previousUsers = userWeeks[TREND_WEEKS - 2];
+
+  const trend = dailyWeeks.map((rows, i) => totals(rows, userWeeks[i]));
+  const kpis = KPIS.map(([id, label]) => ({ id, label, value: trend[TREND_WEEKS - 1][id], previous: trend[TREND_WEEKS - 2][id], trend: trend.map(t => t[id]) }));
+
+  // Top entries of the digest week, with last week's value and a per-day series
+  const rank = (weeks, match, key, describe) => {
+    const entries = new Map();
+    const entry = (r) => {
+      const k = key(r);
+      if (!entries.has(k)) entries.set(k, { ...describe(r), value: 0, previous: 0, daily: Array(7).fill(0) });
+      return entries.get(k);
+    };
+    weeks[TREND_WEEKS - 1].filter(match).forEach(r => { const e = entry(r); e.value += r.count; e.daily[daysBetween(start, r.date)] += r.count; });
+    weeks[TREND_WEEKS - 2].filter(match).forEach(r => { if (entries.has(key(r))) entries.get(key(r)).previous += r.count; });
+    return [...entries.values()].sort((a, b) => b.value - a.value || a.name.localeCompare(b.name)).slice(0, TOP_N);
+  };
+  const entityKey = (r) => `${r.entity_type}|${r.entity_id}|${r.workspace_id}`;
+  const entity = (r) => ({ name: r.entity_name || r.entity_id || '—', workspace: r.workspace || r.workspace_id || '' });
+
+  // Created / deleted content from the audit trail, once per entity
+  const content = { created: [], deleted: [] };
+  const seen = new Set();
+  for (const r of [...entityWeeks[TREND_WEEKS - 1]].sort((a, b) => a.date.localeCompare(b.date))) {
+    const [type, verb] = (r.action || '').split(':');
+    const list = verb === 'create' ? content.created : verb === 'delete' ? content.deleted : null;
+    if (!list || !CONTENT_TYPES.includes(type) || seen.has(`${verb}|${entityKey(r)}`)) continue;
+    seen.add(`${verb}|${entityKey(r)}`);
+    list.push({ type, ...entity(r), user: r.user || '', date: r.date, team: teamLabel(r.team_id) });
+  }
+
+  const weekChanges = changes.filter(c => c.date >= start && c.date <= end && inScope(c.team_id));
+  const member = (c, side) => ({ subject: c.subject || String(c.user_id ?? ''), role: c[side]?.team_role || '', date: c.date, team: teamLabel(c.team_id) });
+
+  const teamIds = [...new Set([...teams.map(teamId), ...current.map(r => r.team_id)])].filter(Boolean);
+  const byTeam = scope === null && teamIds.length > 1
+    ? teamIds.map(id => {
+      const now = totals(current.filter(r => r.team_id === id), currentUsers.filter(r => r.team_id === id));
+      return { team: teamLabel(id), events: now.events, previous: totals(previous.filter(r => r.team_id === id), previousUsers.filter(r => r.team_id === id)).events, users: now.users };
+    }).sort((a, b) => b.events - a.events || a.team.localeCompare(b.team))
+    : [];
+
+  return {
+    generated_at,
+    team: team ? teamLabel(scope) : null,
+    start, end, previous_start: previousStart, previous_end: previousEnd,
+    kpis,
+    dashboards: rank(entityWeeks, r => r.action === 'dashboard:view', entityKey, entity),
+    charts: rank(entityWeeks, r => r.action === 'chart:view', entityKey, entity),
+    users: rank(userWeeks, () => true, r => r.user.toLowerCase(), r => ({ name: r.user })),
+    members: {
+      added: weekChanges.filter(c => c.type === 'member_added').map(c => member(c, 'after')),
+      removed: weekChanges.filter(c => c.type === 'member_removed').map(c => member(c, 'before')),
+    },
+    content,
+    teams: byTeam,
+  };
+}
+
+// Both renderers share one table model; a cell is text, { delta } or { spark }
+function sections(d) {
+  const multiTeam = d.teams.length > 0;
+  const n = (v) => v.toLocaleString('en-US');
+  const ranked = (title, nameLabel, valueLabel, list, withWorkspace) => ({
+    title,
+    headers: ['#', nameLabel, ...(withWorkspace ? ['Workspace'] : []), valueLabel, 'vs last week', 'Daily'],
+    numeric: [0, withWorkspace ? 3 : 2],
+    rows: list.map((e, i) => [String(i + 1), e.name, ...(withWorkspace ? [e.workspace] : []), n(e.value), { delta: delta(e.value, e.previous) }, { spark: e.daily }]),
+    empty: `No ${valueLabel.toLowerCase()} this week.`,
+  });
+  const people = (title, list) => ({
+    title,
+    headers: ['Member', ...(multiTeam ? ['Team'] : []), 'Team role', 'Date'],
+    rows: list.map(m => [m.subject, ...(multiTeam ? [m.team] : []), m.role || '—', m.date]),
+    empty: 'None.',
+  });
+  const assets = (title, list) => ({
+    title,
+    headers: ['Type', 'Name', 'Workspace', ...(multiTeam ? ['Team'] : []), 'By', 'Date'],
+    rows: list.map(c => [c.type, c.name, c.workspace || '—', ...(multiTeam ? [c.team] : []), c.user || '—', c.date]),
+    empty: 'None.',
+  });
+  return [
+    {
+      title: 'Summary',
+      headers: ['', 'This week', 'Last week', 'Change', `${TREND_WEEKS} weeks`],
+      numeric: [1, 2],
+      rows: d.kpis.map(k => [k.label, n(k.value), n(k.previous), { delta: delta(k.value, k.previous) }, { spark: k.trend }]),
+    },
+    ranked('Top Dashboards', 'Dashboard', 'Views', d.dashboards, true),
+    ranked('Top Charts', 'Chart', 'Views', d.charts, true),
+    ranked('Most Active Users', 'User', 'Events', d.users, false),
+    people(`Members Added (${d.members.added.length})`, d.members.added),
+    people(`Members Removed (${d.members.removed.length})`, d.members.removed),
+    assets(`Content Created (${d.content.created.length})`, d.content.created),
+    assets(`Content Deleted (${d.content.deleted.length})`, d.content.deleted),
+    ...(multiTeam ? [{
+      title: 'Teams',
+      headers: ['Team', 'Events', 'vs last week', 'Active users'],
+      numeric: [1, 3],
+      rows: d.teams.map(t => [t.team, n(t.events), { delta: delta(t.events, t.previous) }, n(t.users)]),
+    }] : []),
+  ];
+}
+
+const heading = (d) => `Weekly Digest · ${d.team || 'All teams'}`;
+const period = (d) => `${d.start} – ${d.end}, compared with ${d.previous_start} – ${d.previous_end}`;
+
+const mdEscape = (s) => String(s).replace(/[\\`*_[\]<>|]/g, '\\$&').replace(/\s*\n\s*/g, ' ');
+const mdCell = (c) => typeof c === 'string' ? mdEscape(c)
+  : c.delta ? c.delta.text
+  : `![${c.spark.join(', ')}](data:image/svg+xml;base64,${Buffer.from(sparkline(c.spark)).toString('base64')})`;
+
+export function renderMarkdown(d) {
+  const out = [`# ${heading(d)}`, '', `${period(d)}. Generated ${d.generated_at.replace('T', ' ').slice(0, 16)} UTC.`];
+  for (const s of sections(d)) {
+    out.push('', `## ${s.title}`, '');
+    if (!s.rows.length) { out.push(s.empty); continue; }
+    out.push(`| ${s.headers.map(mdEscape).join(' | ')} |`);
+    out.push(`|${s.headers.map((_, i) => (s.numeric?.includes(i) ? ' ---: ' : ' --- ')).join('|')}|`);
+    s.rows.forEach(r => out.push(`| ${r.map(mdCell).join(' | ')} |`));
+  }
+  return `${out.join('\n')}\n`;
+}
+
+const htmlEscape = (s) => String(s).replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]));
+const htmlCell = (c) => typeof c === 'string' ? htmlEscape(c)
+  : c.delta ? `<span class="delta ${c.delta.dir}">${htmlEscape(c.delta.text)}</span>`
+  : sparkline(c.spark);
+
+const STYLE = `
+body { font-family: system-ui, -apple-system, Segoe UI, Roboto, sans-serif; color: #1f2530; background: #f6f7f9; margin: 0; padding: 2rem; }
+main { max-width: 960px; margin: 0 auto; background: #fff; padding: 1.5rem 2rem; border-radius: 12px; box-shadow: 0 2px 12px rgba(0,0,0,.06); }
+h1 { margin: 0 0 .25rem; font-size: 1.5rem; }
+h2 { margin: 2rem 0 .5rem; font-size: 1.1rem; }
+.period { color: #5b6675; margin: 0; font-size: .9rem; }
+table { border-collapse: collapse; width: 100%; font-size: .85rem; }
+th, td { text-align: left; padding: .35rem .5rem; border-bottom: 1px solid #e6e9ef; vertical-align: middle; }
+th { color: #5b6675; font-weight: 600; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.delta { white-space: nowrap; font-variant-numeric: tabular-nums; color: #5b6675; }
+.delta.up { color: #1a7f37; }
+.delta.down { color: #cf222e; }
+.empty { color: #5b6675; font-size: .85rem; }
+`;
+
+export function renderHtml(d) {
+  const body = sections(d).map(s => {
+    if (!s.rows.length) return `<h2>${htmlEscape(s.title)}</h2>\n<p class="empty">${htmlEscape(s.empty)}</p>`;
+    const cls = (i) => (s.numeric?.includes(i) ? ' class="num"' : '');
+    return `<h2>${htmlEscape(s.title)}</h2>\n<table>\n<thead><tr>${s.headers.map((h, i) => `<th${cls(i)}>${htmlEscape(h)}</th>`).join('')}</tr></thead>\n<tbody>\n`
+      + s.rows.map(r => `<tr>${r.map((c, i) => `<td${cls(i)}>${htmlCell(c)}</td>`).join('')}</tr>`).join('\n')
+      + '\n</tbody>\n</table>';
+  }).join('\n');
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${htmlEscape(heading(d))} · ${d.start} – ${d.end}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${htmlEscape(heading(d))}</h1>
+<p class="period">${htmlEscape(period(d))}. Generated ${htmlEscape(d.generated_at.replace('T', ' ').slice(0, 16))} UTC.</p>
+${body}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,49 @@
+/**
+ * Digest computation (digest.mjs) over hand-made rollup rows and changes.
+ */
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { buildDigest, delta, findTeam, sparkline } from './digest.mjs';
+
+const teams = [{ id: 1, name: 'acme', title: 'Acme Analytics' }, { id: 2, name: 'beta', title: 'Beta Labs' }];
+const end = '2025-09-02';
+
+describe('weekly digest', () => {
+  test('counts the week against the one before, per table', () => {
+    const row = (date, action, count, team_id = '1') => ({ date, team_id, workspace: 'Prod', workspace_id: 'ws-1', action, count });
+    const daily = [row(end, 'dashboard:view', 4), row('2025-08-27', 'chart:create', 1), row('2025-08-26', 'dashboard:view', 2), row(end, 'chart:view', 3, '2')];
+    const users = [{ ...row(end, 'dashboard:view', 4), user: 'A@example.com' }, { ...row('2025-08-27', 'chart:create', 1), user: 'a@example.com' }];
+    const entities = [
+      { ...row(end, 'dashboard:view', 4), entity_type: 'urn:preset:ws:dashboard', entity_id: '7', entity_name: 'Sales', user: 'a@example.com' },
+      { ...row('2025-08-26', 'dashboard:view', 2), entity_type: 'urn:preset:ws:dashboard', entity_id: '7', entity_name: 'Sales', user: 'b@example.com' },
+      { ...row('2025-08-27', 'chart:create', 1), entity_type: 'urn:preset:ws:chart', entity_id: '9', entity_name: 'Revenue', user: 'a@example.com' },
+    ];
+    const digest = buildDigest({ daily, users, entities, teams }, { end });
+    const kpi = Object.fromEntries(digest.kpis.map(k => [k.id, [k.value, k.previous]]));
+    assert.deepEqual(kpi.events, [8, 2]);
+    assert.deepEqual(kpi.users, [1, 0], 'users are counted case-insensitively');
+    assert.deepEqual(digest.dashboards.map(d => [d.name, d.value, d.previous]), [['Sales', 4, 2]]);
+    assert.deepEqual(digest.content.created.map(c => [c.type, c.name, c.user]), [['chart', 'Revenue', 'a@example.com']]);
+    assert.deepEqual(digest.teams.map(t => [t.team, t.events]), [['Acme Analytics', 5], ['Beta Labs', 3]]);
+
+    const beta = buildDigest({ daily, users, entities, teams }, { end, team: findTeam(teams, 'BETA') });
+    assert.equal(beta.team, 'Beta Labs');
+    assert.deepEqual(beta.teams, []);
+    assert.equal(beta.kpis.find(k => k.id === 'events').value, 3);
+  });
+
+  test('member changes are limited to the week', () => {
+    const changes = [
+      { type: 'member_added', date: end, team_id: 1, subject: 'new@example.com', after: { team_role: 'Admin' } },
+      { type: 'member_removed', date: '2025-08-01', team_id: 1, subject: 'old@example.com', before: { team_role: 'User' } },
+    ];
+    const digest = buildDigest({ changes, teams }, { end });
+    assert.deepEqual(digest.members.added.map(m => [m.subject, m.role, m.team]), [['new@example.com', 'Admin', 'Acme Analytics']]);
+    assert.deepEqual(digest.members.removed, [], 'changes before the week are left out');
+  });
+
+  test('deltas and sparklines', () => {
+    assert.deepEqual([delta(5, 0).text, delta(0, 5).text, delta(6, 4).text, delta(3, 3).text], ['new', 'dropped', '+2 (+50%)', '±0']);
+    assert.match(sparkline([0, 2, 1]), /^<svg [^>]*aria-label="0, 2, 1"/);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Preset API client: authentication (JWT or session cookie), retries with
+ * exponential backoff + jitter for 429/5xx/network errors, Retry-After,
+ * re-authentication on 401 or JWT expiry, a shared request rate limit and a
+ * record of every failed endpoint for the run report.
+ *
+ * Tunables (options; `api:` in the fetch config, see lib/config.mjs):
+ *   retries      attempts after the first one (default 4)
+ *   backoffMs    base backoff delay (default 500)
+ *   timeoutMs    per-request timeout (default 60000)
+ *   rps          max requests per second across workers, 0 for no limit (default 8)
+ */
+
+const RETRYABLE = new Set([408, 425, 429, 500, 502, 503, 504]);
+const MAX_BACKOFF_MS = 30000;
+const MAX_RETRY_AFTER_MS = 120000;
+const EXPIRY_MARGIN_MS = 60000;
+
+export const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Retry-After as milliseconds (delta-seconds or HTTP date), or null. */
+export function retryAfterMs(res) {
+  const value = res?.headers?.get('retry-after');
+  if (!value) return null;
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  return isNaN(ms) ? null : Math.min(Math.max(0, ms), MAX_RETRY_AFTER_MS);
+}
+
+/** Expiry (epoch ms) from a JWT's `exp` claim, or null when not a decodable JWT. */
+export function jwtExpiry(jwt) {
+  try {
+    const payload = JSON.parse(Buffer.from(String(jwt).split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export function extractJWT(json, headers) {
+  if (!json) return null;
+  const candidates = [
+    json.jwt,
+    json.access_token,
+    json.token,
+    json.id_token,
+    json?.payload?.access_token,
+    json?.payload?.token,
+    json?.data?.jwt,
+    json?.data?.access_token,
+    json?.result?.jwt,
+    json?.result?.token
+  ].filter(Boolean);
+  if (candidates.length) return candidates[0];
+  // Header fallback
+  if (headers) {
+    const auth = headers.get('Authorization') || headers.get('authorization');
+    if (auth && /bearer /i.test(auth)) return auth.split(/\s+/).pop();
+    const xToken = headers.get('x-access-token') || headers.get('X-Access-Token');
+    if (xToken) return xToken;
+  }
+  return null;
+}
+
+const cookieFrom = (res) => {
+  const setCookie = res.headers.get('set-cookie');
+  return setCookie ? setCookie.split(/,(?=[^;]+;)/).map(s => s.split(';')[0]).join('; ') : null;
+};
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight. Results keep the
+ * input order.
+ */
+export async function mapLimit(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+export function createPresetClient({ base, token, secret, bearer, retries = 4, backoffMs = 500, timeoutMs = 60000, rps = 8 }) {
+  const root = base.replace(/\/$/, '');
+  const minInterval = rps > 0 ? 1000 / rps : 0;
+
+  const stats = { requests: 0, retries: 0, reauths: 0, not_found: 0, failures: [] };
+  let nextSlot = 0;
+  let cachedJWT = null;
+  let jwtExpiresAt = null;
+  let attemptedAuth = false;
+  let sessionCookie = null; // raw cookie string(s)
+  let debugAuthPayload = null;
+  let authGeneration = 0;
+  let authInFlight = null;
+
+  // Space requests out across all concurrent workers; a 429 pushes everyone back
+  async function throttle() {
+    const now = Date.now();
+    const wait = Math.max(0, nextSlot - now);
+    nextSlot = Math.max(now, nextSlot) + minInterval;
+    if (wait) await sleep(wait);
+  }
+
+  const backoff = (attempt) => Math.min(MAX_BACKOFF_MS, backoffMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+  const label = (url) => url.startsWith(root) ? url.slice(root.length) : url;
+
+  /**
+   * fetch() with throttling, timeout and retries. Resolves with the last
+   * response (which may still be an error status) or undefined when every
+   * attempt failed at the network level.
+   */
+  async function fetchWithRetry(url, init = {}) {
+    let lastError = null;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      await throttle();
+      stats.requests += 1;
+      let res;
+      try {
+        res = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+      } catch (e) {
+        lastError = e;
+        if (attempt === retries) break;
+        const delay = backoff(attempt);
+        console.warn(`client: ${e.message} for ${label(url)}; retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+        stats.retries += 1;
+        await sleep(delay);
+        continue;
+      }
+      if (!RETRYABLE.has(res.status) || attempt === retries) return res;
+      const delay = retryAfterMs(res) ?? backoff(attempt);
+      if (res.status === 429) nextSlot = Math.max(nextSlot, Date.now() + delay);
+      console.warn(`client: ${res.status} for ${label(url)}; retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+      stats.retries += 1;
+      await res.body?.cancel().catch(() => {});
+      await sleep(delay);
+    }
+    console.warn(`client: giving up on ${label(url)}: ${lastError?.message}`);
+    return undefined;
+  }
+
+  function resetAuth() {
+    authGeneration += 1;
+    cachedJWT = null;
+    jwtExpiresAt = null;
+    attemptedAuth = false;
+    sessionCookie = null;
+  }
+
+  async function obtainJWT() {
+    // Short-circuit if caller supplied a ready bearer token (debug / alt usage)
+    if (bearer) return bearer;
+    if (cachedJWT && jwtExpiresAt && Date.now() > jwtExpiresAt - EXPIRY_MARGIN_MS) {
+      console.log('client: JWT about to expire; re-authenticating');
+      stats.reauths += 1;
+      resetAuth();
+    }
+    if (cachedJWT) return cachedJWT;
+    if (attemptedAuth && !cachedJWT && sessionCookie) return null; // we have cookie-based session
+    if (attemptedAuth && !cachedJWT && !sessionCookie) throw new Error('Auth previously failed');
+    attemptedAuth = true;
+    const authUrl = `${root}/v1/auth/`;
+    const accept = (json, res) => {
+      const jwt = extractJWT(json, res.headers);
+      sessionCookie = cookieFrom(res) || sessionCookie;
+      if (jwt) { cachedJWT = jwt; jwtExpiresAt = jwtExpiry(jwt); }
+      return jwt;
+    };
+    // Attempt JSON POST first
+    try {
+      // Primary expected schema appears to want name + secret (based on 400 response mentioning those fields)
+      const post = (body) => fetchWithRetry(authUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      let res = await post({ name: token, secret });
+      if (res?.status === 400) {
+        // Retry legacy field names if validation complained
+        res = await post({ api_token: token, api_secret: secret });
+      }
+      if (res?.ok) {
+        const json = await res.json();
+        debugAuthPayload = json;
+        if (accept(json, res)) return cachedJWT;
+        if (sessionCookie) { console.log('Auth POST produced session cookie (no JWT). Using cookie auth.'); return null; }
+        console.warn('Auth POST succeeded but no jwt field found');
+      } else if (res) {
+        const body = await res.text().catch(() => '');
+        console.warn(`Auth POST failed ${res.status} ${res.statusText} body≈ ${body.slice(0, 120)}`);
+      }
+    } catch (e) {
+      console.warn('Auth POST error', e.message);
+    }
+    // Fallback: Basic GET
+    try {
+      const res = await fetchWithRetry(authUrl, {
+        headers: { 'Authorization': `Basic ${Buffer.from(`${token}:${secret}`).toString('base64')}` }
+      });
+      if (res?.ok) {
+        const json = await res.json();
+        debugAuthPayload = debugAuthPayload || json;
+        if (accept(json, res)) return cachedJWT;
+        if (sessionCookie) { console.log('Auth GET produced session cookie (no JWT). Using cookie auth.'); return null; }
+      } else if (res) {
+        const body = await res.text().catch(() => '');
+        console.warn(`Auth GET failed ${res.status} ${res.statusText} body≈ ${body.slice(0, 120)}`);
+      }
+    } catch (e) {
+      console.warn('Auth GET error', e.message);
+    }
+    if (sessionCookie) return null;
+    throw new Error('Unable to obtain JWT or session cookie from /v1/auth/');
+  }
+
+  async function authHeaders() {
+    // Concurrent workers share a single in-flight authentication
+    if (!authInFlight) authInFlight = obtainJWT().finally(() => { authInFlight = null; });
+    const jwt = await authInFlight;
+    const headers = { 'Content-Type': 'application/json', 'Accept': 'application/json' };
+    if (jwt) headers['Authorization'] = `Bearer ${jwt}`;
+    else if (sessionCookie) headers['Cookie'] = sessionCookie;
+    return headers;
+  }
+
+  const recordFailure = (relative, status, error) => {
+    stats.failures.push({ endpoint: label(relative), status: status ?? null, error: error ?? null, at: new Date().toISOString() });
+  };
+
+  /**
+   * Authenticated request against the API. Resolves with the Response (any
+   * status) or undefined on network / auth failure; non-404 failures end up
+   * in the run report.
+   */
+  async function api(relative, opts = {}) {
+    const url = /^https?:\/\//i.test(relative) ? relative : `${root}${relative}`;
+    let headers;
+    const generation = authGeneration;
+    try { headers = await authHeaders(); } catch (e) {
+      console.error('Auth obtain failed; API call aborted', e.message);
+      recordFailure(relative, null, `auth: ${e.message}`);
+      return undefined;
+    }
+    let res = await fetchWithRetry(url, { ...opts, headers: { ...headers, ...opts.headers } });
+    if (res?.status === 401 && !bearer) {
+      // Expired or revoked session: authenticate again once and repeat the request
+      // Only the first worker to see the stale session resets it; the rest reuse the new one
+      if (generation === authGeneration) {
+        console.warn(`client: 401 for ${label(url)}; re-authenticating`);
+        stats.reauths += 1;
+        resetAuth();
+      }
+      try { headers = await authHeaders(); } catch (e) {
+        recordFailure(relative, 401, `reauth: ${e.message}`);
+        return res;
+      }
+      res = await fetchWithRetry(url, { ...opts, headers: { ...headers, ...opts.headers } });
+    }
+    if (!res) recordFailure(relative, null, 'network error');
+    else if (res.status === 404) stats.not_found += 1;
+    else if (!res.ok) recordFailure(relative, res.status, res.statusText);
+    return res;
+  }
+
+  return {
+    api,
+    stats,
+    get debugAuthPayload() { return debugAuthPayload; },
+  };
+}
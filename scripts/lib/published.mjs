@@ -0,0 +1,45 @@
+/**
+ * Helpers for data that must survive across builds. The nightly job starts
+ * from a fresh checkout, so anything accumulated over time (audit archive,
+ * snapshots) is restored from the local tree first and, failing that, from the
+ * copy already published to GitHub Pages (PRESET_PUBLISHED_DATA_URL).
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+const publishedBase = process.env.PRESET_PUBLISHED_DATA_URL || '';
+
+export async function readLocalJSON(file) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (e) {
+    if (e.code !== 'ENOENT') console.warn(`published: unable to read ${file}: ${e.message}`);
+    return undefined;
+  }
+}
+
+export async function readPublishedJSON(relative) {
+  if (!publishedBase) return undefined;
+  const url = `${publishedBase.replace(/\/$/, '')}/${relative}?ck=${Date.now()}`;
+  try {
+    const res = await fetch(url, { headers: { 'Accept': 'application/json' } });
+    if (res.status === 404) return undefined;
+    if (!res.ok) { console.warn(`published: ${res.status} ${url}`); return undefined; }
+    return await res.json();
+  } catch (e) {
+    console.warn(`published: fetch failed ${url} -> ${e.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Load a previously generated data file, returning both the local copy and the
+ * published copy (either may be undefined). Callers decide how to merge them.
+ */
+export async function loadPrevious(outDir, relative) {
+  const [local, published] = await Promise.all([
+    readLocalJSON(path.join(outDir, relative)),
+    readPublishedJSON(relative)
+  ]);
+  return { local, published };
+}
@@ -0,0 +1,104 @@
+/**
+ * Redaction stage for everything the fetch script writes. public/data is
+ * published verbatim to GitHub Pages, so every file goes through writeJSON(),
+ * which strips credentials (token/secret/cookie fields and JWT-shaped strings)
+ * before touching disk. Member and audit records can additionally have emails
+ * and names masked (PRESET_PII_MODE):
+ *   none    keep as fetched (default)
+ *   hash    user-<hash>@domain, names replaced by their hash (PRESET_PII_SALT)
+ *   domain  *@domain, names removed
+ */
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export const REDACTED = '[REDACTED]';
+
+const SECRET_KEY = /^(access_token|refresh_token|id_token|token|jwt|bearer|secret|api_secret|api_token|api_key|password|csrf|csrf_token|cookie|set-cookie|authorization|session)$/i;
+const JWT = /eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g;
+const BEARER = /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g;
+
+/** Deep copy of `value` with secret-named fields and token-shaped strings replaced. */
+export function redactSecrets(value) {
+  if (typeof value === 'string') return value.replace(JWT, REDACTED).replace(BEARER, `Bearer ${REDACTED}`);
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== 'object') return value;
+  const out = {};
+  for (const [k, v] of Object.entries(value)) {
+    out[k] = SECRET_KEY.test(k) && v !== null && v !== '' && typeof v !== 'boolean' ? REDACTED : redactSecrets(v);
+  }
+  return out;
+}
+
+/**
+ * Known secret patterns in already serialised text, used by the build check.
+ * `extra` adds literal values (e.g. the API secret from the environment).
+ */
+export function findSecrets(text, extra = []) {
+  const found = [];
+  for (const m of text.matchAll(JWT)) found.push({ pattern: 'jwt', match: m[0] });
+  for (const m of text.matchAll(BEARER)) if (!m[0].includes(REDACTED)) found.push({ pattern: 'bearer', match: m[0] });
+  for (const m of text.matchAll(/"([\w-]+)"\s*:\s*"([^"]+)"/g)) {
+    if (SECRET_KEY.test(m[1]) && m[2] !== REDACTED) found.push({ pattern: `field ${m[1]}`, match: m[0] });
+  }
+  for (const v of extra) if (v && v.length >= 8 && text.includes(v)) found.push({ pattern: 'credential', match: `${v.slice(0, 4)}…` });
+  return found;
+}
+
+export const PII_MODES = ['none', 'hash', 'domain'];
+const piiMode = PII_MODES.includes(process.env.PRESET_PII_MODE) ? process.env.PRESET_PII_MODE : 'none';
+const piiSalt = process.env.PRESET_PII_SALT || '';
+if (process.env.PRESET_PII_MODE && !PII_MODES.includes(process.env.PRESET_PII_MODE)) {
+  console.warn(`redact: unknown PRESET_PII_MODE "${process.env.PRESET_PII_MODE}", expected ${PII_MODES.join('|')}; not masking`);
+}
+
+const EMAIL = /^[^\s@]+@([^\s@]+\.[^\s@]+)$/;
+const EMAIL_KEY = /^(email|user_email|owner_email|actor|user|changed_by|created_by)$/i;
+const NAME_KEY = /^(first_name|last_name|full_name|username)$/i;
+const PERSON_PARENT = /^(user|owner|owners|actor|created_by|changed_by|members?)$/i;
+const hashOf = (v) => crypto.createHash('sha256').update(`${piiSalt}${String(v).toLowerCase()}`).digest('hex').slice(0, 12);
+// Already-masked values are left alone so restored archives are not masked twice
+const isMasked = (v) => /^(user-[0-9a-f]{12}|\*)@/.test(v) || /^[0-9a-f]{12}$/.test(v);
+
+export function maskEmail(v) {
+  if (piiMode === 'none' || typeof v !== 'string' || isMasked(v)) return v;
+  const m = EMAIL.exec(v.trim());
+  if (!m) return v;
+  return piiMode === 'hash' ? `user-${hashOf(v.trim())}@${m[1].toLowerCase()}` : `*@${m[1].toLowerCase()}`;
+}
+
+const maskName = (v) => {
+  if (piiMode === 'none' || typeof v !== 'string' || !v || isMasked(v)) return v;
+  return piiMode === 'hash' ? hashOf(v) : null;
+};
+
+/**
+ * Mask emails and personal names in member / audit records. Emails are masked
+ * wherever they appear as a whole value; names only on person-like objects
+ * (top level, `user`, `owners`, …) so chart or dashboard names stay intact.
+ */
+export function maskPII(value, personal = true) {
+  if (piiMode === 'none') return value;
+  if (typeof value === 'string') return maskEmail(value);
+  if (Array.isArray(value)) return value.map(v => maskPII(v, personal));
+  if (!value || typeof value !== 'object') return value;
+  const out = {};
+  for (const [k, v] of Object.entries(value)) {
+    if (typeof v === 'string' && EMAIL_KEY.test(k)) out[k] = maskEmail(v);
+    else if (typeof v === 'string' && personal && NAME_KEY.test(k)) out[k] = maskName(v);
+    else out[k] = maskPII(v, PERSON_PARENT.test(k));
+  }
+  return out;
+}
+
+/** Write a JSON data file after secret redaction. */
+export async function writeJSON(file, data, { compact = false } = {}) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(redactSecrets(data), null, compact ? undefined : 2));
+}
+
+// Raw API dumps are useful when debugging endpoints but must never be published; `dir` is debug.dir from the config
+export async function writeDebugDump(name, data, dir) {
+  await writeJSON(path.join(dir, name), data);
+  console.log(`debug: wrote ${path.relative(process.cwd(), path.join(dir, name))}`);
+}
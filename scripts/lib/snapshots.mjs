@@ -0,0 +1,116 @@
+/**
+ * Dated snapshots of teams + memberships and the change timeline computed by
+ * diffing each snapshot against the previous one.
+ *
+ * Layout under public/data:
+ *   snapshots/index.json       { snapshots: [{ date, file, generated_at, teams, team_members }] }
+ *   snapshots/YYYY-MM-DD.json  { date, generated_at, teams, team_members }
+ *   changes.json               [{ id, date, type, team_id, subject, field, before, after, ... }]
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { loadPrevious, readLocalJSON, readPublishedJSON } from './published.mjs';
+import { writeJSON } from './redact.mjs';
+
+export const CHANGE_TYPES = ['member_added', 'member_removed', 'team_role', 'user_type', 'creator_on_workspaces', 'team_setting'];
+
+// Team fields worth tracking; feature_flags are compared flag by flag.
+const TEAM_SETTING_PATTERN = /(_limit$|^billing_|^plan_code$|^tier$|^subscription_status$|^trial_expiry$|^downgraded_at$|^is_hipaa_restricted$|^workspace_limit$)/;
+
+const teamKey = (t) => String(t?.id ?? t?.name ?? t?.slug ?? '');
+const memberKey = (m) => `${m?._team_id ?? ''}|${m?.user_id ?? m?.user?.id ?? m?.email ?? m?.user?.email ?? ''}`;
+const memberLabel = (m) => m?.email || m?.user?.email || [m?.first_name, m?.last_name].filter(Boolean).join(' ') || String(m?.user_id ?? '');
+const roleOf = (m) => m?.team_role_name || m?.team_role?.name || null;
+const sortedList = (v) => Array.isArray(v) ? [...v].map(String).sort() : [];
+const same = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Compute change entries between two snapshots ({ teams, team_members }). */
+export function diffSnapshots(prev, next, { date, generated_at }) {
+  const changes = [];
+  const push = (c) => changes.push({ id: `${date}:${changes.length}`, date, generated_at, ...c });
+
+  const prevTeams = new Map((prev?.teams || []).map(t => [teamKey(t), t]));
+  for (const t of next.teams || []) {
+    const before = prevTeams.get(teamKey(t));
+    if (!before) continue; // first sighting of a team is not a settings change
+    const team = t.title || t.name || teamKey(t);
+    const keys = new Set([...Object.keys(before), ...Object.keys(t)].filter(k => TEAM_SETTING_PATTERN.test(k)));
+    for (const k of keys) {
+      if (!same(before[k], t[k])) push({ type: 'team_setting', team_id: t.id, team, subject: team, field: k, before: before[k] ?? null, after: t[k] ?? null });
+    }
+    const flags = new Set([...Object.keys(before.feature_flags || {}), ...Object.keys(t.feature_flags || {})]);
+    for (const f of flags) {
+      const a = before.feature_flags?.[f], b = t.feature_flags?.[f];
+      if (!same(a, b)) push({ type: 'team_setting', team_id: t.id, team, subject: team, field: `feature_flags.${f}`, before: a ?? null, after: b ?? null });
+    }
+  }
+
+  const prevMembers = new Map((prev?.team_members || []).map(m => [memberKey(m), m]));
+  const nextMembers = new Map((next.team_members || []).map(m => [memberKey(m), m]));
+  for (const [key, m] of nextMembers) {
+    const base = { team_id: m._team_id, subject: memberLabel(m), user_id: m.user_id ?? m.user?.id ?? null };
+    const before = prevMembers.get(key);
+    if (!before) {
+      push({ type: 'member_added', ...base, after: { team_role: roleOf(m), user_type: m.user_type ?? null, creator_on_workspaces: sortedList(m.creator_on_workspaces) } });
+      continue;
+    }
+    if (roleOf(before) !== roleOf(m)) push({ type: 'team_role', ...base, field: 'team_role', before: roleOf(before), after: roleOf(m) });
+    if ((before.user_type ?? null) !== (m.user_type ?? null)) push({ type: 'user_type', ...base, field: 'user_type', before: before.user_type ?? null, after: m.user_type ?? null });
+    const wsBefore = sortedList(before.creator_on_workspaces), wsAfter = sortedList(m.creator_on_workspaces);
+    if (!same(wsBefore, wsAfter)) push({ type: 'creator_on_workspaces', ...base, field: 'creator_on_workspaces', before: wsBefore, after: wsAfter });
+  }
+  for (const [key, m] of prevMembers) {
+    if (nextMembers.has(key)) continue;
+    push({ type: 'member_removed', team_id: m._team_id, subject: memberLabel(m), user_id: m.user_id ?? m.user?.id ?? null, before: { team_role: roleOf(m), user_type: m.user_type ?? null } });
+  }
+  return changes;
+}
+
+/** Restore a snapshot file from the local tree or the published site. */
+async function restoreSnapshot(outDir, file) {
+  const local = await readLocalJSON(path.join(outDir, file));
+  if (local) return local;
+  const published = await readPublishedJSON(file);
+  if (published) await writeJSON(path.join(outDir, file), published); // keep it in the next deploy
+  return published;
+}
+
+/**
+ * Write today's snapshot, diff it against the latest earlier snapshot and
+ * append the result to changes.json. Re-running on the same day replaces that
+ * day's snapshot and changes.
+ */
+export async function recordSnapshot(outDir, { teams, team_members, generated_at }) {
+  const date = generated_at.slice(0, 10);
+  const dir = path.join(outDir, 'snapshots');
+  await fs.mkdir(dir, { recursive: true });
+
+  const { local: localIndex, published: publishedIndex } = await loadPrevious(outDir, 'snapshots/index.json');
+  const byDate = new Map();
+  for (const idx of [publishedIndex, localIndex]) for (const s of idx?.snapshots || []) byDate.set(s.date, s);
+
+  const earlier = [...byDate.keys()].filter(d => d < date).sort();
+  const previousDate = earlier[earlier.length - 1];
+  // Restore every indexed snapshot so history stays published after this deploy
+  let previous;
+  for (const d of earlier) {
+    const snap = await restoreSnapshot(outDir, byDate.get(d).file);
+    if (!snap) { byDate.delete(d); continue; }
+    if (d === previousDate) previous = snap;
+  }
+
+  const file = `snapshots/${date}.json`;
+  await writeJSON(path.join(outDir, file), { date, generated_at, teams, team_members });
+  byDate.set(date, { date, file, generated_at, teams: teams.length, team_members: team_members.length });
+  const snapshots = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  await writeJSON(path.join(dir, 'index.json'), { snapshots });
+
+  const { local: localChanges, published: publishedChanges } = await loadPrevious(outDir, 'changes.json');
+  const history = new Map();
+  for (const list of [publishedChanges, localChanges]) for (const c of Array.isArray(list) ? list : []) if (c.date !== date) history.set(c.id, c);
+  const fresh = previous ? diffSnapshots(previous, { teams, team_members }, { date, generated_at }) : [];
+  const changes = [...history.values(), ...fresh].sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id, undefined, { numeric: true }));
+  await writeJSON(path.join(outDir, 'changes.json'), changes);
+  console.log(`snapshots: wrote ${file}; ${previous ? `${fresh.length} changes since ${previous.date}` : 'no previous snapshot to diff'} (${snapshots.length} snapshots)`);
+  return fresh;
+}
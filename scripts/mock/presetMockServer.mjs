@@ -0,0 +1,232 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Preset API, serving the fixtures in ./fixtures so the
+ * fetch pipeline can be exercised without production credentials.
+ *
+ * Covers the variants fetchPresetData.mjs has to cope with:
+ *   auth        jwt     POST { name, secret }            -> { payload: { access_token } }
+ *               legacy  POST { name, secret } is a 400; POST { api_token, api_secret } -> { jwt }
+ *               basic   POST is a 401; GET with Basic credentials -> { data: { access_token } }
+ *               cookie  POST -> 200 {} + Set-Cookie session (no JWT)
+ *               header  POST -> 200 {} + Authorization: Bearer <jwt> response header
+ *   shape       payload | data | result | bare  (envelope of teams / memberships lists)
+ *   pagination  meta (meta.count) | next (next link) | none (short last page)
+ *   faults      { '<path prefix>': [429, 500, ...] } statuses returned, in order, before succeeding
+ *   missing     ['<path prefix>', ...] always 404
+ *   revokeAfter revoke the first token after this many API requests (forces a re-auth)
+ *   legacyAuditFields  serve audit events with older field names (event, user.email, object_type, object_id)
+ *
+ * Workspace-level APIs (roles and their permissions, chart / dashboard / dataset
+ * lists from fixtures/content.json) are served under
+ * /ws/<workspace name>/api/v1/…; point PRESET_WORKSPACE_URL_PATTERN at
+ * `<mock url>/ws/{name}` to use them.
+ *
+ * POST /hooks/alerts stands in for an alert webhook (PRESET_ALERT_WEBHOOK);
+ * received bodies are kept in `webhooks`.
+ *
+ * Usage: node scripts/mock/presetMockServer.mjs [--port 4555] [--auth jwt] [--shape payload] [--pagination meta]
+ */
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const MOCK_TOKEN = 'mock-api-token';
+export const MOCK_SECRET = 'mock-api-secret';
+export const AUTH_MODES = ['jwt', 'legacy', 'basic', 'cookie', 'header'];
+export const SHAPES = ['payload', 'data', 'result', 'bare'];
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export async function loadFixtures(dir = FIXTURES_DIR) {
+  const read = async (name) => JSON.parse(await fs.readFile(path.join(dir, name), 'utf8'));
+  const [teams, memberships, auditLogs, users, roles, workspaces, workspaceMemberships, workspaceRoles, content] = await Promise.all(
+    ['teams.json', 'memberships.json', 'audit_logs.json', 'users.json', 'roles.json', 'workspaces.json', 'workspace_memberships.json', 'workspace_roles.json', 'content.json'].map(read)
+  );
+  return { teams, memberships, auditLogs, users, roles, workspaces, workspaceMemberships, workspaceRoles, content };
+}
+
+const b64url = (obj) => Buffer.from(JSON.stringify(obj)).toString('base64url');
+const makeJWT = (claims) => `${b64url({ typ: 'JWT', alg: 'none' })}.${b64url(claims)}.${crypto.randomBytes(16).toString('base64url')}`;
+
+const envelope = (shape, items) => shape === 'bare' ? items : { [shape]: items };
+
+export async function startMockServer({
+  port = 0,
+  auth = 'jwt',
+  shape = 'payload',
+  pagination = 'meta',
+  faults = {},
+  missing = [],
+  revokeAfter = 0,
+  legacyAuditFields = false,
+  fixtures,
+} = {}) {
+  const data = fixtures || await loadFixtures();
+  const pending = Object.fromEntries(Object.entries(faults).map(([k, v]) => [k, [...v]]));
+  const requests = [];
+  const webhooks = [];
+  const tokens = new Set();
+  let issued = 0;
+  let apiRequests = 0;
+
+  const issue = () => {
+    issued += 1;
+    const token = auth === 'cookie' ? `session-${issued}` : makeJWT({ sub: 'mock', n: issued, exp: Math.floor(Date.now() / 1000) + 3600 });
+    tokens.add(token);
+    return token;
+  };
+
+  const send = (res, status, body, headers = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  };
+
+  const readBody = (req) => new Promise(resolve => {
+    let raw = '';
+    req.on('data', c => { raw += c; });
+    req.on('end', () => { try { resolve(raw ? JSON.parse(raw) : {}); } catch { resolve({}); } });
+  });
+
+  async function handleAuth(req, res) {
+    const body = req.method === 'POST' ? await readBody(req) : {};
+    const named = body.name === MOCK_TOKEN && body.secret === MOCK_SECRET;
+    const legacy = body.api_token === MOCK_TOKEN && body.api_secret === MOCK_SECRET;
+    if (req.method === 'GET') {
+      const expected = `Basic ${Buffer.from(`${MOCK_TOKEN}:${MOCK_SECRET}`).toString('base64')}`;
+      if (auth === 'basic' && req.headers.authorization === expected) return send(res, 200, { data: { access_token: issue() } });
+      return send(res, 401, { message: 'Unauthorized' });
+    }
+    switch (auth) {
+      case 'jwt':
+        return named ? send(res, 200, { payload: { access_token: issue() } }) : send(res, 401, { message: 'Invalid credentials' });
+      case 'legacy':
+        if (legacy) return send(res, 200, { jwt: issue() });
+        return send(res, 400, { errors: [{ message: 'Missing data for required field: api_token, api_secret' }] });
+      case 'cookie':
+        return named ? send(res, 200, {}, { 'Set-Cookie': `session=${issue()}; Path=/; HttpOnly` }) : send(res, 401, {});
+      case 'header':
+        return named ? send(res, 200, {}, { 'Authorization': `Bearer ${issue()}` }) : send(res, 401, {});
+      default:
+        return send(res, 401, { message: 'Use GET with Basic auth' });
+    }
+  }
+
+  const authorized = (req) => {
+    const bearer = /^Bearer (.+)$/.exec(req.headers.authorization || '')?.[1];
+    const cookie = /(?:^|;\s*)session=([^;]+)/.exec(req.headers.cookie || '')?.[1];
+    return tokens.has(bearer) || tokens.has(cookie);
+  };
+
+  function handleAuditLogs(url, res, team) {
+    const all = data.auditLogs[team];
+    if (!all) return send(res, 404, { message: 'Team not found' });
+    const page = Math.max(1, Number(url.searchParams.get('page_number')) || 1);
+    const size = Math.max(1, Number(url.searchParams.get('page_size')) || 100);
+    let items = all.slice((page - 1) * size, page * size);
+    if (legacyAuditFields) {
+      items = items.map(({ action, user, entity_type, entity_id, ...rest }) => ({ ...rest, event: action, user: { email: user }, object_type: entity_type, object_id: entity_id }));
+    }
+    const body = { payload: items };
+    if (pagination === 'meta') body.meta = { count: all.length };
+    if (pagination === 'next') {
+      const next = new URL(url);
+      next.searchParams.set('page_number', String(page + 1));
+      body.next = page * size < all.length ? next.toString() : null;
+    }
+    return send(res, 200, body);
+  }
+
+  // Superset-style /api/v1/<resource>/?q={page,page_size} with a `result` envelope
+  function handleSuperset(url, res, items) {
+    let q = {};
+    try { q = JSON.parse(url.searchParams.get('q') || '{}'); } catch {}
+    // Superset pages are 0-based
+    const page = Math.max(0, Number(q.page) || 0);
+    const size = Math.max(1, Number(q.page_size) || 100);
+    return send(res, 200, { count: items.length, result: items.slice(page * size, (page + 1) * size) });
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const p = url.pathname;
+    requests.push({ method: req.method, path: p, search: url.search });
+
+    const fault = Object.keys(pending).find(prefix => p.startsWith(prefix) && pending[prefix].length);
+    if (fault) {
+      const status = pending[fault].shift();
+      return send(res, status, { message: `Injected ${status}` }, status === 429 ? { 'Retry-After': '0' } : {});
+    }
+    if (missing.some(prefix => p.startsWith(prefix))) return send(res, 404, { message: 'Not found' });
+    if (p === '/v1/auth/') return handleAuth(req, res);
+    if (p === '/hooks/alerts' && req.method === 'POST') {
+      webhooks.push(await readBody(req));
+      return send(res, 204);
+    }
+
+    apiRequests += 1;
+    if (revokeAfter && apiRequests > revokeAfter && issued < 2) tokens.clear();
+    if (!authorized(req)) return send(res, 401, { message: 'Token expired or invalid' });
+
+    if (p === '/v1/teams/') return send(res, 200, envelope(shape, data.teams));
+    let m = /^\/v1\/teams\/([^/]+)\/(memberships|members|users)\/?$/.exec(p);
+    if (m) {
+      // Like production, memberships are addressed by team name rather than numeric id
+      const list = data.memberships[decodeURIComponent(m[1])];
+      return list ? send(res, 200, envelope(shape, list)) : send(res, 404, { message: 'Team not found' });
+    }
+    m = /^\/v1\/teams\/([^/]+)\/workspaces\/?$/.exec(p);
+    if (m) {
+      const list = data.workspaces[decodeURIComponent(m[1])];
+      return list ? send(res, 200, envelope(shape, list)) : send(res, 404, { message: 'Team not found' });
+    }
+    m = /^\/v1\/teams\/([^/]+)\/workspaces\/([^/]+)\/memberships\/?$/.exec(p);
+    if (m) {
+      const ws = (data.workspaces[decodeURIComponent(m[1])] || []).find(w => String(w.id) === decodeURIComponent(m[2]));
+      return ws ? send(res, 200, envelope(shape, data.workspaceMemberships[ws.name] || [])) : send(res, 404, { message: 'Workspace not found' });
+    }
+    m = /^\/ws\/([^/]+)\/api\/v1\/security\/roles\/(?:(\d+)\/permissions\/)?$/.exec(p);
+    if (m) {
+      if (m[2] === undefined) return handleSuperset(url, res, data.workspaceRoles.map(({ id, name }) => ({ id, name })));
+      const role = data.workspaceRoles.find(r => String(r.id) === m[2]);
+      return role ? send(res, 200, { result: role.permissions.map((pv, i) => ({ id: i + 1, ...pv })) }) : send(res, 404, { message: 'Role not found' });
+    }
+    m = /^\/ws\/([^/]+)\/api\/v1\/(chart|dashboard|dataset)\/$/.exec(p);
+    if (m) {
+      const content = data.content[decodeURIComponent(m[1])];
+      return content ? handleSuperset(url, res, content[m[2]] || []) : send(res, 404, { message: 'Workspace not found' });
+    }
+    m = /^\/v2\/audit\/teams\/([^/]+)\/logs$/.exec(p);
+    if (m) return handleAuditLogs(url, res, decodeURIComponent(m[1]));
+    if (p === '/api/v1/user/') return handleSuperset(url, res, data.users);
+    if (p === '/api/v1/role/') return handleSuperset(url, res, data.roles);
+    return send(res, 404, { message: 'Not found' });
+  });
+
+  await new Promise(resolve => server.listen(port, '127.0.0.1', resolve));
+  const { port: bound } = server.address();
+  return {
+    url: `http://127.0.0.1:${bound}`,
+    requests,
+    webhooks,
+    get tokensIssued() { return issued; },
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+// CLI: run the mock standalone for manual testing against the fetch script
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const arg = (name, fallback) => {
+    const i = process.argv.indexOf(`--${name}`);
+    return i > 0 ? process.argv[i + 1] : fallback;
+  };
+  const server = await startMockServer({
+    port: Number(arg('port', 4555)),
+    auth: arg('auth', 'jwt'),
+    shape: arg('shape', 'payload'),
+    pagination: arg('pagination', 'meta'),
+  });
+  console.log(`Mock Preset API listening on ${server.url}`);
+  console.log(`  PRESET_API_BASE=${server.url} PRESET_API_TOKEN=${MOCK_TOKEN} PRESET_API_SECRET=${MOCK_SECRET} PRESET_WORKSPACE_URL_PATTERN=${server.url}/ws/{name} npm run fetch:data`);
+}
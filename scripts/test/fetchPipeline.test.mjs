@@ -0,0 +1,582 @@
+/**
+ * End-to-end test of scripts/fetchPresetData.mjs against the local mock Preset
+ * API (scripts/mock/presetMockServer.mjs). Each case starts a mock with one
+ * auth / response-shape / fault variant, runs the real script into a temp
+ * directory and checks the JSON files it wrote.
+ */
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { AUTH_MODES, MOCK_SECRET, MOCK_TOKEN, SHAPES, loadFixtures, startMockServer } from '../mock/presetMockServer.mjs';
+import { findSecrets } from '../lib/redact.mjs';
+import { unpackRows } from '../../shared/rollups.mjs';
+
+const SCRIPT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'fetchPresetData.mjs');
+const DIGEST_SCRIPT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'buildDigest.mjs');
+const ALERT_RULES = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..', 'alerts.yml');
+const fixtures = await loadFixtures();
+const expectedMembers = Object.values(fixtures.memberships).reduce((n, l) => n + l.length, 0);
+const expectedEvents = Object.values(fixtures.auditLogs).reduce((n, l) => n + l.length, 0);
+const expectedWorkspaces = Object.values(fixtures.workspaces).flat();
+const expectedAssets = Object.values(fixtures.content).flatMap(c => Object.values(c).flat()).length;
+
+const tempDirs = [];
+after(() => Promise.all(tempDirs.map(d => fs.rm(d, { recursive: true, force: true }))));
+
+async function tempDir() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'preset-e2e-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+/** Run the fetch script against `server`, writing into `outDir`. Resolves with { code, output }. */
+function runFetch(server, outDir, env = {}, args = []) {
+  // Start from a clean PRESET_* environment so local settings cannot leak in
+  const base = Object.fromEntries(Object.entries(process.env).filter(([k]) => !k.startsWith('PRESET_')));
+  return new Promise(resolve => {
+    execFile(process.execPath, [SCRIPT, ...args], {
+      cwd: outDir,
+      timeout: 60000,
+      env: {
+        ...base,
+        PRESET_API_BASE: server.url,
+        PRESET_API_TOKEN: MOCK_TOKEN,
+        PRESET_API_SECRET: MOCK_SECRET,
+        PRESET_OUTPUT_DIR: path.join(outDir, 'data'),
+        PRESET_DEBUG_DIR: path.join(outDir, '.debug'),
+        PRESET_WORKSPACE_URL_PATTERN: `${server.url}/ws/{name}`,
+        PRESET_API_BACKOFF_MS: '1',
+        PRESET_API_RPS: '0',
+        ...env,
+      },
+    }, (err, stdout, stderr) => resolve({ code: err ? (err.code ?? 1) : 0, output: `${stdout}${stderr}` }));
+  });
+}
+
+/** Run the digest script over `dir`/data, writing into `dir`/digest. */
+function runDigest(dir, env = {}) {
+  const base = Object.fromEntries(Object.entries(process.env).filter(([k]) => !k.startsWith('PRESET_')));
+  return new Promise(resolve => {
+    execFile(process.execPath, [DIGEST_SCRIPT, path.join(dir, 'data'), path.join(dir, 'digest')], { cwd: dir, timeout: 30000, env: { ...base, ...env } },
+      (err, stdout, stderr) => resolve({ code: err ? (err.code ?? 1) : 0, output: `${stdout}${stderr}` }));
+  });
+}
+
+const readJSON = async (dir, relative) => JSON.parse(await fs.readFile(path.join(dir, 'data', relative), 'utf8'));
+
+/** Start a mock, run the script once and return everything a test needs. */
+async function scenario(mockOptions = {}, env = {}) {
+  const server = await startMockServer(mockOptions);
+  const dir = await tempDir();
+  try {
+    const result = await runFetch(server, dir, env);
+    return { ...result, dir, server };
+  } finally {
+    await server.close();
+  }
+}
+
+async function assertFullDataset(dir, output) {
+  const teams = await readJSON(dir, 'teams.json');
+  assert.deepEqual(teams.map(t => t.id), fixtures.teams.map(t => t.id), output);
+  const members = await readJSON(dir, 'team_members.json');
+  assert.equal(members.length, expectedMembers);
+  assert.ok(members.every(m => m.email && m.user_id && m._team_id), 'members are flattened with email, user_id and _team_id');
+  const manifest = await readJSON(dir, 'audit/manifest.json');
+  assert.equal(manifest.total, expectedEvents);
+  const workspaces = await readJSON(dir, 'workspaces.json');
+  assert.deepEqual(workspaces.map(w => w.name), expectedWorkspaces.map(w => w.name));
+  const roles = await readJSON(dir, 'workspace_roles.json');
+  assert.equal(roles.length, fixtures.workspaceRoles.length * expectedWorkspaces.length);
+  const content = await readJSON(dir, 'content.json');
+  assert.equal(content.length, expectedAssets);
+  const report = await readJSON(dir, 'run_report.json');
+  assert.equal(report.ok, true);
+  assert.deepEqual(report.missing, []);
+  const validation = await readJSON(dir, 'validation_report.json');
+  assert.equal(validation.ok, true, JSON.stringify(validation.files));
+  return { teams, members, manifest, report };
+}
+
+describe('auth variants', () => {
+  for (const auth of AUTH_MODES) {
+    test(`${auth} auth produces the full dataset`, async () => {
+      const { code, output, dir } = await scenario({ auth });
+      assert.equal(code, 0, output);
+      await assertFullDataset(dir, output);
+    });
+  }
+
+  test('a revoked session is re-authenticated', async () => {
+    const { code, output, dir, server } = await scenario({ revokeAfter: 2 });
+    assert.equal(code, 0, output);
+    assert.equal(server.tokensIssued, 2);
+    const { report } = await assertFullDataset(dir, output);
+    assert.ok(report.reauths >= 1);
+  });
+
+  test('bad credentials fail the run without writing data', async () => {
+    const server = await startMockServer();
+    const dir = await tempDir();
+    const { code, output } = await runFetch(server, dir, { PRESET_API_SECRET: 'wrong' });
+    await server.close();
+    assert.notEqual(code, 0, output);
+    const report = await readJSON(dir, 'run_report.json');
+    assert.equal(report.ok, false);
+    assert.ok(report.missing.includes('teams'));
+    await assert.rejects(fs.access(path.join(dir, 'data', 'teams.json')));
+  });
+});
+
+describe('response shapes', () => {
+  for (const shape of SHAPES) {
+    test(`lists wrapped as ${shape}`, async () => {
+      const { code, output, dir } = await scenario({ shape });
+      assert.equal(code, 0, output);
+      await assertFullDataset(dir, output);
+    });
+  }
+});
+
+describe('normalization', () => {
+  test('legacy audit field names are mapped onto the shared model', async () => {
+    const { code, output, dir } = await scenario({ legacyAuditFields: true });
+    assert.equal(code, 0, output);
+    const { manifest } = await assertFullDataset(dir, output);
+    const events = (await Promise.all(manifest.months.map(m => readJSON(dir, m.file)))).flat();
+    const sample = events.find(e => e.entity_id);
+    assert.equal(typeof sample.user, 'string');
+    assert.match(sample.action, /^[a-z]+:[a-z]+$/);
+    assert.match(sample.entity_type, /^urn:preset:ws:/);
+    assert.ok(events.every(e => !('event' in e) && !('object_type' in e)), 'aliases are dropped');
+  });
+
+  test('query payloads are rolled up into datasets, metrics, columns and filters', async () => {
+    const { code, output, dir } = await scenario();
+    assert.equal(code, 0, output);
+    const rows = unpackRows(await readJSON(dir, 'rollups/queries.json'));
+    const total = (dimension, value, ws) => rows.filter(r => r.dimension === dimension && r.value === value && (!ws || r.workspace_id === ws)).reduce((n, r) => n + r.count, 0);
+    const chartEdits = (id) => Object.values(fixtures.auditLogs).flat().filter(e => /^chart:(create|update)$/.test(e.action) && e.entity_id === id).length;
+    assert.equal(total('dataset', 'orders'), chartEdits('101'));
+    assert.equal(total('dataset', 'signups'), chartEdits('102') + chartEdits('103'), 'query_context-only payloads name the dataset from perm');
+    assert.equal(total('metric', 'SUM(amount)'), chartEdits('101'));
+    assert.equal(total('metric', 'churn_rate'), chartEdits('103'));
+    assert.equal(total('filter', 'country IN US'), chartEdits('101'));
+    assert.equal(total('filter', 'plan IN team'), chartEdits('103'));
+    assert.equal(total('time_range', 'Last quarter'), chartEdits('101'));
+    assert.ok(total('column', 'stage', 'ws-prod1') > 0);
+    assert.ok(rows.every(r => r.dimension !== 'filter' || !/TEMPORAL_RANGE/.test(r.value)), 'time ranges are not counted as filters');
+  });
+
+  test('a schema mismatch is reported in validation_report.json without failing the run', async () => {
+    const fixtures = await loadFixtures();
+    fixtures.memberships.a1b2c3d4[0] = { ...fixtures.memberships.a1b2c3d4[0], user: { id: 1 } };
+    const { code, output, dir } = await scenario({ fixtures });
+    assert.equal(code, 0, output);
+    const validation = await readJSON(dir, 'validation_report.json');
+    assert.equal(validation.ok, false);
+    assert.equal(validation.files['team_members.json'].invalid, 1);
+    assert.deepEqual(validation.files['team_members.json'].issues[0], { index: 0, field: 'email', message: 'missing' });
+  });
+});
+
+describe('team selection', () => {
+  test('PRESET_TEAMS and PRESET_EXCLUDE_TEAMS limit every dataset and the archive to the selected teams', async () => {
+    const [acme, beta] = fixtures.teams;
+    const server = await startMockServer();
+    const dir = await tempDir();
+    try {
+      const all = await runFetch(server, dir);
+      assert.equal(all.code, 0, all.output);
+      const daily = unpackRows(await readJSON(dir, 'rollups/daily.json'));
+      assert.deepEqual([...new Set(daily.map(r => r.team_id))].sort(), [String(acme.id), String(beta.id)], 'rollups carry the team');
+      const sum = (rows) => rows.reduce((n, r) => n + r.count, 0);
+      assert.ok(!('user' in daily[0]) && !('entity_id' in daily[0]), 'daily totals leave users and entities to their own tables');
+      assert.equal(sum(daily), expectedEvents);
+      const users = unpackRows(await readJSON(dir, 'rollups/users.json'));
+      const entities = unpackRows(await readJSON(dir, 'rollups/entities.json'));
+      assert.ok(users.length && users.every(r => r.user) && sum(users) <= expectedEvents);
+      assert.ok(entities.length && entities.every(r => r.entity_id !== '' && r.entity_id !== null) && sum(entities) <= expectedEvents);
+
+      // Same output directory: the restored archive loses the excluded team's events
+      const { code, output } = await runFetch(server, dir, { PRESET_EXCLUDE_TEAMS: beta.title.toUpperCase() });
+      assert.equal(code, 0, output);
+      assert.deepEqual((await readJSON(dir, 'teams.json')).map(t => t.id), [acme.id]);
+      assert.ok((await readJSON(dir, 'team_members.json')).every(m => m._team_id === acme.id));
+      assert.ok((await readJSON(dir, 'workspaces.json')).every(w => w._team_id === acme.id));
+      assert.equal((await readJSON(dir, 'audit/manifest.json')).total, fixtures.auditLogs[acme.name].length);
+      assert.deepEqual((await readJSON(dir, 'run_report.json')).skipped_teams, [String(beta.id)]);
+    } finally {
+      await server.close();
+    }
+
+    const { code, output, dir: only } = await scenario({}, { PRESET_TEAMS: `${beta.name}, unknown` });
+    assert.equal(code, 0, output);
+    assert.deepEqual((await readJSON(only, 'teams.json')).map(t => t.id), [beta.id]);
+    assert.equal((await readJSON(only, 'audit/manifest.json')).total, fixtures.auditLogs[beta.name].length);
+  });
+});
+
+describe('config file', () => {
+  test('preset.config.yml drives the run, env vars override it and --dry-run only prints the plan', async () => {
+    const server = await startMockServer();
+    const dir = await tempDir();
+    try {
+      // Picked up from the working directory
+      await fs.writeFile(path.join(dir, 'preset.config.yml'), 'datasets:\n  content: false\n  required: [teams, workspaces]\naudit:\n  page_size: 2\n');
+      const plan = await runFetch(server, dir, { PRESET_API_TOKEN: undefined, PRESET_API_SECRET: undefined }, ['--dry-run']);
+      assert.equal(plan.code, 0, plan.output);
+      assert.match(plan.output, /config: preset\.config\.yml; env overrides: PRESET_API_BASE/);
+      assert.ok(plan.output.includes(`GET ${server.url}/v2/audit/teams/{team_id}/logs?days=30&page_number=1&page_size=2`), plan.output);
+      assert.ok(!plan.output.includes('/api/v1/chart/'), 'datasets.content: false plans no content requests');
+      await assert.rejects(fs.access(path.join(dir, 'data')), 'a dry run writes nothing');
+
+      const { code, output } = await runFetch(server, dir);
+      assert.equal(code, 0, output);
+      assert.deepEqual(await readJSON(dir, 'content.json'), []);
+      assert.equal((await readJSON(dir, 'audit/manifest.json')).total, expectedEvents, 'small audit pages are all followed');
+      assert.deepEqual((await readJSON(dir, 'run_report.json')).required, ['teams', 'workspaces']);
+
+      const overridden = await runFetch(server, dir, { PRESET_FETCH_CONTENT: '1' });
+      assert.equal(overridden.code, 0, overridden.output);
+      assert.equal((await readJSON(dir, 'content.json')).length, expectedAssets);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('an invalid config stops the run before any request, naming the field', async () => {
+    const server = await startMockServer();
+    const dir = await tempDir();
+    try {
+      const bad = path.join(dir, 'bad.json');
+      await fs.writeFile(bad, JSON.stringify({ endpoints: { audit_logs: '/v2/audit/logs' } }));
+      const missing = await runFetch(server, dir, {}, ['--config', bad]);
+      assert.notEqual(missing.code, 0);
+      assert.match(missing.output, /bad\.json: endpoints\.audit_logs must contain \{team_id\}/);
+
+      await fs.writeFile(bad, JSON.stringify({ audit: { page_sise: 10 } }));
+      const typo = await runFetch(server, dir, { PRESET_CONFIG: bad });
+      assert.notEqual(typo.code, 0);
+      assert.match(typo.output, /audit: unknown field\(s\) page_sise; allowed: days, page_size, max_pages/);
+
+      await fs.writeFile(bad, JSON.stringify({ debug: { dir: 'public/data/debug' } }));
+      const published = await runFetch(server, dir, { PRESET_CONFIG: bad, PRESET_OUTPUT_DIR: undefined, PRESET_DEBUG_DIR: undefined });
+      assert.notEqual(published.code, 0);
+      assert.match(published.output, /debug\.dir public\/data\/debug must not be inside output\.dir public\/data/);
+      const moved = await runFetch(server, dir, { PRESET_DEBUG_DIR: path.join(dir, 'data', '.debug') });
+      assert.notEqual(moved.code, 0);
+      assert.match(moved.output, /PRESET_OUTPUT_DIR \/ PRESET_DEBUG_DIR: debug\.dir .* must not be inside output\.dir/);
+
+      const env = await runFetch(server, dir, { PRESET_AUDIT_DAYS: 'thirty' });
+      assert.notEqual(env.code, 0);
+      assert.match(env.output, /PRESET_AUDIT_DAYS \(audit\.days\) must be a number/);
+      assert.equal(server.requests.length, 0, 'nothing was requested');
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('workspace access', () => {
+  test('workspace roles come with permissions and memberships with role and group source', async () => {
+    const { code, output, dir } = await scenario();
+    assert.equal(code, 0, output);
+    await assertFullDataset(dir, output);
+    const roles = await readJSON(dir, 'workspace_roles.json');
+    const admin = roles.find(r => r.workspace_name === 'ws-prod1' && r.name === 'Admin');
+    assert.ok(admin.permissions.includes('can_write on Dashboard'), admin.permissions.join(', '));
+    const memberships = await readJSON(dir, 'workspace_memberships.json');
+    assert.equal(memberships.length, Object.values(fixtures.workspaceMemberships).flat().length);
+    const grace = memberships.find(m => m.workspace_name === 'ws-prod1' && m.email === 'grace@example.com');
+    assert.equal(grace.workspace_role_name, 'Primary Contributor');
+    assert.equal(grace.workspace_role_identifier, 'PresetAlpha');
+    assert.equal(grace.is_role_from_group, true);
+    assert.ok(roles.some(r => r.name === grace.workspace_role_identifier), 'membership roles match workspace role names');
+  });
+
+  test('a workspace without a reachable security API keeps memberships and skips roles', async () => {
+    const { code, output, dir } = await scenario({ missing: ['/ws/ws-beta1/'] });
+    assert.equal(code, 0, output);
+    const roles = await readJSON(dir, 'workspace_roles.json');
+    assert.ok(roles.length > 0 && roles.every(r => r.workspace_name !== 'ws-beta1'));
+    const memberships = await readJSON(dir, 'workspace_memberships.json');
+    assert.ok(memberships.some(m => m.workspace_name === 'ws-beta1'));
+  });
+
+  test('charts, dashboards and datasets are listed per workspace with owners and dates', async () => {
+    const { code, output, dir, server } = await scenario();
+    assert.equal(code, 0, output);
+    const content = await readJSON(dir, 'content.json');
+    const chart = content.find(a => a.kind === 'chart' && a.workspace_name === 'ws-prod1' && a.id === 101);
+    assert.equal(chart.name, 'Revenue by Month');
+    assert.deepEqual(chart.owners, ['Ada Lovelace']);
+    assert.equal(chart.changed_on, '2025-03-04T09:12:00.000000+0000');
+    assert.equal(chart.datasource, 'public.orders');
+    assert.ok(!('changed_by_name' in chart), 'raw display-name strings are dropped');
+    assert.ok(content.some(a => a.kind === 'dataset' && a.name === 'tmp_orders_copy' && a.database === 'Analytics DB'));
+    const pages = server.requests.filter(r => r.path === '/ws/ws-prod1/api/v1/chart/').map(r => JSON.parse(new URLSearchParams(r.search).get('q')).page);
+    assert.deepEqual(pages, [0], 'Superset list pages start at 0');
+  });
+
+  test('PRESET_FETCH_CONTENT=0 skips the content inventory', async () => {
+    const { code, output, dir, server } = await scenario({}, { PRESET_FETCH_CONTENT: '0' });
+    assert.equal(code, 0, output);
+    assert.ok(!server.requests.some(r => /\/api\/v1\/(chart|dashboard|dataset)\//.test(r.path)));
+    assert.deepEqual(await readJSON(dir, 'content.json'), []);
+  });
+
+  test('PRESET_FETCH_WORKSPACES=0 skips workspace requests', async () => {
+    const { code, output, dir, server } = await scenario({}, { PRESET_FETCH_WORKSPACES: '0' });
+    assert.equal(code, 0, output);
+    assert.ok(!server.requests.some(r => r.path.includes('/workspaces')));
+    assert.deepEqual(await readJSON(dir, 'workspaces.json'), []);
+  });
+});
+
+describe('alert rules', () => {
+  test('the default rules fire on new events and the webhook gets each firing once', async () => {
+    const server = await startMockServer();
+    const dir = await tempDir();
+    try {
+      const env = { PRESET_ALERT_RULES: ALERT_RULES, PRESET_ALERT_WEBHOOK: `${server.url}/hooks/alerts` };
+      const { code, output } = await runFetch(server, dir, env);
+      assert.equal(code, 0, output);
+      const { rules, alerts } = await readJSON(dir, 'alerts.json');
+      assert.deepEqual(rules.map(r => r.id), ['chart-delete-burst', 'database-update', 'new-admin', 'non-member-login']);
+      const burst = alerts.find(a => a.rule === 'chart-delete-burst');
+      assert.deepEqual(burst.group, { user: 'alan@example.com' });
+      assert.equal(burst.count, 5);
+      assert.equal(burst.keys.length, 5);
+      const logins = alerts.filter(a => a.rule === 'non-member-login');
+      assert.deepEqual(logins.map(a => a.group.user), ['mallory@example.org'], 'members logging in do not fire');
+      assert.equal(logins[0].count, 2);
+      assert.equal(server.webhooks.length, 1);
+      assert.equal(server.webhooks[0].count, alerts.length);
+      const report = await readJSON(dir, 'run_report.json');
+      assert.deepEqual(report.alerts.webhook, { ok: true, status: 204 });
+
+      // Archived events are not re-evaluated, so nothing new is posted
+      const rerun = await runFetch(server, dir, env);
+      assert.equal(rerun.code, 0, rerun.output);
+      assert.equal((await readJSON(dir, 'alerts.json')).alerts.length, alerts.length, 'history is kept');
+      assert.equal(server.webhooks.length, 1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('change rules fire on membership diffs', async () => {
+    const dir = await tempDir();
+    const rules = path.join(dir, 'rules.yml');
+    await fs.writeFile(rules, 'rules:\n  - id: promoted\n    source: changes\n    match: { type: team_role, after: Admin }\n');
+    const first = await startMockServer();
+    try {
+      assert.equal((await runFetch(first, dir, { PRESET_ALERT_RULES: rules })).code, 0);
+    } finally {
+      await first.close();
+    }
+    // Pretend today's snapshot was taken yesterday, then promote alan
+    const data = path.join(dir, 'data');
+    const index = JSON.parse(await fs.readFile(path.join(data, 'snapshots/index.json'), 'utf8'));
+    const [snap] = index.snapshots;
+    await fs.rename(path.join(data, snap.file), path.join(data, 'snapshots/2000-01-01.json'));
+    await fs.writeFile(path.join(data, 'snapshots/index.json'), JSON.stringify({ snapshots: [{ ...snap, date: '2000-01-01', file: 'snapshots/2000-01-01.json' }] }));
+    const promoted = structuredClone(fixtures);
+    promoted.memberships.a1b2c3d4.find(m => m.user.email === 'alan@example.com').team_role = { id: 1, name: 'Admin' };
+    const second = await startMockServer({ fixtures: promoted });
+    try {
+      const { code, output } = await runFetch(second, dir, { PRESET_ALERT_RULES: rules });
+      assert.equal(code, 0, output);
+    } finally {
+      await second.close();
+    }
+    const { alerts } = await readJSON(dir, 'alerts.json');
+    assert.equal(alerts.length, 1);
+    assert.equal(alerts[0].source, 'changes');
+    assert.equal(alerts[0].samples[0].subject, 'alan@example.com');
+  });
+
+  test('an invalid rules file fails before any request', async () => {
+    const dir = await tempDir();
+    const rules = path.join(dir, 'rules.yml');
+    await fs.writeFile(rules, 'rules:\n  - id: bad\n    match: { action: "chart:delete" }\n    window: soon\n');
+    const { code, output, server } = await scenario({}, { PRESET_ALERT_RULES: rules });
+    assert.notEqual(code, 0);
+    assert.match(output, /rules\.yml: rules\[0\] \(bad\): window: invalid duration "soon"/);
+    assert.equal(server.requests.length, 0);
+  });
+
+  test('a failing webhook is reported without failing the run', async () => {
+    const server = await startMockServer({ faults: { '/hooks/alerts': [500] } });
+    const dir = await tempDir();
+    try {
+      const { code, output } = await runFetch(server, dir, { PRESET_ALERT_RULES: ALERT_RULES, PRESET_ALERT_WEBHOOK: `${server.url}/hooks/alerts` });
+      assert.equal(code, 0, output);
+      assert.match(output, /alerts: webhook responded 500/);
+      const report = await readJSON(dir, 'run_report.json');
+      assert.deepEqual(report.alerts.webhook, { ok: false, status: 500 });
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('audit log pagination', () => {
+  for (const pagination of ['meta', 'next', 'none']) {
+    test(`follows ${pagination} pagination to the last page`, async () => {
+      const { code, output, dir } = await scenario({ pagination }, { PRESET_AUDIT_PAGE_SIZE: '50' });
+      assert.equal(code, 0, output);
+      const { manifest } = await assertFullDataset(dir, output);
+      const shards = await Promise.all(manifest.months.map(m => readJSON(dir, m.file)));
+      const keys = new Set(shards.flat().map(e => e._event_key));
+      assert.equal(keys.size, expectedEvents, 'every event archived exactly once');
+    });
+  }
+
+  test('a second run stops paging at archived events', async () => {
+    const server = await startMockServer();
+    const dir = await tempDir();
+    try {
+      const env = { PRESET_AUDIT_PAGE_SIZE: '50' };
+      assert.equal((await runFetch(server, dir, env)).code, 0);
+      const firstRunPages = server.requests.filter(r => r.path.endsWith('/logs')).length;
+      server.requests.length = 0;
+      const { code, output } = await runFetch(server, dir, env);
+      assert.equal(code, 0, output);
+      const secondRunPages = server.requests.filter(r => r.path.endsWith('/logs')).length;
+      assert.ok(secondRunPages < firstRunPages, `${secondRunPages} pages on re-run vs ${firstRunPages}`);
+      const report = await readJSON(dir, 'run_report.json');
+      assert.equal(report.datasets.audit_logs, expectedEvents);
+      assert.equal(report.datasets.audit_logs_new, 0);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('error responses', () => {
+  test('429 and 500 responses are retried', async () => {
+    const { code, output, dir } = await scenario({
+      faults: {
+        '/v1/auth/': [500],
+        '/v1/teams/': [429],
+        '/v1/teams/a1b2c3d4/memberships': [500, 503],
+        '/v2/audit/teams/e5f6a7b8/logs': [429, 502],
+      },
+    });
+    assert.equal(code, 0, output);
+    const { report } = await assertFullDataset(dir, output);
+    assert.ok(report.retries >= 6, `retries: ${report.retries}`);
+    assert.deepEqual(report.failures, []);
+  });
+
+  test('404 on the primary membership endpoint falls back to the next pattern', async () => {
+    const { code, output, dir, server } = await scenario({ missing: ['/v1/teams/e5f6a7b8/memberships'] });
+    assert.equal(code, 0, output);
+    await assertFullDataset(dir, output);
+    assert.ok(server.requests.some(r => r.path === '/v1/teams/e5f6a7b8/members'));
+  });
+
+  test('a team without audit access is skipped, not fatal', async () => {
+    const { code, output, dir } = await scenario({ missing: ['/v2/audit/teams/e5f6a7b8'] });
+    assert.equal(code, 0, output);
+    const manifest = await readJSON(dir, 'audit/manifest.json');
+    assert.equal(manifest.total, fixtures.auditLogs.a1b2c3d4.length);
+  });
+
+  test('a failed audit fetch fails the run even when archived events are restored', async () => {
+    const dir = await tempDir();
+    const first = await startMockServer();
+    try {
+      const { code, output } = await runFetch(first, dir);
+      assert.equal(code, 0, output);
+    } finally {
+      await first.close();
+    }
+    const before = await fs.readFile(path.join(dir, 'data', 'audit', 'manifest.json'), 'utf8');
+
+    const second = await startMockServer({ faults: { '/v2/audit/': Array(20).fill(500) } });
+    try {
+      const { code, output } = await runFetch(second, dir, { PRESET_API_RETRIES: '0' });
+      assert.notEqual(code, 0, output);
+      const report = await readJSON(dir, 'run_report.json');
+      assert.deepEqual(report.missing, ['audit_logs']);
+      assert.ok(report.datasets.audit_logs > 0, 'the restored archive is still counted');
+      assert.deepEqual(report.failed_teams.filter(f => f.dataset === 'audit_logs').map(f => f.team).sort(), fixtures.teams.map(t => String(t.id)).sort());
+      assert.equal(await fs.readFile(path.join(dir, 'data', 'audit', 'manifest.json'), 'utf8'), before, 'previous data left in place');
+    } finally {
+      await second.close();
+    }
+  });
+
+  test('persistent server errors exit non-zero and are reported', async () => {
+    const { code, output, dir } = await scenario({ faults: { '/v1/teams/': Array(10).fill(500) } }, { PRESET_API_RETRIES: '2' });
+    assert.notEqual(code, 0, output);
+    const report = await readJSON(dir, 'run_report.json');
+    assert.equal(report.ok, false);
+    assert.deepEqual(report.missing, ['teams', 'team_members', 'audit_logs']);
+    assert.ok(report.failures.some(f => f.endpoint === '/v1/teams/' && f.status === 500));
+  });
+});
+
+describe('published output', () => {
+  test('contains no secrets and keeps debug dumps out of the data directory', async () => {
+    const { code, output, dir } = await scenario({}, { PRESET_DEBUG_AUTH: '1', PRESET_DEBUG_TEAMS: '1' });
+    assert.equal(code, 0, output);
+    const files = await fs.readdir(path.join(dir, 'data'), { recursive: true });
+    assert.ok(!files.some(f => path.basename(f).startsWith('_')), files.join(', '));
+    for (const f of files.filter(f => f.endsWith('.json'))) {
+      const text = await fs.readFile(path.join(dir, 'data', f), 'utf8');
+      assert.deepEqual(findSecrets(text, [MOCK_SECRET]), [], f);
+    }
+    const debug = await fs.readFile(path.join(dir, '.debug', '_auth_debug.json'), 'utf8');
+    assert.deepEqual(findSecrets(debug), [], 'debug dumps are redacted too');
+  });
+
+  test('PII hash mode masks member and audit emails', async () => {
+    const { code, output, dir } = await scenario({}, { PRESET_PII_MODE: 'hash', PRESET_PII_SALT: 'test' });
+    assert.equal(code, 0, output);
+    const members = await readJSON(dir, 'team_members.json');
+    assert.ok(members.every(m => /^user-[0-9a-f]{12}@example\.com$/.test(m.email)));
+    const manifest = await readJSON(dir, 'audit/manifest.json');
+    const events = await readJSON(dir, manifest.months[0].file);
+    assert.ok(events.every(e => !/^[a-z]+@example\.com$/.test(e.user)));
+    const content = await readJSON(dir, 'content.json');
+    assert.ok(content.every(a => a.owners.every(o => !/Lovelace|Turing|Dijkstra/.test(o))), 'asset owners are masked');
+  });
+});
+
+describe('weekly digest', () => {
+  test('renders Markdown and HTML from the generated data, optionally for one team', async () => {
+    const [acme, beta] = fixtures.teams;
+    const { code, output, dir } = await scenario();
+    assert.equal(code, 0, output);
+    const end = '2025-09-02';
+    const inWeek = (r) => r.date >= '2025-08-27' && r.date <= end;
+    const week = unpackRows(await readJSON(dir, 'rollups/daily.json')).filter(inWeek);
+    const created = new Set(unpackRows(await readJSON(dir, 'rollups/entities.json')).filter(inWeek).filter(r => /^(chart|dashboard|dataset):create$/.test(r.action)).map(r => `${r.entity_type}|${r.entity_id}|${r.workspace_id}`));
+
+    const all = await runDigest(dir, { PRESET_DIGEST_END: end });
+    assert.equal(all.code, 0, all.output);
+    const md = await fs.readFile(path.join(dir, 'digest', 'digest.md'), 'utf8');
+    const html = await fs.readFile(path.join(dir, 'digest', 'index.html'), 'utf8');
+    assert.match(md, /^# Weekly Digest · All teams\n/);
+    assert.ok(md.includes(`| Events | ${week.reduce((n, r) => n + r.count, 0).toLocaleString('en-US')} |`), md);
+    assert.ok(md.includes(`## Content Created (${created.size})`));
+    assert.ok(md.includes('## Teams') && md.includes(acme.title) && md.includes(beta.title), 'several teams get a per-team table');
+    assert.ok(md.includes('(data:image/svg+xml;base64,'), 'Markdown sparklines are inline images');
+    assert.ok(html.includes('<svg') && !/<(script|link|img)\b/.test(html), 'the HTML page loads nothing');
+
+    const one = await runDigest(dir, { PRESET_DIGEST_END: end, PRESET_DIGEST_TEAM: beta.name });
+    assert.equal(one.code, 0, one.output);
+    const scoped = await fs.readFile(path.join(dir, 'digest', 'digest.md'), 'utf8');
+    assert.match(scoped, new RegExp(`^# Weekly Digest · ${beta.title}\n`));
+    assert.ok(!scoped.includes('## Teams'));
+    assert.notEqual((await runDigest(dir, { PRESET_DIGEST_TEAM: 'no such team' })).code, 0);
+  });
+});
@@ -0,0 +1,141 @@
+export type Id = string | number;
+
+export interface Team {
+  id: Id;
+  name: string;
+  title: string | null;
+  user_count?: number;
+  user_creator_count?: number;
+  user_viewer_count?: number;
+  creator_hard_limit?: number | null;
+  viewer_hard_limit?: number | null;
+  workspace_count?: number;
+  workspace_limit?: number | null;
+  feature_flags?: Record<string, unknown>;
+  [k: string]: any;
+}
+
+export interface TeamMember {
+  _team_id: Id;
+  _team_identifier_used: string | null;
+  user_id: Id;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  username: string | null;
+  team_role_name: string | null;
+  user_type: string | null;
+  creator_on_workspaces: string[];
+  is_role_from_group: boolean;
+  user?: { id?: Id; email?: string; first_name?: string; last_name?: string; username?: string; onboarded?: boolean; [k: string]: any };
+  team_role?: { id?: Id; name?: string; [k: string]: any };
+  [k: string]: any;
+}
+
+export interface Workspace {
+  id: Id;
+  /** Stable short id, also used as `workspace_name` on audit events */
+  name: string;
+  title: string | null;
+  hostname: string | null;
+  _team_id: Id;
+  [k: string]: any;
+}
+
+export interface WorkspaceMembership {
+  _team_id: Id;
+  workspace_id: Id;
+  workspace_name: string;
+  workspace_title: string | null;
+  user_id: Id | null;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  /** Display name, e.g. "Primary Contributor" */
+  workspace_role_name: string | null;
+  /** Underlying workspace role, e.g. "PresetAlpha"; matches WorkspaceRole.name */
+  workspace_role_identifier: string | null;
+  is_role_from_group: boolean;
+  [k: string]: any;
+}
+
+export interface WorkspaceRole {
+  id: Id;
+  name: string;
+  /** "permission on view" labels, sorted */
+  permissions: string[];
+  _team_id: Id;
+  workspace_id: Id;
+  workspace_name: string;
+  [k: string]: any;
+}
+
+export type AssetKind = 'chart' | 'dashboard' | 'dataset';
+
+export interface Asset {
+  kind: AssetKind;
+  id: Id;
+  name: string;
+  _team_id: Id;
+  workspace_id: Id;
+  /** Matches `workspace_name` on audit events */
+  workspace_name: string;
+  workspace_title: string | null;
+  /** Owner display names */
+  owners: string[];
+  created_by: string | null;
+  created_on: string | null;
+  /** "3 months ago" as of the fetch, when the API gives no absolute date */
+  created_on_humanized: string | null;
+  changed_by: string | null;
+  changed_on: string | null;
+  url: string | null;
+  viz_type: string | null;
+  datasource: string | null;
+  published: boolean | null;
+  database: string | null;
+  schema: string | null;
+}
+
+export interface AuditEvent {
+  _event_key?: string;
+  timestamp: string;
+  user: string;
+  action: string;
+  entity_type: string | null;
+  entity_id: string | null;
+  entity_name: string | null;
+  /** Stable workspace id (e.g. 1f951550) */
+  workspace_name: string | null;
+  /** Display title; may change when a workspace is renamed */
+  workspace_title: string | null;
+  details: Record<string, any> | null;
+  _team_id: Id | null;
+  _team_identifier_used?: string | null;
+  [k: string]: any;
+}
+
+export interface SummaryEntry { generated_at: string; count: number; data: unknown[] }
+export type Summary = Record<string, SummaryEntry>;
+
+export type SchemaKind = 'team' | 'member' | 'workspace' | 'workspace_membership' | 'workspace_role' | 'asset' | 'audit_event' | 'summary_entry';
+
+export interface ValidationIssue { index: number | string | null; field: string; message: string }
+export interface ValidationResult { kind: SchemaKind; total: number; invalid: number; issues: ValidationIssue[] }
+
+export declare const SCHEMAS: Record<SchemaKind, Record<string, string>>;
+
+export declare function normalizeTeam(raw: unknown): Team;
+export declare function normalizeMember(raw: unknown, ctx?: { teamId?: Id; identifier?: string }): TeamMember;
+export declare function normalizeWorkspace(raw: unknown, ctx?: { teamId?: Id }): Workspace;
+export declare function normalizeWorkspaceMembership(raw: unknown, ctx?: { teamId?: Id; workspace?: Partial<Workspace> }): WorkspaceMembership;
+export declare function normalizeRole(raw: unknown, ctx?: { teamId?: Id; workspace?: Partial<Workspace> }): WorkspaceRole;
+export declare const ASSET_KINDS: AssetKind[];
+export declare function normalizeAsset(raw: unknown, ctx?: { kind?: AssetKind; teamId?: Id; workspace?: Partial<Workspace> }): Asset;
+export declare function permissionLabel(permission: unknown): string;
+export declare function normalizeAuditEvent(raw: unknown, ctx?: { teamId?: Id; identifier?: string }): AuditEvent;
+export declare function timestampMs(ts: unknown): number;
+export declare function schemaForFile(file: string): { kind: SchemaKind; list: boolean } | null;
+export declare function validateRecord(kind: SchemaKind, record: unknown): { field: string; message: string }[];
+export declare function validateDataset(kind: SchemaKind, data: unknown, opts?: { list?: boolean }): ValidationResult;
+export declare function describeIssue(issue: ValidationIssue): string;
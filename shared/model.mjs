@@ -0,0 +1,264 @@
+/**
+ * Canonical data model shared by the fetch script and the UI: normalizers that
+ * turn raw Preset payloads (which have used several field names over time)
+ * into one shape, and lightweight runtime validators for the published files.
+ * Types live in model.d.mts.
+ */
+
+const str = (v) => (v === undefined || v === null ? null : String(v));
+const firstOf = (...values) => values.find(v => v !== undefined && v !== null && v !== '');
+
+export function normalizeTeam(raw) {
+  const t = raw && typeof raw === 'object' ? raw : {};
+  return {
+    ...t,
+    id: firstOf(t.id, t.team_id, t.name) ?? null,
+    name: str(firstOf(t.name, t.slug, t.id)),
+    title: str(firstOf(t.title, t.name)),
+  };
+}
+
+/** Flatten a membership record: nested `user` / `team_role` are kept, their common fields copied to the top level. */
+export function normalizeMember(raw, { teamId, identifier } = {}) {
+  const m = raw && typeof raw === 'object' ? raw : {};
+  const u = m.user && typeof m.user === 'object' ? m.user : {};
+  return {
+    ...m,
+    _team_id: teamId ?? m._team_id ?? null,
+    _team_identifier_used: identifier ?? m._team_identifier_used ?? null,
+    user_id: firstOf(u.id, m.user_id, m.id) ?? null,
+    email: str(firstOf(u.email, m.email)),
+    first_name: str(firstOf(u.first_name, m.first_name)),
+    last_name: str(firstOf(u.last_name, m.last_name)),
+    username: str(firstOf(u.username, m.username)),
+    team_role_name: str(firstOf(m.team_role?.name, m.team_role_name)),
+    user_type: str(m.user_type),
+    creator_on_workspaces: Array.isArray(m.creator_on_workspaces) ? m.creator_on_workspaces.map(String) : [],
+    is_role_from_group: Boolean(m.is_role_from_group),
+  };
+}
+
+export function normalizeWorkspace(raw, { teamId } = {}) {
+  const w = raw && typeof raw === 'object' ? raw : {};
+  return {
+    ...w,
+    id: firstOf(w.id, w.name) ?? null,
+    name: str(firstOf(w.name, w.id)),
+    title: str(firstOf(w.title, w.name)),
+    hostname: str(w.hostname),
+    _team_id: teamId ?? w._team_id ?? null,
+  };
+}
+
+/** One user's role in one workspace; user fields are flattened like team members. */
+export function normalizeWorkspaceMembership(raw, { teamId, workspace } = {}) {
+  const m = raw && typeof raw === 'object' ? raw : {};
+  const u = m.user && typeof m.user === 'object' ? m.user : {};
+  const role = m.workspace_role && typeof m.workspace_role === 'object' ? m.workspace_role : {};
+  return {
+    ...m,
+    _team_id: teamId ?? m._team_id ?? null,
+    workspace_id: firstOf(workspace?.id, m.workspace_id) ?? null,
+    workspace_name: str(firstOf(workspace?.name, m.workspace_name)),
+    workspace_title: str(firstOf(workspace?.title, m.workspace_title)),
+    user_id: firstOf(u.id, m.user_id) ?? null,
+    email: str(firstOf(u.email, m.email)),
+    first_name: str(firstOf(u.first_name, m.first_name)),
+    last_name: str(firstOf(u.last_name, m.last_name)),
+    workspace_role_name: str(firstOf(role.name, role.role_name, m.workspace_role_name, typeof m.workspace_role === 'string' ? m.workspace_role : undefined)),
+    workspace_role_identifier: str(firstOf(role.role_identifier, m.workspace_role_identifier)),
+    is_role_from_group: Boolean(m.is_role_from_group),
+  };
+}
+
+/** "can_read on Dashboard" from a string or a Superset/FAB permission-view record. */
+export function permissionLabel(p) {
+  if (typeof p === 'string') return p;
+  if (!p || typeof p !== 'object') return '';
+  const perm = firstOf(p.permission_name, p.permission?.name, p.name);
+  const view = firstOf(p.view_menu_name, p.view_menu?.name);
+  return [perm, view].filter(Boolean).join(' on ');
+}
+
+/** A workspace role with its permissions as sorted "permission on view" labels. */
+export function normalizeRole(raw, { teamId, workspace } = {}) {
+  const r = raw && typeof raw === 'object' ? raw : {};
+  const permissions = Array.isArray(r.permissions) ? [...new Set(r.permissions.map(permissionLabel).filter(Boolean))].sort() : [];
+  return {
+    ...r,
+    id: firstOf(r.id, r.name) ?? null,
+    name: str(firstOf(r.name, r.role_identifier, r.id)),
+    permissions,
+    _team_id: teamId ?? r._team_id ?? null,
+    workspace_id: firstOf(workspace?.id, r.workspace_id) ?? null,
+    workspace_name: str(firstOf(workspace?.name, r.workspace_name)),
+  };
+}
+
+export const ASSET_KINDS = ['chart', 'dashboard', 'dataset'];
+
+// Superset list APIs return people as { first_name, last_name, username } objects
+const personName = (p) => (p && typeof p === 'object' ? str(firstOf([p.first_name, p.last_name].filter(Boolean).join(' '), p.username, p.id)) : str(p));
+
+/**
+ * A chart, dashboard or dataset from a workspace's /api/v1/ list endpoint.
+ * Only these fields are kept: the list APIs also return display-name strings
+ * (changed_by_name, …) that PII masking cannot recognise.
+ */
+export function normalizeAsset(raw, { kind, teamId, workspace } = {}) {
+  const a = raw && typeof raw === 'object' ? raw : {};
+  return {
+    kind: kind ?? a.kind ?? null,
+    id: firstOf(a.id, a.uuid) ?? null,
+    name: str(firstOf(a.slice_name, a.dashboard_title, a.table_name, a.name)),
+    _team_id: teamId ?? a._team_id ?? null,
+    workspace_id: firstOf(workspace?.id, a.workspace_id) ?? null,
+    workspace_name: str(firstOf(workspace?.name, a.workspace_name)),
+    workspace_title: str(firstOf(workspace?.title, a.workspace_title)),
+    owners: Array.isArray(a.owners) ? a.owners.map(personName).filter(Boolean) : [],
+    created_by: personName(a.created_by),
+    created_on: str(firstOf(a.created_on_utc, a.created_on)),
+    created_on_humanized: str(a.created_on_delta_humanized),
+    changed_by: personName(a.changed_by),
+    changed_on: str(firstOf(a.changed_on_utc, a.changed_on)),
+    url: str(a.url),
+    viz_type: str(a.viz_type),
+    datasource: str(firstOf(a.datasource_name_text, a.datasource_name)),
+    published: typeof a.published === 'boolean' ? a.published : null,
+    database: str(firstOf(a.database?.database_name, typeof a.database === 'string' ? a.database : undefined)),
+    schema: str(a.schema),
+  };
+}
+
+// Field names older API versions used for the canonical audit fields
+const AUDIT_ALIASES = ['event', 'type', 'user_email', 'actor', 'object_type', 'resource_type', 'object_id', 'resource_id'];
+
+/** Canonical audit event: `user` is always the email string, `action` / `entity_*` never use legacy names. */
+export function normalizeAuditEvent(raw, { teamId, identifier } = {}) {
+  const e = raw && typeof raw === 'object' ? raw : {};
+  const rest = { ...e };
+  for (const k of AUDIT_ALIASES) delete rest[k];
+  const user = typeof e.user === 'string' ? e.user : firstOf(e.user?.email, e.user_email, e.actor);
+  return {
+    ...rest,
+    timestamp: str(e.timestamp),
+    user: str(user),
+    action: str(firstOf(e.action, e.event, e.type)),
+    entity_type: str(firstOf(e.entity_type, e.object_type, e.resource_type)),
+    entity_id: str(firstOf(e.entity_id, e.object_id, e.resource_id)),
+    entity_name: str(e.entity_name),
+    workspace_name: str(firstOf(e.workspace_name, e.workspace_title)),
+    workspace_title: str(firstOf(e.workspace_title, e.workspace_name)),
+    details: e.details && typeof e.details === 'object' ? e.details : null,
+    _team_id: teamId ?? e._team_id ?? null,
+    _team_identifier_used: identifier ?? e._team_identifier_used ?? null,
+  };
+}
+
+/** Epoch ms of an audit timestamp or date; the API's zone-less values are UTC. NaN when unparseable. */
+export function timestampMs(ts) {
+  if (typeof ts !== 'string' || !ts) return NaN;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(ts)) return Date.parse(`${ts}T00:00:00Z`);
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(ts)) return Date.parse(`${ts.replace(' ', 'T')}Z`);
+  return Date.parse(ts);
+}
+
+/**
+ * Field specs per record kind: type is one of string | number | boolean |
+ * array | object | id (string or number) | timestamp (ISO-8601 string).
+ * `?` marks fields that may be null or missing.
+ */
+export const SCHEMAS = {
+  team: { id: 'id', name: 'string', title: 'string?', user_count: 'number?', workspace_count: 'number?', feature_flags: 'object?' },
+  member: {
+    _team_id: 'id', user_id: 'id', email: 'string', first_name: 'string?', last_name: 'string?', username: 'string?',
+    team_role_name: 'string?', user_type: 'string?', creator_on_workspaces: 'array', is_role_from_group: 'boolean',
+  },
+  audit_event: {
+    timestamp: 'timestamp', user: 'string', action: 'string', entity_type: 'string?', entity_id: 'string?', entity_name: 'string?',
+    workspace_name: 'string?', workspace_title: 'string?', details: 'object?', _team_id: 'id?', _event_key: 'string?',
+  },
+  workspace: { id: 'id', name: 'string', title: 'string?', hostname: 'string?', _team_id: 'id' },
+  workspace_membership: {
+    _team_id: 'id', workspace_id: 'id', workspace_name: 'string', user_id: 'id?', email: 'string',
+    workspace_role_name: 'string?', workspace_role_identifier: 'string?', is_role_from_group: 'boolean',
+  },
+  workspace_role: { id: 'id', name: 'string', permissions: 'array', _team_id: 'id', workspace_id: 'id', workspace_name: 'string' },
+  asset: {
+    kind: 'string', id: 'id', name: 'string', _team_id: 'id', workspace_id: 'id', workspace_name: 'string',
+    owners: 'array', created_on: 'timestamp?', changed_on: 'timestamp?',
+  },
+  summary_entry: { generated_at: 'timestamp', count: 'number', data: 'array' },
+};
+
+/** Which schema a published data file follows (and whether it is a list of records). */
+export function schemaForFile(file) {
+  const name = file.replace(/^.*data\//, '').replace(/\?.*$/, '');
+  if (name === 'teams.json') return { kind: 'team', list: true };
+  if (name === 'team_members.json') return { kind: 'member', list: true };
+  if (name === 'workspaces.json') return { kind: 'workspace', list: true };
+  if (name === 'workspace_memberships.json') return { kind: 'workspace_membership', list: true };
+  if (name === 'workspace_roles.json') return { kind: 'workspace_role', list: true };
+  if (name === 'content.json') return { kind: 'asset', list: true };
+  if (/^audit\/(\d{4}-\d{2}|undated)\.json$/.test(name)) return { kind: 'audit_event', list: true };
+  if (name === 'summary.json') return { kind: 'summary_entry', list: false };
+  return null;
+}
+
+const TYPE_CHECKS = {
+  string: (v) => typeof v === 'string',
+  number: (v) => typeof v === 'number' && Number.isFinite(v),
+  boolean: (v) => typeof v === 'boolean',
+  array: (v) => Array.isArray(v),
+  object: (v) => typeof v === 'object' && v !== null && !Array.isArray(v),
+  id: (v) => (typeof v === 'string' && v !== '') || (typeof v === 'number' && Number.isFinite(v)),
+  timestamp: (v) => typeof v === 'string' && !isNaN(Date.parse(v)),
+};
+
+/** Problems with a single record, as [{ field, message }]; empty when valid. */
+export function validateRecord(kind, record) {
+  const schema = SCHEMAS[kind];
+  if (!schema) return [{ field: '', message: `unknown schema ${kind}` }];
+  if (!record || typeof record !== 'object' || Array.isArray(record)) return [{ field: '', message: 'expected an object' }];
+  const issues = [];
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?');
+    const type = optional ? spec.slice(0, -1) : spec;
+    const v = record[field];
+    if (v === undefined || v === null) {
+      if (!optional) issues.push({ field, message: 'missing' });
+    } else if (!TYPE_CHECKS[type](v)) {
+      issues.push({ field, message: `expected ${type}, got ${Array.isArray(v) ? 'array' : typeof v}` });
+    }
+  }
+  return issues;
+}
+
+const MAX_ISSUES = 20;
+
+/**
+ * Validate a whole data file. Lists are checked record by record; the summary
+ * file is an object of summary entries. Reports at most MAX_ISSUES issues.
+ */
+export function validateDataset(kind, data, { list = true } = {}) {
+  const result = { kind, total: 0, invalid: 0, issues: [] };
+  const add = (index, problems) => {
+    if (!problems.length) return;
+    result.invalid += 1;
+    for (const p of problems) if (result.issues.length < MAX_ISSUES) result.issues.push({ index, ...p });
+  };
+  if (list) {
+    if (!Array.isArray(data)) { add(null, [{ field: '', message: 'expected an array of records' }]); return result; }
+    result.total = data.length;
+    data.forEach((r, i) => add(i, validateRecord(kind, r)));
+  } else {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) { add(null, [{ field: '', message: 'expected an object' }]); return result; }
+    const entries = Object.entries(data);
+    result.total = entries.length;
+    for (const [key, r] of entries) add(key, validateRecord(kind, r));
+  }
+  return result;
+}
+
+/** One-line description of an issue, e.g. "[3].email: missing". */
+export const describeIssue = (i) => `${i.index === null ? '' : typeof i.index === 'number' ? `[${i.index}]` : i.index}${i.field ? `${i.index === null ? '' : '.'}${i.field}` : ''}: ${i.message}`;
@@ -0,0 +1,35 @@
+export type QueryDimension = 'dataset' | 'viz_type' | 'metric' | 'column' | 'filter' | 'time_range';
+
+export interface QueryFilter { column: string; op: string; value: string }
+
+export interface QueryInfo {
+  /** Datasource name, or "datasource <id>" when only the id is known */
+  dataset: string;
+  datasource_id: string | null;
+  viz_type: string | null;
+  metrics: string[];
+  /** Group-by, x-axis and filtered columns */
+  columns: string[];
+  /** Non-temporal filters, one entry per value */
+  filters: QueryFilter[];
+  time_range: string | null;
+  time_grain: string | null;
+}
+
+export interface QueryRollupRow {
+  date: string;
+  team_id: string;
+  workspace: string;
+  workspace_id: string;
+  dataset: string;
+  dimension: QueryDimension;
+  value: string;
+  count: number;
+}
+
+export declare const QUERY_DIMENSIONS: QueryDimension[];
+export declare const QUERY_COLUMNS: string[];
+
+export declare function parseQueryPayload(event: unknown): QueryInfo | null;
+export declare function filterLabel(filter: QueryFilter): string;
+export declare function rollupQueries(events: unknown[]): QueryRollupRow[];
@@ -0,0 +1,139 @@
+/**
+ * Query payloads on audit events: chart params (form data) and query_context,
+ * found top-level or under `details`, often as JSON strings. Shared by the
+ * fetch script (query rollup at build time) and the UI.
+ */
+
+// Rollup dimensions, in display order
+export const QUERY_DIMENSIONS = ['dataset', 'viz_type', 'metric', 'column', 'filter', 'time_range'];
+export const QUERY_COLUMNS = ['date', 'team_id', 'workspace', 'workspace_id', 'dataset', 'dimension', 'value', 'count'];
+
+const asObject = (v) => {
+  if (v && typeof v === 'object' && !Array.isArray(v)) return v;
+  if (typeof v !== 'string' || !v.trim().startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(v);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+const list = (v) => (Array.isArray(v) ? v : v === undefined || v === null || v === '' ? [] : [v]);
+const text = (v) => (v === undefined || v === null ? '' : String(v).trim());
+
+/** Label of a metric: saved metric name, adhoc label, or AGG(column). */
+function metricLabel(m) {
+  if (typeof m === 'string') return m;
+  if (!m || typeof m !== 'object') return '';
+  if (m.hasCustomLabel && m.label) return text(m.label);
+  if (m.aggregate && m.column?.column_name) return `${m.aggregate}(${m.column.column_name})`;
+  return text(m.label || m.sqlExpression);
+}
+
+/** Label of a column: physical name, or the label / SQL of an adhoc column. */
+const columnLabel = (c) => (typeof c === 'string' ? c : text(c?.column_name || c?.label || c?.sqlExpression));
+
+// form data datasource "37__table" -> "37"
+const datasourceId = (v) => {
+  if (v && typeof v === 'object') return text(v.id);
+  const m = /^(\d+)__/.exec(text(v));
+  return m ? m[1] : text(v);
+};
+
+// "[Database].[table](id:37)" -> "table"
+const tableFromPerm = (perm) => /\.\[([^\]]+)\]\(id:\d+\)$/.exec(text(perm))?.[1] || '';
+
+const filterValues = (v) => list(v).map(x => (x && typeof x === 'object' ? JSON.stringify(x) : text(x))).filter(Boolean);
+
+/**
+ * Extract what a query touched from an audit event, or null when the event
+ * carries no params / query_context. Lists are de-duplicated.
+ */
+export function parseQueryPayload(event) {
+  const e = event && typeof event === 'object' ? event : {};
+  const d = e.details && typeof e.details === 'object' ? e.details : {};
+  const params = asObject(e.params ?? d.params);
+  const context = asObject(e.query_context ?? d.query_context);
+  if (!params && !context) return null;
+  const form = params || asObject(context?.form_data) || {};
+  const queries = Array.isArray(context?.queries) ? context.queries : [];
+
+  const id = datasourceId(form.datasource) || datasourceId(context?.datasource) || text(d.datasource_id);
+  const name = text(d.datasource_name) || tableFromPerm(d.perm);
+  const dataset = name || (id ? `datasource ${id}` : '');
+
+  const metrics = new Set();
+  for (const m of [...list(form.metrics), ...list(form.metric), ...list(form.percent_metrics), ...queries.flatMap(q => list(q.metrics))]) {
+    const label = metricLabel(m);
+    if (label) metrics.add(label);
+  }
+
+  const columns = new Set();
+  for (const c of [...list(form.groupby), ...list(form.columns), ...list(form.all_columns), ...list(form.x_axis), ...list(form.series), ...list(form.entity),
+    ...queries.flatMap(q => list(q.columns))]) {
+    const label = columnLabel(c);
+    if (label) columns.add(label);
+  }
+
+  const filters = new Map();
+  let timeRange = text(form.time_range);
+  const addFilter = (col, op, val) => {
+    if (!col) return;
+    columns.add(col);
+    if (op === 'TEMPORAL_RANGE') { if (!timeRange && text(val)) timeRange = text(val); return; }
+    const values = filterValues(val);
+    for (const v of values.length ? values : ['']) {
+      const f = { column: col, op: text(op), value: v };
+      filters.set(JSON.stringify(f), f);
+    }
+  };
+  for (const f of list(form.adhoc_filters)) {
+    if (f?.expressionType === 'SQL') addFilter('(custom SQL)', f.clause || 'WHERE', f.sqlExpression);
+    else addFilter(columnLabel(f?.subject), f?.operator, f?.comparator);
+  }
+  for (const q of queries) for (const f of list(q.filters)) addFilter(columnLabel(f?.col), f?.op, f?.val);
+
+  return {
+    dataset,
+    datasource_id: id || null,
+    viz_type: text(form.viz_type || d.chart_type || d.viz_type) || null,
+    metrics: [...metrics],
+    columns: [...columns],
+    filters: [...filters.values()],
+    time_range: timeRange || null,
+    time_grain: text(form.time_grain_sqla || queries[0]?.extras?.time_grain_sqla) || null,
+  };
+}
+
+/** "country IN US" style label for a parsed filter. */
+export const filterLabel = (f) => [f.column, f.op, f.value].filter(Boolean).join(' ');
+
+/**
+ * Count what queries touched per date × team × workspace × dataset × dimension × value.
+ * Each event counts once per distinct value.
+ */
+export function rollupQueries(events) {
+  const rows = new Map();
+  for (const e of events || []) {
+    const q = parseQueryPayload(e);
+    if (!q || typeof e.timestamp !== 'string') continue;
+    const base = { date: e.timestamp.slice(0, 10), team_id: String(e._team_id ?? ''), workspace: e.workspace_title || '', workspace_id: e.workspace_name || '', dataset: q.dataset };
+    const values = {
+      dataset: q.dataset ? [q.dataset] : [],
+      viz_type: q.viz_type ? [q.viz_type] : [],
+      metric: q.metrics,
+      column: q.columns,
+      filter: q.filters.map(filterLabel),
+      time_range: q.time_range ? [q.time_range] : [],
+    };
+    for (const [dimension, vals] of Object.entries(values)) {
+      for (const value of vals) {
+        const key = [base.date, base.team_id, base.workspace_id, base.dataset, dimension, value].join('|');
+        const r = rows.get(key) || { ...base, dimension, value, count: 0 };
+        r.count += 1;
+        rows.set(key, r);
+      }
+    }
+  }
+  return [...rows.values()];
+}
@@ -0,0 +1,42 @@
+export interface DailyRollupRow {
+  date: string;
+  /** `_team_id` of the events, as a string; empty in rollups written before teams were tracked */
+  team_id: string;
+  workspace: string;
+  workspace_id: string;
+  action: string;
+  count: number;
+}
+
+export interface UserRollupRow extends DailyRollupRow {
+  user: string;
+}
+
+export interface EntityRollupRow extends DailyRollupRow {
+  entity_type: string;
+  entity_id: string;
+  entity_name: string;
+  /** Last user seen for the entity and action that day (the creator, for :create) */
+  user: string;
+}
+
+export interface HourlyRollupRow {
+  date: string;
+  hour: number;
+  team_id: string;
+  workspace: string;
+  count: number;
+}
+
+export interface PackedRows { columns: string[]; rows: unknown[][]; generated_at?: string }
+
+export declare const DAILY_COLUMNS: string[];
+export declare const USER_COLUMNS: string[];
+export declare const ENTITY_COLUMNS: string[];
+export declare const HOURLY_COLUMNS: string[];
+
+export declare function eventDate(e: unknown): string;
+export declare function eventMonth(e: unknown): string;
+export declare function rollupEvents(events: unknown[]): { daily: DailyRollupRow[]; users: UserRollupRow[]; entities: EntityRollupRow[]; hourly: HourlyRollupRow[] };
+export declare function packRows(columns: string[], rows: object[]): PackedRows;
+export declare function unpackRows<T = Record<string, unknown>>(packed: PackedRows | null | undefined): T[];
@@ -0,0 +1,69 @@
+/**
+ * Audit-log rollups shared by the fetch script (pre-aggregation at build time)
+ * and the UI (aggregating raw shards when a search query is active).
+ *
+ * Timestamps from the audit API carry no zone and are treated as UTC, so days
+ * and hours are taken straight from the ISO string. Events are expected in the
+ * canonical shape from model.mjs (normalizeAuditEvent).
+ */
+
+// Daily totals stay proportional to days × dimensions; per-user and per-entity counts live in their own tables
+export const DAILY_COLUMNS = ['date', 'team_id', 'workspace', 'workspace_id', 'action', 'count'];
+export const USER_COLUMNS = ['date', 'team_id', 'workspace', 'workspace_id', 'user', 'action', 'count'];
+export const ENTITY_COLUMNS = ['date', 'team_id', 'workspace', 'workspace_id', 'action', 'entity_type', 'entity_id', 'entity_name', 'user', 'count'];
+export const HOURLY_COLUMNS = ['date', 'hour', 'team_id', 'workspace', 'count'];
+
+export const eventDate = (e) => (typeof e?.timestamp === 'string' ? e.timestamp.slice(0, 10) : '');
+export const eventMonth = (e) => (typeof e?.timestamp === 'string' ? e.timestamp.slice(0, 7) : '');
+
+/**
+ * Aggregate events into counts per day: daily (date × team × workspace × action),
+ * users (… × user × action), entities (… × action × entity, for events with an
+ * entity id; `user` is the last one seen, i.e. the creator for :create) and
+ * hourly (date × hour × team × workspace).
+ */
+export function rollupEvents(events) {
+  const daily = new Map();
+  const users = new Map();
+  const entities = new Map();
+  const hourly = new Map();
+  const bump = (map, key, init) => {
+    const row = map.get(key) || { ...init, count: 0 };
+    row.count += 1;
+    map.set(key, row);
+    return row;
+  };
+  for (const e of events || []) {
+    const date = eventDate(e);
+    if (!date) continue;
+    const row = {
+      date,
+      team_id: String(e._team_id ?? ''),
+      workspace: e.workspace_title || '',
+      workspace_id: e.workspace_name || '',
+      action: e.action || '',
+    };
+    const key = [row.date, row.team_id, row.workspace_id, row.action].join('|');
+    bump(daily, key, row);
+    if (e.user) bump(users, `${key}|${e.user}`, { ...row, user: e.user });
+    const entityId = e.entity_id ?? '';
+    if (entityId !== '') {
+      const entity = bump(entities, `${key}|${e.entity_type || ''}|${entityId}`, { ...row, entity_type: e.entity_type || '', entity_id: entityId, entity_name: '', user: '' });
+      if (e.entity_name) entity.entity_name = e.entity_name;
+      if (e.user) entity.user = e.user;
+    }
+
+    const hour = Number(e.timestamp.slice(11, 13)) || 0;
+    bump(hourly, `${date}|${hour}|${row.team_id}|${row.workspace}`, { date, hour, team_id: row.team_id, workspace: row.workspace });
+  }
+  return { daily: [...daily.values()], users: [...users.values()], entities: [...entities.values()], hourly: [...hourly.values()] };
+}
+
+/** Column-oriented encoding keeps the JSON small: { columns, rows: [[...], ...] }. */
+export const packRows = (columns, rows) => ({ columns, rows: rows.map(r => columns.map(c => r[c] ?? null)) });
+
+export function unpackRows(packed) {
+  if (!packed || !Array.isArray(packed.columns) || !Array.isArray(packed.rows)) return [];
+  const { columns } = packed;
+  return packed.rows.map(r => Object.fromEntries(columns.map((c, i) => [c, r[i]])));
+}
@@ -0,0 +1,38 @@
+export interface SessionEntry { id: string; name: string; entity_type: string; workspace: string; workspace_id: string }
+
+export interface Session {
+  user: string;
+  start: string;
+  end: string;
+  start_ms: number;
+  end_ms: number;
+  duration_ms: number;
+  events: number;
+  /** Started by a user:login event */
+  login: boolean;
+  /** Actions in order */
+  actions: string[];
+  workspaces: string[];
+  /** First dashboard viewed */
+  entry_dashboard: SessionEntry | null;
+}
+
+export interface SessionStats {
+  sessions: number;
+  users: number;
+  sessions_per_user: number;
+  median_ms: number;
+  p90_ms: number;
+  events_per_session: number;
+}
+
+export interface FunnelStep { step: string; sessions: number; of_first: number; of_previous: number }
+
+export declare const DEFAULT_SESSION_GAP_MINUTES: number;
+export declare const DEFAULT_FUNNEL: string[];
+export declare const SESSION_ANCHOR: string;
+
+export declare function buildSessions(events: unknown[], options?: { gapMinutes?: number }): Session[];
+export declare function percentile(values: number[], p: number): number;
+export declare function sessionStats(sessions: Session[]): SessionStats;
+export declare function funnel(sessions: Session[], steps: string[]): FunnelStep[];
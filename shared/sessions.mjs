@@ -0,0 +1,96 @@
+/**
+ * Per-user sessions reconstructed from audit events, and ordered funnels over
+ * them. Used by the Sessions tab on the raw events of the selected range.
+ *
+ * A session ends after `gapMinutes` without events; a `user:login` always
+ * starts a new one. Events are expected in the canonical shape from model.mjs.
+ */
+
+import { timestampMs } from './model.mjs';
+
+export const DEFAULT_SESSION_GAP_MINUTES = 30;
+export const DEFAULT_FUNNEL = ['dashboard:view', 'chart:view', 'chart:update'];
+export const SESSION_ANCHOR = 'user:login';
+
+
+/**
+ * Group events into sessions per user, oldest first. Each session keeps its
+ * ordered actions for funnels and the first dashboard viewed as its entry.
+ */
+export function buildSessions(events, { gapMinutes = DEFAULT_SESSION_GAP_MINUTES } = {}) {
+  const gap = Math.max(1, Number(gapMinutes) || DEFAULT_SESSION_GAP_MINUTES) * 60_000;
+  const byUser = new Map();
+  for (const e of events || []) {
+    if (!e?.user || typeof e.timestamp !== 'string') continue;
+    const ms = timestampMs(e.timestamp);
+    if (isNaN(ms)) continue;
+    const list = byUser.get(e.user) || [];
+    list.push({ ms, e });
+    byUser.set(e.user, list);
+  }
+
+  const sessions = [];
+  for (const [user, list] of byUser) {
+    list.sort((a, b) => a.ms - b.ms);
+    let current = null;
+    for (const { ms, e } of list) {
+      if (!current || ms - current.end_ms > gap || e.action === SESSION_ANCHOR) {
+        current = { user, start: e.timestamp, end: e.timestamp, start_ms: ms, end_ms: ms, duration_ms: 0, events: 0, login: e.action === SESSION_ANCHOR, actions: [], workspaces: [], entry_dashboard: null };
+        sessions.push(current);
+      }
+      current.end = e.timestamp;
+      current.end_ms = ms;
+      current.duration_ms = ms - current.start_ms;
+      current.events += 1;
+      if (e.action) current.actions.push(e.action);
+      const ws = e.workspace_title || e.workspace_name;
+      if (ws && !current.workspaces.includes(ws)) current.workspaces.push(ws);
+      if (!current.entry_dashboard && e.action === 'dashboard:view' && e.entity_name) {
+        current.entry_dashboard = { id: e.entity_id ?? '', name: e.entity_name, entity_type: e.entity_type || '', workspace: e.workspace_title || '', workspace_id: e.workspace_name || '' };
+      }
+    }
+  }
+  return sessions.sort((a, b) => a.start_ms - b.start_ms);
+}
+
+/** Nearest-rank percentile (0–100) of a numeric list; 0 for an empty one. */
+export function percentile(values, p) {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p / 100 * sorted.length) - 1))];
+}
+
+/** Session count, users, sessions per user and median / p90 length. */
+export function sessionStats(sessions) {
+  const durations = sessions.map(s => s.duration_ms);
+  const perUser = new Map();
+  sessions.forEach(s => perUser.set(s.user, (perUser.get(s.user) || 0) + 1));
+  return {
+    sessions: sessions.length,
+    users: perUser.size,
+    sessions_per_user: perUser.size ? sessions.length / perUser.size : 0,
+    median_ms: percentile(durations, 50),
+    p90_ms: percentile(durations, 90),
+    events_per_session: sessions.length ? sessions.reduce((n, s) => n + s.events, 0) / sessions.length : 0,
+  };
+}
+
+/**
+ * Ordered funnel: for each step, the sessions whose actions contain all steps
+ * up to it in order (other actions may come in between).
+ */
+export function funnel(sessions, steps) {
+  const reached = steps.map(() => 0);
+  for (const s of sessions) {
+    let i = 0;
+    for (const action of s.actions) {
+      if (i < steps.length && action === steps[i]) reached[i++] += 1;
+    }
+  }
+  return steps.map((step, i) => ({
+    step,
+    sessions: reached[i],
+    of_first: reached[0] ? reached[i] / reached[0] : 0,
+    of_previous: i === 0 ? 1 : reached[i - 1] ? reached[i] / reached[i - 1] : 0,
+  }));
+}
@@ -0,0 +1,32 @@
+/**
+ * Session reconstruction (sessions.mjs) over the mock API's audit fixtures,
+ * normalized as the fetch script archives them, and over hand-made events.
+ */
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { loadFixtures } from '../scripts/mock/presetMockServer.mjs';
+import { normalizeAuditEvent } from './model.mjs';
+import { buildSessions, funnel, sessionStats } from './sessions.mjs';
+
+const at = (min, action) => ({ user: 'a@example.com', action, timestamp: new Date(Date.UTC(2024, 0, 1, 9, min)).toISOString().slice(0, 19) });
+
+describe('sessions', () => {
+  test('archived events rebuild into sessions split by inactivity gap and login', async () => {
+    const fixtures = await loadFixtures();
+    const events = Object.values(fixtures.auditLogs).flat().map(e => normalizeAuditEvent(e));
+    const sessions = buildSessions(events, { gapMinutes: 30 });
+    assert.equal(sessions.reduce((n, s) => n + s.events, 0), events.filter(e => e.user).length, 'every event with a user lands in one session');
+    assert.equal(sessions.filter(s => s.login).length, events.filter(e => e.user && e.action === 'user:login').length, 'each login anchors its own session');
+    assert.ok(sessions.every(s => s.duration_ms >= 0 && s.actions.length === s.events));
+    assert.ok(buildSessions(events, { gapMinutes: 5 }).length >= sessions.length, 'a shorter gap never merges sessions');
+    const steps = funnel(sessions, ['dashboard:view', 'chart:view', 'chart:update']);
+    assert.ok(steps.every((s, i) => i === 0 || s.sessions <= steps[i - 1].sessions), 'funnel steps never grow');
+  });
+
+  test('gaps and logins split sessions; stats and funnels follow', () => {
+    const split = buildSessions([at(0, 'dashboard:view'), at(10, 'chart:view'), at(50, 'chart:view'), at(52, 'user:login'), at(53, 'chart:update')], { gapMinutes: 30 });
+    assert.deepEqual(split.map(s => s.actions), [['dashboard:view', 'chart:view'], ['chart:view'], ['user:login', 'chart:update']]);
+    assert.deepEqual([sessionStats(split).median_ms, sessionStats(split).p90_ms], [60_000, 10 * 60_000]);
+    assert.deepEqual(funnel(split, ['dashboard:view', 'chart:view', 'chart:update']).map(s => s.sessions), [1, 1, 0]);
+  });
+});
@@ -2,31 +2,98 @@ import React, { useState } from 'react';
 import { TeamsPage } from './pages/TeamsPage';
 import { AuditLogsPage } from './pages/AuditLogsPage';
 import { AnalyticsPage } from './pages/AnalyticsPage';
+import { ChangesPage } from './pages/ChangesPage';
+import { LicensePage } from './pages/LicensePage';
+import { UsersPage } from './pages/UsersPage';
+import { RolesPage } from './pages/RolesPage';
+import { AccessPage } from './pages/AccessPage';
+import { AlertsPage } from './pages/AlertsPage';
+import { SessionsPage } from './pages/SessionsPage';
+import { RetentionPage } from './pages/RetentionPage';
+import { ContentPage } from './pages/ContentPage';
+import { EntityDetailPage } from './pages/EntityDetailPage';
+import { UserDetailPage } from './pages/UserDetailPage';
 import { IconRefresh } from './components/Icons';
+import { DataWarnings } from './components/DataWarnings';
+import { DetailTarget } from './utils/audit';
+import { goBack, navigate, useRoute } from './utils/router';
+import { ALL_TEAMS, teamKey, useTeamScope } from './utils/teams';
+
+const TABS = [
+  { id: 'teams', label: '🧩 Teams' },
+  { id: 'users', label: '👤 Users' },
+  { id: 'roles', label: '🔐 Roles' },
+  { id: 'access', label: '🗂️ Access' },
+  { id: 'content', label: '🗃️ Content' },
+  { id: 'audit', label: '📜 Audit Logs' },
+  { id: 'analytics', label: '📊 Analytics' },
+  { id: 'sessions', label: '🧭 Sessions' },
+  { id: 'retention', label: '📈 Retention' },
+  { id: 'changes', label: '🕑 Changes' },
+  { id: 'alerts', label: '🚨 Alerts' },
+  { id: 'licenses', label: '🎟️ Licenses' },
+] as const;
+
+type TabId = typeof TABS[number]['id'];
+
+// Drill-down targets live at #/entity?type=&id=&ws= and #/user?email=
+const detailFromRoute = (path: string, params: Record<string, string>): DetailTarget | null => {
+  if (path === 'entity' && params.type && params.id) return { kind: 'entity', entityType: params.type, entityId: params.id, workspace: params.ws || '' };
+  if (path === 'user' && params.email) return { kind: 'user', user: params.email };
+  return null;
+};
+
+const openDetail = (t: DetailTarget) => t.kind === 'entity'
+  ? navigate('entity', { type: t.entityType, id: t.entityId, ws: t.workspace })
+  : navigate('user', { email: t.user });
 
 export const App: React.FC = () => {
   const [refreshKey, setRefreshKey] = useState(0);
-  const [tab, setTab] = useState<'teams' | 'audit' | 'analytics'>('teams');
+  const route = useRoute();
+  const detail = detailFromRoute(route.path, route.params);
+  const tab: TabId = TABS.find(t => t.id === route.path)?.id || 'teams';
+  const closeDetail = () => goBack('analytics');
+  const { team, setTeam, teams, multi } = useTeamScope(refreshKey);
 
   return (
     <div className="app-shell">
       <header className="app-header">
         <h1>Preset Analytics</h1>
         <nav className="nav-tabs" aria-label="Primary">
-          <button className={tab==='teams' ? 'active' : ''} onClick={()=>setTab('teams')}>🧩 Teams</button>
-          <button className={tab==='audit' ? 'active' : ''} onClick={()=>setTab('audit')}>📜 Audit Logs</button>
-          <button className={tab==='analytics' ? 'active' : ''} onClick={()=>setTab('analytics')}>📊 Analytics</button>
+          {TABS.map(t => (
+            <button key={t.id} className={!detail && tab===t.id ? 'active' : ''} onClick={()=>navigate(t.id)}>{t.label}</button>
+          ))}
         </nav>
         <div className="actions">
+          {multi && (
+            <select value={team} onChange={e => setTeam(e.target.value)} title="Scope every page to one team">
+              <option value={ALL_TEAMS}>All teams</option>
+              {teams.map(t => <option key={teamKey(t)} value={teamKey(t)}>{t.title || t.name}</option>)}
+            </select>
+          )}
+          {/* Written by `npm run digest` next to the data and published with the site */}
+          <a className="secondary" href={`${import.meta.env.BASE_URL}digest/`} target="_blank" rel="noopener" title="Weekly usage summary (Markdown: digest/digest.md)">📰 Weekly Digest</a>
           <button className="secondary" onClick={() => setRefreshKey(k => k + 1)} title="Reload local JSON data">
             <IconRefresh /> Refresh Data
           </button>
         </div>
       </header>
       <main>
-  {tab === 'teams' && <TeamsPage refreshKey={refreshKey} />}
-  {tab === 'audit' && <AuditLogsPage refreshKey={refreshKey} />}
-  {tab === 'analytics' && <AnalyticsPage refreshKey={refreshKey} />}
+  <DataWarnings />
+  {detail?.kind === 'entity' && <EntityDetailPage refreshKey={refreshKey} target={detail} onBack={closeDetail} onSelect={openDetail} />}
+  {detail?.kind === 'user' && <UserDetailPage refreshKey={refreshKey} target={detail} onBack={closeDetail} onSelect={openDetail} />}
+  {!detail && tab === 'teams' && <TeamsPage refreshKey={refreshKey} />}
+  {!detail && tab === 'users' && <UsersPage refreshKey={refreshKey} onSelect={openDetail} />}
+  {!detail && tab === 'roles' && <RolesPage refreshKey={refreshKey} />}
+  {!detail && tab === 'access' && <AccessPage refreshKey={refreshKey} onSelect={openDetail} />}
+  {!detail && tab === 'content' && <ContentPage refreshKey={refreshKey} onSelect={openDetail} />}
+  {!detail && tab === 'audit' && <AuditLogsPage refreshKey={refreshKey} />}
+  {!detail && tab === 'analytics' && <AnalyticsPage refreshKey={refreshKey} onSelect={openDetail} />}
+  {!detail && tab === 'sessions' && <SessionsPage refreshKey={refreshKey} onSelect={openDetail} />}
+  {!detail && tab === 'retention' && <RetentionPage refreshKey={refreshKey} onSelect={openDetail} />}
+  {!detail && tab === 'changes' && <ChangesPage refreshKey={refreshKey} />}
+  {!detail && tab === 'alerts' && <AlertsPage refreshKey={refreshKey} />}
+  {!detail && tab === 'licenses' && <LicensePage refreshKey={refreshKey} />}
       </main>
       <footer className="app-footer">Static snapshot generated from Preset API via GitHub Actions. Secrets never exposed client-side.</footer>
     </div>
@@ -0,0 +1,26 @@
+import React, { useState } from 'react';
+import { describeIssue } from '../../shared/model.mjs';
+import { useDataProblems } from '../utils/dataHealth';
+
+export const DataWarnings: React.FC = () => {
+  const problems = useDataProblems();
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const visible = problems.filter(p => !dismissed.includes(`${p.file}:${p.invalid}`));
+  if (!visible.length) return null;
+  return (
+    <div className="data-warning" role="alert">
+      <div className="data-warning-head">
+        <strong>⚠ Some data files do not match the expected schema</strong>
+        <button className="link" onClick={() => setDismissed(d => [...d, ...visible.map(p => `${p.file}:${p.invalid}`)])}>Dismiss</button>
+      </div>
+      <ul>
+        {visible.map(p => (
+          <li key={p.file}>
+            <code>{p.file}</code>: {p.total ? `${p.invalid.toLocaleString()} of ${p.total.toLocaleString()} records` : 'file'} invalid
+            {p.issues.length > 0 && <span className="dim"> — {p.issues.slice(0, 3).map(describeIssue).join('; ')}{p.issues.length > 3 ? '; …' : ''}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
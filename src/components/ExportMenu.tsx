@@ -0,0 +1,59 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportFormat, downloadAs, exportFilename, snapshotDate } from '../utils/download';
+
+interface ExportMenuProps {
+  /** Base of the filename and the XLSX sheet name, e.g. "Audit Logs" */
+  name: string;
+  /** Rows to export, or a function producing them when the menu is used */
+  rows: unknown[] | (() => unknown[]);
+  /** Active filters, appended to the filename (empty values are skipped) */
+  context?: Record<string, string | number | boolean | null | undefined>;
+  label?: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' },
+  { format: 'yaml', label: 'YAML' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ name, rows, context, label = 'Export' }) => {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const count = typeof rows === 'function' ? null : rows.length;
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent | KeyboardEvent) => {
+      if (e instanceof KeyboardEvent ? e.key === 'Escape' : !ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', close);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', close);
+    };
+  }, [open]);
+
+  const run = async (format: ExportFormat) => {
+    setOpen(false);
+    const data = typeof rows === 'function' ? rows() : rows;
+    const filename = exportFilename(name.toLowerCase(), context, await snapshotDate());
+    downloadAs(format, data, filename, name);
+  };
+
+  return (
+    <div className={`export-menu${open ? ' open' : ''}`} ref={ref}>
+      <button type="button" onClick={() => setOpen(o => !o)} disabled={count === 0} aria-haspopup="menu" aria-expanded={open}
+        title={count === null ? `Export ${name}` : `Export ${count.toLocaleString()} rows`}>{label} ▾</button>
+      {open && (
+        <ul role="menu">
+          {FORMATS.map(f => (
+            <li key={f.format}><button type="button" role="menuitem" onClick={() => run(f.format)}>{f.label}</button></li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
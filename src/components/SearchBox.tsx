@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { FIELD_ALIASES, fieldValues, parseQuery } from '../utils/search';
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (v: string) => void;
+  // Loaded records; used for known field names and value suggestions
+  records?: any[];
+  placeholder?: string;
+}
+
+const MAX_SCAN = 2000;
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (v: string) => (/\s/.test(v) ? `"${v}"` : v);
+
+export const SearchBox: React.FC<SearchBoxProps> = ({ value, onChange, records = [], placeholder = 'Search' }) => {
+  const [focused, setFocused] = useState(false);
+  const [active, setActive] = useState(0);
+
+  const fields = useMemo(() => {
+    const keys = new Set<string>(Object.keys(FIELD_ALIASES));
+    records.slice(0, 200).forEach(r => r && typeof r === 'object' && Object.keys(r).forEach(k => { if (!k.startsWith('_')) keys.add(k); }));
+    return Array.from(keys).sort();
+  }, [records]);
+
+  const parsed = useMemo(() => parseQuery(value, fields), [value, fields]);
+
+  // Suggest field names for the token being typed, or values once it has a "field:" prefix
+  const suggestions = useMemo(() => {
+    const tokenStart = value.search(/\S*$/);
+    const token = value.slice(tokenStart).replace(/^-/, '');
+    const neg = value.slice(tokenStart).startsWith('-') ? '-' : '';
+    const head = value.slice(0, tokenStart) + neg;
+    const colon = token.indexOf(':');
+    if (colon > 0) {
+      const field = token.slice(0, colon);
+      if (!fields.includes(field)) return [];
+      const partial = token.slice(colon + 1).replace(/"/g, '').toLowerCase();
+      const counts = new Map<string, number>();
+      for (const r of records.slice(0, MAX_SCAN)) {
+        for (const v of fieldValues(r, field)) {
+          const list = Array.isArray(v) ? v : [typeof v === 'object' ? (v as any).name ?? (v as any).email : v];
+          for (const item of list) {
+            if (item === undefined || item === null || typeof item === 'object') continue;
+            const s = String(item);
+            if (s.toLowerCase().includes(partial)) counts.set(s, (counts.get(s) || 0) + 1);
+          }
+        }
+      }
+      return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_SUGGESTIONS)
+        .map(([s]) => ({ label: s, text: `${head}${field}:${quoteIfNeeded(s)} ` }))
+        .filter(s => s.text.trim() !== value.trim());
+    }
+    if (!token) return [];
+    const lower = token.toLowerCase();
+    return [...fields, 'after', 'before', 'on']
+      .filter(f => f.toLowerCase().startsWith(lower) && f !== token)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(f => ({ label: `${f}:`, text: `${head}${f}:` }));
+  }, [value, fields, records]);
+
+  const open = focused && suggestions.length > 0;
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open) return;
+    if (e.key === 'ArrowDown') { e.preventDefault(); setActive(a => (a + 1) % suggestions.length); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setActive(a => (a - 1 + suggestions.length) % suggestions.length); }
+    else if (e.key === 'Tab' || e.key === 'Enter') { e.preventDefault(); onChange(suggestions[Math.min(active, suggestions.length - 1)].text); setActive(0); }
+    else if (e.key === 'Escape') setFocused(false);
+  };
+
+  return (
+    <div className={`search-box${parsed.error ? ' invalid' : ''}`}>
+      <input
+        placeholder={placeholder}
+        value={value}
+        onChange={e => { onChange(e.target.value); setActive(0); }}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={onKeyDown}
+        aria-invalid={Boolean(parsed.error)}
+        title='e.g. action:chart:delete user:foo@ workspace:Sandbox -entity_type:dashboard after:2025-08-01, "quoted phrase", a OR b'
+        spellCheck={false}
+      />
+      {parsed.error && <div className="search-error" role="alert">{parsed.error}</div>}
+      {open && (
+        <ul className="search-suggestions" role="listbox">
+          {suggestions.map((s, i) => (
+            <li
+              key={s.text}
+              role="option"
+              aria-selected={i === active}
+              className={i === active ? 'active' : ''}
+              // mousedown so the input does not blur before the click lands
+              onMouseDown={e => { e.preventDefault(); onChange(s.text); setActive(0); }}
+            >{s.label}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+
+// Dependency-free SVG charts sharing the hbar-* look (dark block, dim headings)
+
+export interface LineSeries { name: string; values: number[]; color?: string }
+
+const PALETTE = ['#4f8cff', '#8f6bff', '#3fb950', '#ff9f43', '#ff5572', '#9aa4b1'];
+
+/** Block heading with optional actions (e.g. an export menu) on the right. */
+export const ChartTitle: React.FC<{ title: string; actions?: React.ReactNode }> = ({ title, actions }) => (
+  actions ? <div className="hbar-head"><h3>{title}</h3>{actions}</div> : <h3>{title}</h3>
+);
+
+export const LineChart: React.FC<{ title: string; labels: string[]; series: LineSeries[]; height?: number; actions?: React.ReactNode }>
+ = ({ title, labels, series, height = 160, actions }) => {
+  if (!labels.length || !series.length) return null;
+  const width = 600, padL = 32, padR = 8, padT = 8, padB = 20;
+  const innerW = width - padL - padR, innerH = height - padT - padB;
+  const maxVal = Math.max(1, ...series.flatMap(s => s.values));
+  const x = (i: number) => padL + (labels.length === 1 ? innerW / 2 : (i / (labels.length - 1)) * innerW);
+  const y = (v: number) => padT + innerH - (v / maxVal) * innerH;
+  const tickEvery = Math.max(1, Math.ceil(labels.length / 6));
+  return (
+    <div className="hbar-block">
+      <ChartTitle title={title} actions={actions} />
+      <svg className="line-chart" viewBox={`0 0 ${width} ${height}`} role="img" aria-label={title}>
+        {[0, .5, 1].map(f => (
+          <g key={f}>
+            <line className="line-grid" x1={padL} x2={width - padR} y1={y(maxVal * f)} y2={y(maxVal * f)} />
+            <text className="line-axis" x={padL - 4} y={y(maxVal * f) + 3} textAnchor="end">{Math.round(maxVal * f)}</text>
+          </g>
+        ))}
+        {labels.map((l, i) => i % tickEvery === 0 && (
+          <text key={l} className="line-axis" x={x(i)} y={height - 4} textAnchor="middle">{l.slice(5)}</text>
+        ))}
+        {series.map((s, si) => (
+          <polyline
+            key={s.name}
+            fill="none"
+            stroke={s.color || PALETTE[si % PALETTE.length]}
+            strokeWidth={1.75}
+            points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(' ')}
+          >
+            <title>{s.name}</title>
+          </polyline>
+        ))}
+      </svg>
+      {series.length > 1 && (
+        <div className="line-legend">
+          {series.map((s, si) => (
+            <span key={s.name}><i style={{background: s.color || PALETTE[si % PALETTE.length]}} />{s.name} ({s.values.reduce((a, b) => a + b, 0)})</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export interface BarDatum { label: string; value: number; extra?: string; key?: string; onSelect?: () => void; previous?: number }
+
+/** Change against a previous value: "+3 (+25%)", "new" when it was 0, "dropped" when it fell to 0. */
+export const deltaLabel = (value: number, previous: number): { text: string; className: string } => {
+  if (!previous && value) return { text: 'new', className: 'delta delta-new' };
+  if (previous && !value) return { text: 'dropped', className: 'delta delta-down' };
+  const diff = value - previous;
+  if (!diff) return { text: '±0', className: 'delta' };
+  const pct = Math.round(diff / previous * 100);
+  return { text: `${diff > 0 ? '+' : ''}${diff} (${pct > 0 ? '+' : ''}${pct}%)`, className: diff > 0 ? 'delta delta-up' : 'delta delta-down' };
+};
+
+/**
+ * Ranked horizontal bars; labels become links when a datum has `onSelect`.
+ * Data with `previous` set gets a delta column, and entries that fell to 0
+ * are listed as dropped below the bars.
+ */
+export const HBarChart: React.FC<{ data: BarDatum[]; maxBars?: number; title: string; valueLabel?: string; actions?: React.ReactNode }>
+ = ({ data, maxBars = 10, title, valueLabel = 'count', actions }) => {
+  const current = data.filter(d => d.value > 0);
+  const dropped = data.filter(d => d.value === 0 && d.previous);
+  if (!current.length && !dropped.length) return null;
+  const compare = data.some(d => d.previous !== undefined);
+  const top = current.slice(0, maxBars);
+  const maxVal = Math.max(...top.map(d => d.value));
+  return (
+    <div className="hbar-block">
+      <ChartTitle title={title} actions={actions} />
+      <div className={compare ? 'hbar-list compare' : 'hbar-list'}>
+        {top.map(d => {
+          const delta = d.previous !== undefined ? deltaLabel(d.value, d.previous) : null;
+          return (
+            <div key={d.key || d.label} className="hbar-row" title={d.extra || d.label}>
+              <div className="hbar-label">{d.onSelect ? <button className="link" onClick={d.onSelect}>{d.label}</button> : d.label}</div>
+              <div className="hbar-bar-wrap">
+                <div className="hbar-bar" style={{width: (d.value / maxVal * 100) + '%'}} />
+              </div>
+              <div className="hbar-val" aria-label={valueLabel}>{d.value}</div>
+              {delta && <div className={delta.className} title={`previous period: ${d.previous}`}>{delta.text}</div>}
+            </div>
+          );
+        })}
+      </div>
+      {dropped.length > 0 && (
+        <div className="dim">
+          Dropped: {dropped.slice(0, maxBars).map(d => `${d.label} (${d.previous})`).join(', ')}{dropped.length > maxBars ? ` and ${dropped.length - maxBars} more` : ''}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/** 7×24 grid; `cells[weekday][hour]` with weekday 0 = Monday. */
+export const Heatmap: React.FC<{ title: string; cells: number[][]; actions?: React.ReactNode }> = ({ title, cells, actions }) => {
+  const maxVal = Math.max(0, ...cells.flat());
+  if (!maxVal) return null;
+  const cell = 22, padL = 34, padT = 14;
+  const width = padL + 24 * cell, height = padT + 7 * cell;
+  return (
+    <div className="hbar-block">
+      <ChartTitle title={title} actions={actions} />
+      <svg className="heatmap" viewBox={`0 0 ${width} ${height}`} role="img" aria-label={title}>
+        {Array.from({ length: 24 }, (_, h) => h % 3 === 0 && (
+          <text key={h} className="line-axis" x={padL + h * cell + cell / 2} y={10} textAnchor="middle">{h}</text>
+        ))}
+        {cells.map((row, d) => (
+          <g key={d}>
+            <text className="line-axis" x={padL - 6} y={padT + d * cell + cell / 2 + 3} textAnchor="end">{WEEKDAYS[d]}</text>
+            {row.map((v, h) => (
+              <rect
+                key={h}
+                className="heat-cell"
+                x={padL + h * cell + 1}
+                y={padT + d * cell + 1}
+                width={cell - 2}
+                height={cell - 2}
+                rx={3}
+                style={{ fillOpacity: v ? 0.15 + 0.85 * (v / maxVal) : 1 }}
+                data-empty={v ? undefined : true}
+              >
+                <title>{`${WEEKDAYS[d]} ${String(h).padStart(2, '0')}:00 UTC — ${v} events`}</title>
+              </rect>
+            ))}
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+};
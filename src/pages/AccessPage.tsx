@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { search } from '../utils/search';
+import { SearchBox } from '../components/SearchBox';
+import { ExportMenu } from '../components/ExportMenu';
+import { fetchDataFile } from '../utils/fetchData';
+import { useRouteParam } from '../utils/router';
+import { DAY_MS, DetailTarget, dayKey, orderWorkspaces, workspaceTier } from '../utils/audit';
+import { UserRollupRow, loadRollups } from '../utils/auditData';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
+import { TeamMember, Workspace, WorkspaceMembership } from '../../shared/model.mjs';
+
+interface AccessCell {
+  level: 'creator' | 'viewer' | null;
+  role: string | null;
+  from_group: boolean;
+  events: number;
+}
+
+interface AccessRow {
+  key: string;
+  name: string;
+  email: string;
+  user_type: string;
+  cells: Record<string, AccessCell>;
+  /** Production creator rights, but activity in range only in Sandbox */
+  sandbox_only: boolean;
+}
+
+const RANGE_DAYS: Record<string, number> = { week: 7, month: 30, quarter: 90, year: 365 };
+const emptyCell = (): AccessCell => ({ level: null, role: null, from_group: false, events: 0 });
+
+export const AccessPage: React.FC<{ refreshKey: number; onSelect?: (t: DetailTarget) => void }> = ({ refreshKey, onSelect }) => {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [workspaceList, setWorkspaceList] = useState<Workspace[]>([]);
+  const [workspaceMembers, setWorkspaceMembers] = useState<WorkspaceMembership[]>([]);
+  const [daily, setDaily] = useState<UserRollupRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
+  const [rangeParam, setRange] = useRouteParam('range', 'month');
+  const [onlyParam, setOnlyParam] = useRouteParam('only');
+  const range = rangeParam in RANGE_DAYS ? rangeParam : 'month';
+  const onlyFlagged = onlyParam === '1';
+  const { team, inTeam, teamLabel } = useTeamScope(refreshKey);
+
+  useEffect(() => {
+    setLoading(true); setError(null);
+    Promise.all([
+      fetchDataFile('team_members.json', { optional: true }),
+      fetchDataFile('workspaces.json', { optional: true }),
+      fetchDataFile('workspace_memberships.json', { optional: true }),
+      loadRollups(refreshKey)
+    ]).then(([m, w, wm, r]) => { setMembers(m); setWorkspaceList(w); setWorkspaceMembers(wm); setDaily(r.users); })
+      .catch(e => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [refreshKey]);
+
+  const { workspaces, rows } = useMemo(() => {
+    // Columns are keyed by current workspace title; audit rows are matched by stable workspace id so renames still line up
+    const titleById = new Map(workspaceList.map(w => [w.name, w.title || w.name]));
+    const titleOf = (id: string, title: string) => titleById.get(id) || title || id;
+    const cutoff = dayKey(Date.now() - RANGE_DAYS[range] * DAY_MS);
+    const activity = new Map<string, Map<string, number>>();
+    for (const r of daily) {
+      if (r.date <= cutoff || !r.user || !inTeam(r.team_id)) continue;
+      const ws = titleOf(r.workspace_id, r.workspace);
+      if (!ws) continue;
+      const user = r.user.toLowerCase();
+      if (!activity.has(user)) activity.set(user, new Map());
+      const perWs = activity.get(user)!;
+      perWs.set(ws, (perWs.get(ws) || 0) + r.count);
+    }
+
+    const byUser = new Map<string, AccessRow>();
+    for (const m of members) {
+      if (!inTeam(m._team_id)) continue;
+      const key = (m.email || `id:${m.user_id}`).toLowerCase();
+      const row = byUser.get(key) || { key, name: [m.first_name, m.last_name].filter(Boolean).join(' '), email: m.email || '', user_type: m.user_type || '', cells: {}, sandbox_only: false };
+      for (const ws of m.creator_on_workspaces) {
+        row.cells[ws] = { ...(row.cells[ws] || emptyCell()), level: 'creator' };
+      }
+      byUser.set(key, row);
+    }
+    for (const wm of workspaceMembers) {
+      if (!inTeam(wm._team_id)) continue;
+      const row = byUser.get((wm.email || '').toLowerCase());
+      if (!row) continue;
+      const ws = titleOf(wm.workspace_name, wm.workspace_title || '');
+      const cell = row.cells[ws] || emptyCell();
+      row.cells[ws] = { ...cell, level: cell.level || 'viewer', role: wm.workspace_role_name || wm.workspace_role_identifier, from_group: wm.is_role_from_group };
+    }
+    for (const row of byUser.values()) {
+      for (const [ws, events] of activity.get(row.email.toLowerCase()) || []) {
+        const cell = row.cells[ws] || emptyCell();
+        // Activity in a workspace implies at least viewer access there
+        row.cells[ws] = { ...cell, level: cell.level || 'viewer', events };
+      }
+      const entries = Object.entries(row.cells);
+      const prodCreator = entries.some(([ws, c]) => c.level === 'creator' && workspaceTier(ws) === 'production');
+      const prodEvents = entries.filter(([ws]) => workspaceTier(ws) === 'production').reduce((n, [, c]) => n + c.events, 0);
+      const sandboxEvents = entries.filter(([ws]) => workspaceTier(ws) === 'sandbox').reduce((n, [, c]) => n + c.events, 0);
+      row.sandbox_only = prodCreator && prodEvents === 0 && sandboxEvents > 0;
+    }
+
+    const names = [...workspaceList.filter(w => inTeam(w._team_id)).map(w => w.title || w.name), ...Array.from(byUser.values()).flatMap(r => Object.keys(r.cells))];
+    const sorted = Array.from(byUser.values()).sort((a, b) => Number(b.sandbox_only) - Number(a.sandbox_only) || (a.name || a.email).localeCompare(b.name || b.email));
+    return { workspaces: orderWorkspaces(names.filter(Boolean)), rows: sorted };
+  }, [members, workspaceList, workspaceMembers, daily, range, inTeam]);
+
+  const filtered = rows.filter(r => (!onlyFlagged || r.sandbox_only) && (!query || search({ name: r.name, email: r.email, user_type: r.user_type }, query)));
+  const flaggedCount = rows.filter(r => r.sandbox_only).length;
+
+  const exportRows = () => filtered.map(r => ({
+    name: r.name,
+    email: r.email,
+    user_type: r.user_type,
+    ...Object.fromEntries(workspaces.flatMap(ws => [
+      [`${ws} access`, r.cells[ws]?.level || ''],
+      [`${ws} role`, r.cells[ws]?.role || ''],
+      [`${ws} events`, r.cells[ws]?.events || 0],
+    ])),
+    sandbox_only: r.sandbox_only,
+  }));
+
+  return (
+    <div className="grid auto-fill">
+      <Card className="full-span" title="Workspace Access" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          <select value={range} onChange={e => setRange(e.target.value)} title="Activity range">
+            <option value="week">Active in last 7 days</option>
+            <option value="month">Active in last 30 days</option>
+            <option value="quarter">Active in last 90 days</option>
+            <option value="year">Active in last 365 days</option>
+          </select>
+          <label style={{fontSize:'.75rem', display:'flex', gap:'.35rem', alignItems:'center'}} title="Production creators whose activity in range was only in Sandbox">
+            <input type="checkbox" checked={onlyFlagged} onChange={e => setOnlyParam(e.target.checked ? '1' : '')} style={{width:'auto'}} /> Sandbox-only creators ({flaggedCount})
+          </label>
+          <SearchBox value={query} onChange={setQuery} records={rows.map(r => ({ name: r.name, email: r.email, user_type: r.user_type }))} />
+          <ExportMenu name="Workspace Access" rows={exportRows} context={{ team: team === ALL_TEAMS ? '' : teamLabel(team), range, flagged: onlyFlagged, q: query }} />
+        </div>
+      }>
+        {loading && <p>Loading…</p>}
+        {error && <p className="error">{error}</p>}
+        {!loading && !error && (
+          <div className="table-wrapper">
+            <table className="matrix">
+              <thead>
+                <tr>
+                  <th>User</th>
+                  <th>Type</th>
+                  {workspaces.map(ws => <th key={ws}>{ws}</th>)}
+                  <th>Flag</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(r => (
+                  <tr key={r.key}>
+                    <td>
+                      {onSelect && r.email ? <button className="link" onClick={() => onSelect({ kind: 'user', user: r.email })}>{r.name || r.email}</button> : r.name || r.email}
+                      {r.name && <div className="dim">{r.email}</div>}
+                    </td>
+                    <td>{r.user_type || '—'}</td>
+                    {workspaces.map(ws => {
+                      const c = r.cells[ws];
+                      if (!c?.level) return <td key={ws} className="access-cell">—</td>;
+                      const tip = [c.role, c.from_group ? 'via group' : '', c.events ? `${c.events} events in range` : 'no activity in range'].filter(Boolean).join(' · ');
+                      return (
+                        <td key={ws} className={`access-cell access-${c.level}`} title={tip}>
+                          {c.level === 'creator' ? 'Creator' : 'Viewer'}
+                          <div className={c.events ? 'access-active' : 'dim'}>{c.events ? `● ${c.events.toLocaleString()}` : 'idle'}</div>
+                        </td>
+                      );
+                    })}
+                    <td>{r.sandbox_only && <span className="flag" title="Creator in Production but only active in Sandbox">Sandbox only</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filtered.length === 0 && <p>No users match.</p>}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { fetchDataFile } from '../utils/fetchData';
+import { search } from '../utils/search';
+import { SearchBox } from '../components/SearchBox';
+import { ExportMenu } from '../components/ExportMenu';
+import { navigate, useRouteParam } from '../utils/router';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
+
+interface AlertRule { id: string; title: string; severity: string; source: string; threshold: number; window: string | null }
+
+interface AlertSample {
+  _event_key?: string; timestamp?: string; user?: string; action?: string; entity_type?: string; entity_name?: string; workspace_title?: string;
+  id?: string; date?: string; type?: string; subject?: string; before?: any; after?: any;
+}
+
+interface Alert {
+  id: string;
+  rule: string;
+  title: string;
+  severity: 'low' | 'medium' | 'high';
+  source: 'audit' | 'changes';
+  group: Record<string, unknown>;
+  count: number;
+  first: string;
+  last: string;
+  detected_at: string;
+  keys: string[];
+  /** Team ids of the matched records; missing on alerts written before teams were tracked */
+  teams?: string[];
+  samples: AlertSample[];
+}
+
+const SEVERITY_ORDER = ['high', 'medium', 'low'];
+const fmtTime = (iso: string) => iso.replace('T', ' ').slice(0, 16);
+const groupLabel = (g: Record<string, unknown>) => Object.entries(g).map(([k, v]) => `${k}: ${v ?? '—'}`).join(' · ');
+
+// Audit samples open the event in the Audit Logs tab; change samples open that day's Changes filtered to the subject
+const openSample = (a: Alert, s: AlertSample) => a.source === 'changes'
+  ? navigate('changes', { q: s.subject || undefined, from: s.date, to: s.date })
+  : navigate('audit', { event: s._event_key, range: 'all' });
+
+const sampleLabel = (a: Alert, s: AlertSample) => a.source === 'changes'
+  ? `${s.type} · ${s.subject || '—'}`
+  : `${fmtTime(s.timestamp || '')} · ${s.action || '—'}${s.entity_name ? ` · ${s.entity_name}` : ''}`;
+
+export const AlertsPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
+  const [rule, setRule] = useRouteParam('rule', 'ALL');
+  const [severity, setSeverity] = useRouteParam('severity', 'ALL');
+  const [expanded, setExpanded] = useRouteParam('alert');
+  const { team, multi, inTeam, teamLabel } = useTeamScope(refreshKey);
+  const showTeam = team === ALL_TEAMS && multi;
+
+  useEffect(() => {
+    setLoading(true); setError(null);
+    fetchDataFile('alerts.json', { optional: true })
+      // A missing file comes back as [] from the optional fetch
+      .then(d => { setAlerts(Array.isArray(d?.alerts) ? d.alerts : []); setRules(Array.isArray(d?.rules) ? d.rules : []); })
+      .catch(e => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [refreshKey]);
+
+  // Alerts without team ids stay visible in every team
+  const scoped = useMemo(() => alerts.filter(a => !a.teams?.length || a.teams.some(inTeam)), [alerts, inTeam]);
+
+  const filtered = useMemo(() => scoped.filter(a =>
+    (rule === 'ALL' || a.rule === rule)
+    && (severity === 'ALL' || a.severity === severity)
+    && (!query || search({ title: a.title, rule: a.rule, group: groupLabel(a.group), samples: a.samples }, query))
+  ), [scoped, rule, severity, query]);
+
+  const counts = useMemo(() => {
+    const m = new Map<string, number>();
+    scoped.forEach(a => m.set(a.rule, (m.get(a.rule) || 0) + 1));
+    return m;
+  }, [scoped]);
+
+  const exportRows = () => filtered.map(({ samples, keys, group, teams, ...a }) => ({ ...a, group: groupLabel(group), teams: (teams || []).map(teamLabel).join(', '), keys: keys.join(' ') }));
+
+  return (
+    <div className="grid auto-fill">
+      <Card className="full-span" title="Alerts" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          <select value={rule} onChange={e => setRule(e.target.value)} title="Rule">
+            <option value="ALL">All rules</option>
+            {rules.map(r => <option key={r.id} value={r.id}>{r.title} ({counts.get(r.id) || 0})</option>)}
+          </select>
+          <select value={severity} onChange={e => setSeverity(e.target.value)} title="Severity">
+            <option value="ALL">Any severity</option>
+            {SEVERITY_ORDER.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <SearchBox value={query} onChange={setQuery} records={scoped.map(a => ({ title: a.title, rule: a.rule, group: groupLabel(a.group) }))} />
+          <ExportMenu name="Alerts" rows={exportRows} context={{ team: team === ALL_TEAMS ? '' : teamLabel(team), rule: rule === 'ALL' ? '' : rule, severity: severity === 'ALL' ? '' : severity, q: query }} />
+        </div>
+      }>
+        {loading && <p>Loading…</p>}
+        {error && <p className="error">{error}</p>}
+        {!loading && !error && !rules.length && <p>No alert rules were evaluated for this snapshot. Rules are read from <code>alerts.yml</code> by the fetch script.</p>}
+        {!loading && !error && rules.length > 0 && (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Severity</th>
+                  <th>Alert</th>
+                  <th>Group</th>
+                  {showTeam && <th>Team</th>}
+                  <th>Count</th>
+                  <th>First</th>
+                  <th>Last</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(a => (
+                  <React.Fragment key={a.id}>
+                    <tr>
+                      <td><span className={`severity severity-${a.severity}`}>{a.severity}</span></td>
+                      <td>{a.title}<div className="dim">{a.rule}</div></td>
+                      <td>{groupLabel(a.group) || '—'}</td>
+                      {showTeam && <td>{a.teams?.length ? a.teams.map(teamLabel).join(', ') : '—'}</td>}
+                      <td>{a.count}</td>
+                      <td>{fmtTime(a.first)}</td>
+                      <td>{fmtTime(a.last)}</td>
+                      <td><button className="mini" onClick={() => setExpanded(expanded === a.id ? '' : a.id)}>{expanded === a.id ? 'Hide' : 'Show'}</button></td>
+                    </tr>
+                    {expanded === a.id && (
+                      <tr>
+                        <td colSpan={showTeam ? 8 : 7}>
+                          <ul className="plain-list">
+                            {a.samples.map((s, i) => (
+                              <li key={s._event_key || s.id || i}>
+                                <button className="link" onClick={() => openSample(a, s)}>{sampleLabel(a, s)}</button>
+                                {s.user && <span className="dim"> · {s.user}</span>}
+                                {s.workspace_title && <span className="dim"> · {s.workspace_title}</span>}
+                              </li>
+                            ))}
+                          </ul>
+                          {a.count > a.samples.length && <p className="dim">{a.count - a.samples.length} more not shown; detected {fmtTime(a.detected_at)}.</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+            {filtered.length === 0 && <p>{alerts.length ? 'No alerts match.' : 'No alerts have fired.'}</p>}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -1,111 +1,224 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Card } from '../components/Card';
-import { fetchDataFile } from '../utils/fetchData';
+import { AuditLog, EMPTY_ROLLUPS, EntityRollupRow, Rollups, loadAuditEvents, loadRollups, rollupEvents } from '../utils/auditData';
 import { search } from '../utils/search';
+import { SearchBox } from '../components/SearchBox';
+import { BarDatum, HBarChart, LineChart, Heatmap, WEEKDAYS, deltaLabel } from '../components/SvgCharts';
+import { ExportMenu } from '../components/ExportMenu';
+import { useRouteParam } from '../utils/router';
+import { QueryInsights } from './QueryInsights';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
+import { ACTION_FAMILIES, DAY_MS, DetailTarget, actionFamily, dayKey, isAuthoring, logTime, orderWorkspaces, weekKey } from '../utils/audit';
 
-interface AuditLog { [k: string]: any }
+const workspaceLabel = (w: string) => (w || '').trim() || 'unknown';
+const dateMs = (date: string) => Date.parse(`${date}T00:00:00Z`);
 
-interface BarDatum { label: string; value: number; extra?: string }
+/** The rows of every rollup table that pass `keep`. */
+const sliceRollups = (r: Rollups, keep: (row: { date: string; team_id: string; workspace: string }) => boolean): Rollups => ({
+  daily: r.daily.filter(keep), users: r.users.filter(keep), entities: r.entities.filter(keep), hourly: r.hourly.filter(keep),
+});
 
-const HBarChart: React.FC<{ data: BarDatum[]; maxBars?: number; title: string; valueLabel?: string }>
- = ({ data, maxBars = 10, title, valueLabel = 'count' }) => {
-  if (!data.length) return null;
-  const top = data.slice(0, maxBars);
-  const maxVal = Math.max(...top.map(d => d.value));
-  return (
-    <div className="hbar-block">
-      <h3>{title}</h3>
-      <div className="hbar-list">
-        {top.map(d => (
-          <div key={d.label} className="hbar-row" title={d.extra || d.label}>
-            <div className="hbar-label">{d.label}</div>
-            <div className="hbar-bar-wrap">
-              <div className="hbar-bar" style={{width: (d.value / maxVal * 100) + '%'}} />
-            </div>
-            <div className="hbar-val" aria-label={valueLabel}>{d.value}</div>
-          </div>
-        ))}
-      </div>
-    </div>
-  );
-};
+/** Header totals for a set of rollups. */
+function kpis(r: Rollups) {
+  let events = 0, views = 0, edits = 0;
+  r.daily.forEach(row => {
+    events += row.count;
+    if (actionFamily(row.action) === 'view') views += row.count;
+    if (isAuthoring(row.action)) edits += row.count;
+  });
+  return { events, users: new Set(r.users.map(row => row.user)).size, views, edits };
+}
+
+const KPI_LABELS = { events: 'Events', users: 'Active Users', views: 'Views', edits: 'Edits (create / update)' } as const;
 
-export const AnalyticsPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
-  const [logs, setLogs] = useState<AuditLog[]>([]);
+export const AnalyticsPage: React.FC<{ refreshKey: number; onSelect?: (t: DetailTarget) => void }> = ({ refreshKey, onSelect }) => {
+  const [rollups, setRollups] = useState<Rollups>(EMPTY_ROLLUPS);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string|null>(null);
-  const [workspace, setWorkspace] = useState<string>('ALL');
-  const [query, setQuery] = useState('');
-  const [range, setRange] = useState<'week' | 'month' | 'year'>('week');
+  const [workspace, setWorkspace] = useRouteParam('ws', 'ALL');
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
+  const [rangeParam, setRange] = useRouteParam('range', 'week');
+  const [granularityParam, setGranularity] = useRouteParam('g', 'auto');
+  const range = (['week', 'month', 'year'].includes(rangeParam) ? rangeParam : 'week') as 'week' | 'month' | 'year';
+  const granularity = (['auto', 'day', 'week'].includes(granularityParam) ? granularityParam : 'auto') as 'auto' | 'day' | 'week';
+  const rangeDays = range === 'week' ? 7 : range === 'month' ? 30 : 365;
+  // Compare mode adds the previous window of the same length
+  const [compareParam, setCompare] = useRouteParam('compare');
+  const compare = compareParam === '1';
+  // Raw events are only needed (and only fetched, for the months in range) while a search query is active
+  const [rangeEvents, setRangeEvents] = useState<{ key: string; logs: any[] } | null>(null);
+  const rangeKey = `${refreshKey}:${range}:${compare ? 'compare' : ''}`;
+  const { team, multi, inTeam, teamLabel } = useTeamScope(refreshKey);
+  const showTeam = team === ALL_TEAMS && multi;
 
   useEffect(() => {
     setLoading(true); setError(null);
-    fetchDataFile('audit_logs.json', { optional: true })
-      .then(d => setLogs(d))
+    loadRollups(refreshKey)
+      .then(setRollups)
       .catch(e => setError(String(e)))
       .finally(() => setLoading(false));
   }, [refreshKey]);
 
-  const workspaces = useMemo(() => {
-    const found = new Set<string>();
-    logs.forEach(l => {
-      const title = (l.workspace_title || l.workspace_name || 'unknown').trim() || 'unknown';
-      found.add(title);
-    });
-    const desiredOrder = ['Production','Pre-Production','Sandbox','unknown'];
-    const ordered: string[] = ['ALL'];
-    desiredOrder.forEach(name => {
-      // case-insensitive match of exact desired name present in set
-      for (const f of Array.from(found)) {
-        if (f.toLowerCase() === name.toLowerCase()) {
-          ordered.push(f);
-          found.delete(f);
-          break;
-        }
-      }
-    });
-    // Append any remaining workspaces (alphabetical) not already added
-    const remaining = Array.from(found).filter(f => !ordered.includes(f)).sort((a,b)=>a.localeCompare(b));
-    return [...ordered, ...remaining];
-  }, [logs]);
+  useEffect(() => {
+    if (!query || rangeEvents?.key === rangeKey) return;
+    let cancelled = false;
+    loadAuditEvents(refreshKey, { since: Date.now() - (compare ? 2 : 1) * rangeDays * DAY_MS })
+      .then(logs => { if (!cancelled) setRangeEvents({ key: rangeKey, logs }); })
+      .catch(e => { if (!cancelled) setError(String(e)); });
+    return () => { cancelled = true; };
+  }, [query, rangeKey]);
 
-  const filtered = useMemo(() => {
-    const now = Date.now();
-    const rangeMs = range === 'week' ? 7*24*3600*1000 : range === 'month' ? 30*24*3600*1000 : 365*24*3600*1000;
-    const cutoff = now - rangeMs;
-    return logs.filter(l => {
-      if (workspace !== 'ALL' && (l.workspace_title || l.workspace_name || 'Unknown') !== workspace) return false;
-      if (query && !search(l, query)) return false;
-      const ts = l.timestamp ? Date.parse(l.timestamp) : NaN;
-      if (!isNaN(ts) && ts < cutoff) return false; // keep only within range
-      return true;
-    });
-  }, [logs, workspace, query, range]);
+  const workspaces = useMemo(() => ['ALL', ...orderWorkspaces(rollups.daily.filter(r => inTeam(r.team_id)).map(r => workspaceLabel(r.workspace)))], [rollups, inTeam]);
 
-  const metrics = useMemo(() => {
-    if (!filtered.length) return { chartViews: [], dashboardViews: [], activeUsers: [], actionCounts: [] };
-    const chartMap: Record<string, number> = {};
-    const dashMap: Record<string, number> = {};
-    const userMap: Record<string, number> = {};
-    const actionMap: Record<string, number> = {};
-    filtered.forEach(l => {
-      const action = l.action || l.event || l.type;
-      if (action) actionMap[action] = (actionMap[action]||0)+1;
-      const user = typeof l.user === 'string' ? l.user : (l.user?.email || l.user_email || 'Unknown');
-      userMap[user] = (userMap[user]||0)+1;
-      if (action === 'chart:view' && l.entity_name) chartMap[l.entity_name] = (chartMap[l.entity_name]||0)+1;
-      if (action === 'dashboard:view' && l.entity_name) dashMap[l.entity_name] = (dashMap[l.entity_name]||0)+1;
+  const searching = Boolean(query) && rangeEvents?.key !== rangeKey;
+
+  // Rollups for the current selection: build-time rollups, or rollups of the matching raw events when searching.
+  // `previous` covers the window before it, in compare mode.
+  const selection = useMemo<{ current: Rollups; previous: Rollups }>(() => {
+    // Whole UTC days: the current window is the rangeDays days after cutoffDate (ending today, as in timeSeries),
+    // the previous one the rangeDays days before it
+    const cutoff = Date.now() - rangeDays * DAY_MS;
+    const cutoffDate = dayKey(cutoff);
+    const previousDate = dayKey(cutoff - rangeDays * DAY_MS);
+    const inWorkspace = (w: string) => workspace === 'ALL' || workspaceLabel(w) === workspace;
+    const inScope = (r: { team_id: string; workspace: string }) => inTeam(r.team_id) && inWorkspace(r.workspace);
+    if (query) {
+      if (!rangeEvents || rangeEvents.key !== rangeKey) return { current: EMPTY_ROLLUPS, previous: EMPTY_ROLLUPS };
+      const matching = rangeEvents.logs.filter(l => {
+        if (!inTeam(l._team_id) || !inWorkspace(l.workspace_title || l.workspace_name)) return false;
+        const ts = logTime(l);
+        if (!isNaN(ts) && dayKey(ts) <= (compare ? previousDate : cutoffDate)) return false; // keep only within range
+        return search(l, query);
+      });
+      const isCurrent = (l: AuditLog) => { const ts = logTime(l); return isNaN(ts) || dayKey(ts) > cutoffDate; };
+      return { current: rollupEvents(matching.filter(isCurrent)), previous: rollupEvents(matching.filter(l => !isCurrent(l))) };
+    }
+    return {
+      current: sliceRollups(rollups, r => r.date > cutoffDate && inScope(r)),
+      previous: compare ? sliceRollups(rollups, r => r.date > previousDate && r.date <= cutoffDate && inScope(r)) : EMPTY_ROLLUPS,
+    };
+  }, [rollups, rangeEvents, rangeKey, workspace, query, rangeDays, compare, inTeam]);
+
+  const totals = useMemo(() => ({ current: kpis(selection.current), previous: kpis(selection.previous) }), [selection]);
+  // A quiet current period still shows its drop against the previous one
+  const hasEvents = totals.current.events + totals.previous.events > 0;
+
+  // Bar data per chart for a set of rollups
+  const rank = ({ daily, users, entities }: Rollups) => {
+    // Entities are keyed by type + id + workspace so same-named charts in different workspaces stay apart
+    const chartMap: Record<string, BarDatum> = {};
+    const dashMap: Record<string, BarDatum> = {};
+    const userMap: Record<string, BarDatum> = {};
+    const actionMap: Record<string, BarDatum> = {};
+    const teamMap: Record<string, BarDatum> = {};
+    const bump = (m: Record<string, BarDatum>, key: string, count: number, init: () => BarDatum) => {
+      if (!m[key]) m[key] = init();
+      m[key].value += count;
+    };
+    const bumpEntity = (m: Record<string, BarDatum>, r: EntityRollupRow) => {
+      const key = `${r.entity_type}|${r.entity_id}|${r.workspace_id}`;
+      bump(m, key, r.count, () => ({
+        key,
+        label: r.entity_name,
+        value: 0,
+        extra: `${r.entity_name} · ${r.workspace || 'unknown workspace'}`,
+        onSelect: onSelect && (() => onSelect({ kind: 'entity', entityType: r.entity_type, entityId: r.entity_id, workspace: r.workspace_id })),
+      }));
+    };
+    let attributed = 0;
+    daily.forEach(r => {
+      if (r.action) bump(actionMap, r.action, r.count, () => ({ label: r.action, value: 0 }));
+      bump(teamMap, r.team_id, r.count, () => ({ key: r.team_id, label: teamLabel(r.team_id), value: 0 }));
+      attributed -= r.count;
+    });
+    users.forEach(r => {
+      bump(userMap, r.user, r.count, () => ({ label: r.user, value: 0, onSelect: onSelect && (() => onSelect({ kind: 'user', user: r.user })) }));
+      attributed += r.count;
     });
-    const toSorted = (m: Record<string, number>): BarDatum[] => Object.entries(m)
-      .map(([label,value]) => ({label, value}))
-      .sort((a,b)=>b.value-a.value);
+    // Events without a user are only in the daily totals
+    if (attributed < 0) bump(userMap, 'Unknown', -attributed, () => ({ label: 'Unknown', value: 0 }));
+    entities.forEach(r => {
+      if (r.action === 'chart:view' && r.entity_name) bumpEntity(chartMap, r);
+      if (r.action === 'dashboard:view' && r.entity_name) bumpEntity(dashMap, r);
+    });
+    const toSorted = (m: Record<string, BarDatum>): BarDatum[] => Object.values(m).sort((a,b)=>b.value-a.value);
     return {
       chartViews: toSorted(chartMap),
       dashboardViews: toSorted(dashMap),
       activeUsers: toSorted(userMap),
       actionCounts: toSorted(actionMap),
+      teamCounts: toSorted(teamMap),
+    };
+  };
+
+  const metrics = useMemo(() => {
+    const current = rank(selection.current);
+    if (!compare) return current;
+    // Attach the previous period's value to every entry, adding the ones that dropped to zero
+    const previous = rank(selection.previous);
+    const merge = (now: BarDatum[], before: BarDatum[]): BarDatum[] => {
+      const prev = new Map(before.map(d => [d.key || d.label, d.value]));
+      const seen = new Set(now.map(d => d.key || d.label));
+      return [
+        ...now.map(d => ({ ...d, previous: prev.get(d.key || d.label) ?? 0 })),
+        ...before.filter(d => !seen.has(d.key || d.label)).map(d => ({ ...d, value: 0, previous: d.value })),
+      ];
+    };
+    return {
+      chartViews: merge(current.chartViews, previous.chartViews),
+      dashboardViews: merge(current.dashboardViews, previous.dashboardViews),
+      activeUsers: merge(current.activeUsers, previous.activeUsers),
+      actionCounts: merge(current.actionCounts, previous.actionCounts),
+      teamCounts: merge(current.teamCounts, previous.teamCounts),
     };
-  }, [filtered]);
+  }, [selection, onSelect, compare, teamLabel]);
+
+  // Event volume per bucket by action family, distinct users per day and an hour × weekday grid
+  const timeSeries = useMemo(() => {
+    const bucketBy = granularity === 'auto' ? (range === 'year' ? 'week' : 'day') : granularity;
+    const toKey = bucketBy === 'week' ? weekKey : dayKey;
+    const now = Date.now();
+    const buckets: string[] = [];
+    for (let t = now - (rangeDays - 1) * DAY_MS; t <= now; t += DAY_MS) {
+      const k = toKey(t);
+      if (buckets[buckets.length - 1] !== k) buckets.push(k);
+    }
+    const index = new Map(buckets.map((k, i) => [k, i]));
+    const families = [...ACTION_FAMILIES, 'other'] as const;
+    const volume: Record<string, number[]> = Object.fromEntries(families.map(f => [f, buckets.map(() => 0)]));
+    const days: string[] = [];
+    for (let t = now - (rangeDays - 1) * DAY_MS; t <= now; t += DAY_MS) days.push(dayKey(t));
+    const dayIndex = new Map(days.map((k, i) => [k, i]));
+    const usersPerDay = days.map(() => new Set<string>());
+    selection.current.daily.forEach(r => {
+      const i = index.get(toKey(dateMs(r.date)));
+      if (i !== undefined) volume[actionFamily(r.action)][i] += r.count;
+    });
+    selection.current.users.forEach(r => {
+      const di = dayIndex.get(r.date);
+      if (di !== undefined) usersPerDay[di].add(r.user);
+    });
+    const heat = Array.from({ length: 7 }, () => Array(24).fill(0) as number[]);
+    selection.current.hourly.forEach(r => {
+      heat[(new Date(dateMs(r.date)).getUTCDay() + 6) % 7][r.hour] += r.count;
+    });
+    const series = families
+      .map(f => ({ name: f, values: volume[f] }))
+      .filter(s => s.values.some(v => v > 0));
+    return { bucketBy, buckets, series, days, activeUsers: usersPerDay.map(s => s.size), heat };
+  }, [selection, range, rangeDays, granularity]);
+
+  // Every chart exports the data behind it (all rows, not just the bars shown), named after the current filters
+  const exportContext = { range, team: team === ALL_TEAMS ? '' : teamLabel(team), ws: workspace === 'ALL' ? '' : workspace, q: query, compare: compare ? 'previous' : '' };
+  const chartExport = (name: string, rows: () => unknown[]) => <ExportMenu name={name} rows={rows} context={exportContext} />;
+  const barRows = (data: BarDatum[], valueLabel = 'count') => () => data.map(d => ({
+    label: d.label,
+    [valueLabel]: d.value,
+    ...(d.previous !== undefined ? { previous: d.previous, change: d.previous ? d.value - d.previous : d.value ? 'new' : 0 } : {}),
+    detail: d.extra ?? '',
+  }));
+  const seriesRows = (labels: string[], series: { name: string; values: number[] }[], labelName: string) => () =>
+    labels.map((l, i) => ({ [labelName]: l, ...Object.fromEntries(series.map(s => [s.name, s.values[i]])) }));
 
   return (
     <div className="grid auto-fill">
@@ -116,7 +229,15 @@ export const AnalyticsPage: React.FC<{ refreshKey: number }> = ({ refreshKey })
             <option value="month">Month</option>
             <option value="year">Year</option>
           </select>
-            <input placeholder="Search logs" value={query} onChange={e=>setQuery(e.target.value)} />
+          <select value={granularity} onChange={e=>setGranularity(e.target.value as any)} title="Trend granularity">
+            <option value="auto">Auto</option>
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+          </select>
+          <label style={{fontSize:'.75rem', display:'flex', gap:'.35rem', alignItems:'center'}} title="Compare with the previous window of the same length">
+            <input type="checkbox" checked={compare} onChange={e => setCompare(e.target.checked ? '1' : '')} style={{width:'auto'}} /> Compare
+          </label>
+          <SearchBox placeholder="Search logs" value={query} onChange={setQuery} records={rangeEvents?.logs || rollups.daily} />
         </div>
       }>
         {loading && <p>Loading…</p>}
@@ -133,21 +254,48 @@ export const AnalyticsPage: React.FC<{ refreshKey: number }> = ({ refreshKey })
                 >{ws}</button>
               ))}
             </div>
-            {filtered.length === 0 && <p>No audit log entries for selection.</p>}
-            {filtered.length > 0 && (
-              <p style={{opacity:.6, fontSize:'.7rem', margin:'0 0 .5rem'}}>{filtered.length} events (last {range === 'week' ? '7 days' : range === 'month' ? '30 days' : '365 days'})</p>
+            {searching && <p>Loading events…</p>}
+            {!searching && !hasEvents && <p>No audit log entries for selection.</p>}
+            {hasEvents && (
+              <>
+                <p style={{opacity:.6, fontSize:'.7rem', margin:'0 0 .5rem'}}>Last {rangeDays} days{compare ? ` vs the ${rangeDays} days before` : ''}</p>
+                <div className="kpi-row">
+                  {(Object.keys(KPI_LABELS) as (keyof typeof KPI_LABELS)[]).map(k => {
+                    const delta = compare ? deltaLabel(totals.current[k], totals.previous[k]) : null;
+                    return (
+                      <div key={k} className="kpi">
+                        <span className="kpi-label">{KPI_LABELS[k]}</span>
+                        <span className="kpi-value">{totals.current[k].toLocaleString()}</span>
+                        {delta && <span className={delta.className} title={`previous period: ${totals.previous[k].toLocaleString()}`}>{delta.text} vs {totals.previous[k].toLocaleString()}</span>}
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+            {hasEvents && (
+              <div className="charts-grid" style={{display:'grid', gap:'1.25rem', gridTemplateColumns:'repeat(auto-fit,minmax(420px,1fr))', marginBottom:'1.25rem'}}>
+                <LineChart title={`Event Volume (${timeSeries.bucketBy === 'week' ? 'weekly' : 'daily'}, by action family)`} labels={timeSeries.buckets} series={timeSeries.series}
+                  actions={chartExport('Event Volume', seriesRows(timeSeries.buckets, timeSeries.series, timeSeries.bucketBy))} />
+                <LineChart title="Distinct Active Users per Day" labels={timeSeries.days} series={[{ name: 'active users', values: timeSeries.activeUsers }]}
+                  actions={chartExport('Active Users', seriesRows(timeSeries.days, [{ name: 'active_users', values: timeSeries.activeUsers }], 'day'))} />
+                <Heatmap title="Activity by Hour (UTC) and Weekday" cells={timeSeries.heat}
+                  actions={chartExport('Activity Heatmap', () => timeSeries.heat.map((row, d) => ({ weekday: WEEKDAYS[d], ...Object.fromEntries(row.map((v, h) => [`${String(h).padStart(2, '0')}h`, v])) })))} />
+              </div>
             )}
-            {filtered.length > 0 && (
+            {hasEvents && (
               <div className="charts-grid" style={{display:'grid', gap:'1.25rem', gridTemplateColumns:'repeat(auto-fit,minmax(340px,1fr))'}}>
-                <HBarChart title="Top Chart Views" data={metrics.chartViews} />
-                <HBarChart title="Top Dashboard Views" data={metrics.dashboardViews} />
-                <HBarChart title="Most Active Users" data={metrics.activeUsers} valueLabel="events" />
-                <HBarChart title="Action Breakdown" data={metrics.actionCounts} />
+                <HBarChart title="Top Chart Views" data={metrics.chartViews} actions={chartExport('Chart Views', barRows(metrics.chartViews, 'views'))} />
+                <HBarChart title="Top Dashboard Views" data={metrics.dashboardViews} actions={chartExport('Dashboard Views', barRows(metrics.dashboardViews, 'views'))} />
+                <HBarChart title="Most Active Users" data={metrics.activeUsers} valueLabel="events" actions={chartExport('Active Users Ranking', barRows(metrics.activeUsers, 'events'))} />
+                <HBarChart title="Action Breakdown" data={metrics.actionCounts} actions={chartExport('Actions', barRows(metrics.actionCounts))} />
+                {showTeam && <HBarChart title="Events by Team" data={metrics.teamCounts} valueLabel="events" actions={chartExport('Events by Team', barRows(metrics.teamCounts, 'events'))} />}
               </div>
             )}
           </div>
         )}
       </Card>
+      <QueryInsights refreshKey={refreshKey} workspace={workspace} rangeDays={rangeDays} exportContext={{ range, team: exportContext.team, ws: exportContext.ws }} />
     </div>
   );
 };
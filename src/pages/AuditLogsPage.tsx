@@ -1,9 +1,13 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Card } from '../components/Card';
-import { fetchDataFile } from '../utils/fetchData';
+import { AuditLog, loadAuditEvents } from '../utils/auditData';
 import { search } from '../utils/search';
-
-interface AuditLog { [k: string]: any }
+import { SearchBox } from '../components/SearchBox';
+import { ExportMenu } from '../components/ExportMenu';
+import { DAY_MS, eventId, logAction, logEntityId, logEntityType, logTime, logUser, logWorkspace } from '../utils/audit';
+import { useVirtualRows } from '../utils/virtual';
+import { useRoute, useRouteParam } from '../utils/router';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
 
 // Helper formatters for form-style rendering
 const formatVal = (v: any): string => {
@@ -44,172 +48,280 @@ const renderStructured = (raw: any): JSX.Element => {
   );
 };
 
+const ROW_HEIGHT = 37;
+
+interface Column { id: string; label: string; get: (l: AuditLog) => string; filter?: string }
+
+// `filter` names the URL param holding that column's dropdown filter
+const COLUMNS: Column[] = [
+  { id: 'timestamp', label: 'Timestamp', get: l => l.timestamp || '' },
+  { id: 'user', label: 'User', get: logUser, filter: 'user' },
+  { id: 'action', label: 'Action', get: logAction, filter: 'action' },
+  { id: 'entity_type', label: 'Entity Type', get: logEntityType, filter: 'etype' },
+  { id: 'entity_name', label: 'Entity Name', get: l => l.entity_name || '' },
+  { id: 'entity_id', label: 'Entity ID', get: logEntityId },
+  { id: 'workspace', label: 'Workspace', get: logWorkspace, filter: 'ws' },
+];
+
+// Filter value for rows where the column is blank ("" already means no filter)
+const EMPTY_FILTER = '__empty__';
+
+const ColumnFilter: React.FC<{ column: Column; rows: AuditLog[] }> = ({ column, rows }) => {
+  const [value, setValue] = useRouteParam(column.filter!);
+  const options = useMemo(() => {
+    const counts = new Map<string, number>();
+    rows.forEach(r => { const v = column.get(r); counts.set(v, (counts.get(v) || 0) + 1); });
+    return Array.from(counts.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  }, [rows, column]);
+  return (
+    <select className="column-filter" value={value} onChange={e => setValue(e.target.value)} onClick={e => e.stopPropagation()} title={`Filter ${column.label}`}>
+      <option value="">All</option>
+      {value && !options.some(([v]) => (v || EMPTY_FILTER) === value) && <option value={value}>{value === EMPTY_FILTER ? '—' : value} (0)</option>}
+      {options.map(([v, n]) => <option key={v} value={v || EMPTY_FILTER}>{v || '—'} ({n})</option>)}
+    </select>
+  );
+};
+
+const RANGE_DAYS: Record<string, number | null> = { week: 7, month: 30, quarter: 90, year: 365, all: null };
+
 export const AuditLogsPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
   const [logs, setLogs] = useState<AuditLog[]>([]);
-  const [query, setQuery] = useState('');
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string|null>(null);
-  const [expanded, setExpanded] = useState<Record<number, boolean>>({});
-  const [showParams, setShowParams] = useState<Record<number, boolean>>({});
-  const [showQueryCtx, setShowQueryCtx] = useState<Record<number, boolean>>({});
+  // The expanded event lives in the URL (#/audit?event=<id>) so it can be linked to
+  const [expandedId, setExpandedId] = useRouteParam('event');
+  const [sortBy, setSortBy] = useRouteParam('sort', 'timestamp');
+  const [sortDir, setSortDir] = useRouteParam('dir', 'desc');
+  // Only the month shards covering the selected range are downloaded
+  const [rangeParam, setRange] = useRouteParam('range', 'month');
+  const rangeDays = RANGE_DAYS[rangeParam] ?? RANGE_DAYS.month;
+  const route = useRoute();
+  const [showParams, setShowParams] = useState<Record<string, boolean>>({});
+  const [showQueryCtx, setShowQueryCtx] = useState<Record<string, boolean>>({});
+  const [expandedHeight, setExpandedHeight] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { team, multi, inTeam, teamLabel } = useTeamScope(refreshKey);
+  // The header selector filters by team, so the Team column only shows in "All teams" mode
+  const columns = useMemo(() => (team === ALL_TEAMS && multi
+    ? [...COLUMNS, { id: 'team', label: 'Team', get: (l: AuditLog) => teamLabel(l._team_id) }]
+    : COLUMNS), [team, multi, teamLabel]);
 
   useEffect(() => {
     setLoading(true); setError(null);
-    fetchDataFile('audit_logs.json', { optional: true })
-      .then(d => setLogs(d))
+    const since = rangeDays === null ? undefined : Date.now() - rangeDays * DAY_MS;
+    loadAuditEvents(refreshKey, { since })
+      .then(d => setLogs(since === undefined ? d : d.filter(l => !(logTime(l) < since))))
       .catch(e => setError(String(e)))
       .finally(() => setLoading(false));
-  }, [refreshKey]);
+  }, [refreshKey, rangeDays]);
 
-  const filtered = query ? logs.filter(l => search(l, query)) : logs;
+  const scoped = useMemo(() => (team === ALL_TEAMS ? logs : logs.filter(l => inTeam(l._team_id))), [logs, team, inTeam]);
+  const searched = useMemo(() => (query ? scoped.filter(l => search(l, query)) : scoped), [scoped, query]);
 
-  const toggle = (idx: number) => setExpanded(e => ({ ...e, [idx]: !e[idx] }));
+  // useRoute() parses a fresh params object each render; key the column filters by value so scrolling doesn't re-filter
+  const filterKey = JSON.stringify(columns.map(c => (c.filter ? route.params[c.filter] ?? null : null)));
+  const filtered = useMemo(() => {
+    const values: (string | null)[] = JSON.parse(filterKey);
+    const active = columns.map((c, i) => [c, values[i] === EMPTY_FILTER ? '' : values[i]] as const).filter(([, v]) => v !== null);
+    const rows = active.length ? searched.filter(l => active.every(([c, v]) => c.get(l) === v)) : searched.slice();
+    const col = columns.find(c => c.id === sortBy) || columns[0];
+    const dir = sortDir === 'asc' ? 1 : -1;
+    return rows.sort((a, b) => dir * col.get(a).localeCompare(col.get(b), undefined, { numeric: true }));
+  }, [searched, columns, filterKey, sortBy, sortDir]);
 
-  const renderRow = (log: AuditLog, idx: number) => {
+  const ids = useMemo(() => filtered.map(eventId), [filtered]);
+  const expandedIndex = expandedId ? ids.indexOf(expandedId) : -1;
+  const win = useVirtualRows(scrollRef, filtered.length, ROW_HEIGHT, expandedIndex >= 0 ? { [expandedIndex]: expandedHeight } : {});
+
+  // Track the expanded row's rendered height so the window below it stays aligned
+  const observer = useRef<ResizeObserver | null>(null);
+  const measureRef = useCallback((el: HTMLTableRowElement | null) => {
+    observer.current?.disconnect();
+    if (!el) return;
+    observer.current = new ResizeObserver(() => setExpandedHeight(el.getBoundingClientRect().height));
+    observer.current.observe(el);
+  }, []);
+
+  // Bring a deep-linked event into view once data has loaded
+  useEffect(() => {
+    if (!loading && expandedIndex >= 0 && scrollRef.current) scrollRef.current.scrollTop = win.offsetOf(expandedIndex);
+  }, [loading]);
+
+  const toggle = (id: string) => setExpandedId(expandedId === id ? '' : id);
+  const sortOn = (id: string) => {
+    if (sortBy === id) setSortDir(sortDir === 'asc' ? 'desc' : 'asc');
+    else { setSortBy(id); setSortDir(id === 'timestamp' ? 'desc' : 'asc'); }
+  };
+
+  const renderRow = (log: AuditLog, id: string, index: number) => {
     const hiddenKeys = ['params','query_context'];
     const hasHidden = hiddenKeys.some(k => log[k] !== undefined && log[k] !== null);
-    const userVal = typeof log.user === 'string' ? log.user : (log.user?.email || log.user_email || log.actor);
     return (
-      <tr key={idx}>
-        <td style={{whiteSpace:'nowrap'}} title={log.timestamp}>{log.timestamp?.replace('T',' ').replace(/\..+/, '') || '—'}</td>
-        <td>{userVal || '—'}</td>
-        <td>{log.action || log.event || log.type || '—'}</td>
-        <td>{log.entity_type || log.object_type || log.resource_type || '—'}</td>
-        <td>{log.entity_name || log.object_name || '—'}</td>
-        <td>{log.entity_id || log.object_id || log.resource_id || '—'}</td>
-        <td>{log.workspace_title || log.workspace_name || '—'}</td>
-        <td>{hasHidden || log.details ? <button className="mini" onClick={() => toggle(idx)}>{expanded[idx] ? 'Hide' : 'Show'}</button> : '—'}</td>
+      <tr key={id} className={`vt-row${index % 2 ? ' alt' : ''}`}>
+        <td title={log.timestamp}>{log.timestamp?.replace('T',' ').replace(/\..+/, '') || '—'}</td>
+        {columns.slice(1).map(c => { const v = c.get(log); return <td key={c.id} title={v}>{v || '—'}</td>; })}
+        <td>{hasHidden || log.details ? <button className="mini" onClick={() => toggle(id)}>{expandedId === id ? 'Hide' : 'Show'}</button> : '—'}</td>
       </tr>
     );
   };
 
+  const renderDetails = (log: AuditLog, id: string) => (
+      <tr className="expanded-row" ref={measureRef}>
+        <td colSpan={columns.length + 1} style={{background:'#12161c'}}>
+          <div style={{display:'flex', flexDirection:'column', gap:'1rem'}}>
+            {/* Form-style key/value layout */}
+            <div style={{display:'flex', justifyContent:'space-between', alignItems:'center'}}>
+              <strong style={{fontSize:'0.8rem', letterSpacing:'.5px', opacity:.85}}>All Fields</strong>
+              <button className="mini" onClick={()=>toggle(id)}>Close</button>
+            </div>
+            <div style={{display:'grid', gridTemplateColumns:'max-content 1fr', gap:'.5rem 1rem', maxHeight:300, overflow:'auto', paddingRight:'.25rem'}}>
+              {(() => {
+                const rows: JSX.Element[] = [];
+                const visited = new Set<string>();
+                const isLarge = (v: any) => typeof v === 'string' && v.length > 500;
+                const pushRow = (path: string, value: any) => {
+                  // Do not skip nested params/query_context (e.g. details.params) – only skip top-level for dedicated sections
+                  if (path === 'params' || path === 'query_context') return;
+                  visited.add(path);
+                  const display = value === null ? 'null' : formatVal(value);
+                  const isJSONish = typeof value === 'string' && /[{[]/.test(value) && /[}\]]/.test(value);
+                  const long = typeof value === 'string' && value.length > 160;
+                  const control = (isJSONish && long) ? (
+                    <textarea
+                      readOnly
+                      style={{width:'100%', fontSize:'0.65rem', lineHeight:'1.1', minHeight: '3.2rem', resize:'vertical'}}
+                      value={value}
+                    />
+                  ) : (
+                    <input style={{width:'100%', fontSize:'0.7rem'}} readOnly value={display} title={typeof value === 'string' ? value : (typeof value === 'object' ? JSON.stringify(value).slice(0,400) : String(value))} />
+                  );
+                  rows.push(<React.Fragment key={path}>
+                    <label title={path} style={{textTransform:'none', fontSize:'0.7rem', opacity:.85}}>{path}</label>
+                    {control}
+                  </React.Fragment>);
+                };
+                const walk = (obj: any, prefix: string = '') => {
+                  if (obj === null) { pushRow(prefix.slice(0,-1), obj); return; }
+                  if (typeof obj !== 'object') { pushRow(prefix.slice(0,-1), obj); return; }
+                  if (Array.isArray(obj)) { pushRow(prefix.slice(0,-1), obj); return; }
+                  for (const [k,v] of Object.entries(obj)) {
+                    const path = prefix + k;
+                    if (v && typeof v === 'object' && !Array.isArray(v) && !(k === 'params' || k === 'query_context')) {
+                      // Recurse but also add a synthetic summary row for this object (if not empty)
+                      if (Object.keys(v).length > 0) {
+                        pushRow(path, v);
+                      } else {
+                        pushRow(path, v); // empty object
+                      }
+                      walk(v, path + '.');
+                    } else {
+                      pushRow(path, v);
+                    }
+                  }
+                };
+                walk(log);
+                if (rows.length === 0) rows.push(<span key="_empty" style={{gridColumn:'1 / -1', opacity:.7}}>No fields.</span>);
+                return rows;
+              })()}
+            </div>
+            {(() => {
+              const paramVal: any = (log as any).params !== undefined ? (log as any).params : (log as any).details?.params;
+              if (paramVal === undefined) return null;
+              return (
+                <div>
+                  <div style={{display:'flex', alignItems:'center', gap:'.5rem'}}>
+                    <strong>params</strong>
+                    <button className="mini" onClick={()=>setShowParams(s=>({...s,[id]:!s[id]}))}>{showParams[id] ? 'Collapse' : 'Expand'}</button>
+                  </div>
+                  {showParams[id] ? renderStructured(paramVal) : <code style={{opacity:.8}}>{previewVal(paramVal)}</code>}
+                </div>
+              );
+            })()}
+            {(() => {
+              const qcVal: any = (log as any).query_context !== undefined ? (log as any).query_context : (log as any).details?.query_context;
+              if (qcVal === undefined) return null;
+              return (
+                <div>
+                  <div style={{display:'flex', alignItems:'center', gap:'.5rem'}}>
+                    <strong>query_context</strong>
+                    <button className="mini" onClick={()=>setShowQueryCtx(s=>({...s,[id]:!s[id]}))}>{showQueryCtx[id] ? 'Collapse' : 'Expand'}</button>
+                  </div>
+                  {showQueryCtx[id] ? renderStructured(qcVal) : <code style={{opacity:.8}}>{previewVal(qcVal)}</code>}
+                </div>
+              );
+            })()}
+            {(() => {
+              const paramVal: any = (log as any).params !== undefined ? (log as any).params : (log as any).details?.params;
+              const qcVal: any = (log as any).query_context !== undefined ? (log as any).query_context : (log as any).details?.query_context;
+              if (paramVal === undefined && qcVal === undefined) {
+                return <code style={{opacity:.7}}>No params/query_context present.</code>;
+              }
+              return null;
+            })()}
+          </div>
+        </td>
+      </tr>  );
+
+  const filterCount = columns.filter(c => c.filter && route.params[c.filter] !== undefined).length;
+  const exportContext = { range: rangeParam, team: team === ALL_TEAMS ? '' : teamLabel(team), q: query, ...Object.fromEntries(columns.filter(c => c.filter).map(c => [c.filter!, route.params[c.filter!]])) };
+
   return (
     <div className="grid auto-fill">
-      <Card className="full-span" title="Audit Logs" actions={<input placeholder="Search" value={query} onChange={e => setQuery(e.target.value)} />}> 
+      <Card className="full-span" title="Audit Logs" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          <select value={rangeParam in RANGE_DAYS ? rangeParam : 'month'} onChange={e => setRange(e.target.value)} title="Time range">
+            <option value="week">Last 7 days</option>
+            <option value="month">Last 30 days</option>
+            <option value="quarter">Last 90 days</option>
+            <option value="year">Last 365 days</option>
+            <option value="all">All time</option>
+          </select>
+          <SearchBox value={query} onChange={setQuery} records={logs} />
+          <ExportMenu name="Audit Logs" rows={filtered} context={exportContext} />
+        </div>
+      }>
         {loading && <p>Loading…</p>}
         {error && <p className="error">{error}</p>}
         {!loading && !error && (
-          <div className="table-wrapper">
-            <table>
-              <thead>
-                <tr>
-                  <th>Timestamp</th>
-                  <th>User</th>
-                  <th>Action</th>
-                  <th>Entity Type</th>
-                  <th>Entity Name</th>
-                  <th>Entity ID</th>
-                  <th>Workspace</th>
-                  <th>More</th>
-                </tr>
-              </thead>
-              <tbody>
-                {filtered.map((log, idx) => (
-                  <React.Fragment key={idx}>
-                    {renderRow(log, idx)}
-                    {expanded[idx] && (
-                      <tr className="expanded-row">
-                        <td colSpan={8} style={{background:'#12161c'}}>
-                          <div style={{display:'flex', flexDirection:'column', gap:'1rem'}}>
-                            {/* Form-style key/value layout */}
-                            <div style={{display:'flex', justifyContent:'space-between', alignItems:'center'}}>
-                              <strong style={{fontSize:'0.8rem', letterSpacing:'.5px', opacity:.85}}>All Fields</strong>
-                              <button className="mini" onClick={()=>toggle(idx)}>Close</button>
-                            </div>
-                            <div style={{display:'grid', gridTemplateColumns:'max-content 1fr', gap:'.5rem 1rem', maxHeight:300, overflow:'auto', paddingRight:'.25rem'}}>
-                              {(() => {
-                                const rows: JSX.Element[] = [];
-                                const visited = new Set<string>();
-                                const isLarge = (v: any) => typeof v === 'string' && v.length > 500;
-                                const pushRow = (path: string, value: any) => {
-                                  // Do not skip nested params/query_context (e.g. details.params) – only skip top-level for dedicated sections
-                                  if (path === 'params' || path === 'query_context') return;
-                                  visited.add(path);
-                                  const display = value === null ? 'null' : formatVal(value);
-                                  const isJSONish = typeof value === 'string' && /[{[]/.test(value) && /[}\]]/.test(value);
-                                  const long = typeof value === 'string' && value.length > 160;
-                                  const control = (isJSONish && long) ? (
-                                    <textarea
-                                      readOnly
-                                      style={{width:'100%', fontSize:'0.65rem', lineHeight:'1.1', minHeight: '3.2rem', resize:'vertical'}}
-                                      value={value}
-                                    />
-                                  ) : (
-                                    <input style={{width:'100%', fontSize:'0.7rem'}} readOnly value={display} title={typeof value === 'string' ? value : (typeof value === 'object' ? JSON.stringify(value).slice(0,400) : String(value))} />
-                                  );
-                                  rows.push(<React.Fragment key={path}>
-                                    <label title={path} style={{textTransform:'none', fontSize:'0.7rem', opacity:.85}}>{path}</label>
-                                    {control}
-                                  </React.Fragment>);
-                                };
-                                const walk = (obj: any, prefix: string = '') => {
-                                  if (obj === null) { pushRow(prefix.slice(0,-1), obj); return; }
-                                  if (typeof obj !== 'object') { pushRow(prefix.slice(0,-1), obj); return; }
-                                  if (Array.isArray(obj)) { pushRow(prefix.slice(0,-1), obj); return; }
-                                  for (const [k,v] of Object.entries(obj)) {
-                                    const path = prefix + k;
-                                    if (v && typeof v === 'object' && !Array.isArray(v) && !(k === 'params' || k === 'query_context')) {
-                                      // Recurse but also add a synthetic summary row for this object (if not empty)
-                                      if (Object.keys(v).length > 0) {
-                                        pushRow(path, v);
-                                      } else {
-                                        pushRow(path, v); // empty object
-                                      }
-                                      walk(v, path + '.');
-                                    } else {
-                                      pushRow(path, v);
-                                    }
-                                  }
-                                };
-                                walk(log);
-                                if (rows.length === 0) rows.push(<span key="_empty" style={{gridColumn:'1 / -1', opacity:.7}}>No fields.</span>);
-                                return rows;
-                              })()}
-                            </div>
-                            {(() => {
-                              const paramVal: any = (log as any).params !== undefined ? (log as any).params : (log as any).details?.params;
-                              if (paramVal === undefined) return null;
-                              return (
-                                <div>
-                                  <div style={{display:'flex', alignItems:'center', gap:'.5rem'}}>
-                                    <strong>params</strong>
-                                    <button className="mini" onClick={()=>setShowParams(s=>({...s,[idx]:!s[idx]}))}>{showParams[idx] ? 'Collapse' : 'Expand'}</button>
-                                  </div>
-                                  {showParams[idx] ? renderStructured(paramVal) : <code style={{opacity:.8}}>{previewVal(paramVal)}</code>}
-                                </div>
-                              );
-                            })()}
-                            {(() => {
-                              const qcVal: any = (log as any).query_context !== undefined ? (log as any).query_context : (log as any).details?.query_context;
-                              if (qcVal === undefined) return null;
-                              return (
-                                <div>
-                                  <div style={{display:'flex', alignItems:'center', gap:'.5rem'}}>
-                                    <strong>query_context</strong>
-                                    <button className="mini" onClick={()=>setShowQueryCtx(s=>({...s,[idx]:!s[idx]}))}>{showQueryCtx[idx] ? 'Collapse' : 'Expand'}</button>
-                                  </div>
-                                  {showQueryCtx[idx] ? renderStructured(qcVal) : <code style={{opacity:.8}}>{previewVal(qcVal)}</code>}
-                                </div>
-                              );
-                            })()}
-                            {(() => {
-                              const paramVal: any = (log as any).params !== undefined ? (log as any).params : (log as any).details?.params;
-                              const qcVal: any = (log as any).query_context !== undefined ? (log as any).query_context : (log as any).details?.query_context;
-                              if (paramVal === undefined && qcVal === undefined) {
-                                return <code style={{opacity:.7}}>No params/query_context present.</code>;
-                              }
-                              return null;
-                            })()}
-                          </div>
-                        </td>
-                      </tr>
-                    )}
-                  </React.Fragment>
-                ))}
-              </tbody>
-            </table>
-            {filtered.length === 0 && <p>No logs.</p>}
-          </div>
+          <>
+            <p className="rows-counter">
+              {filtered.length.toLocaleString()} of {scoped.length.toLocaleString()} rows matching
+              {filterCount > 0 && <> · {filterCount} column filter{filterCount > 1 ? 's' : ''}</>}
+            </p>
+            <div className="table-wrapper vt" ref={scrollRef}>
+              <table>
+                <thead>
+                  <tr>
+                    {columns.map(c => (
+                      <th key={c.id} aria-sort={sortBy === c.id ? (sortDir === 'asc' ? 'ascending' : 'descending') : 'none'}>
+                        <button className="th-sort" onClick={() => sortOn(c.id)}>
+                          {c.label}{sortBy === c.id ? (sortDir === 'asc' ? ' ▲' : ' ▼') : ''}
+                        </button>
+                        {c.filter && <ColumnFilter column={c} rows={searched} />}
+                      </th>
+                    ))}
+                    <th>More</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {win.padTop > 0 && <tr style={{height: win.padTop}} aria-hidden="true" />}
+                  {filtered.slice(win.start, win.end).map((log, i) => {
+                    const index = win.start + i;
+                    const id = ids[index];
+                    return (
+                      <React.Fragment key={id}>
+                        {renderRow(log, id, index)}
+                        {expandedId === id && renderDetails(log, id)}
+                      </React.Fragment>
+                    );
+                  })}
+                  {win.padBottom > 0 && <tr style={{height: win.padBottom}} aria-hidden="true" />}
+                </tbody>
+              </table>
+              {filtered.length === 0 && <p>No logs.</p>}
+            </div>
+          </>
         )}
       </Card>
     </div>
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { fetchDataFile } from '../utils/fetchData';
+import { search } from '../utils/search';
+import { SearchBox } from '../components/SearchBox';
+import { ExportMenu } from '../components/ExportMenu';
+import { useRouteParam } from '../utils/router';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
+
+interface ChangeEntry {
+  id: string;
+  date: string;
+  type: string;
+  team_id?: string | number;
+  team?: string;
+  subject?: string;
+  field?: string;
+  before?: any;
+  after?: any;
+  [k: string]: any;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  member_added: 'Member added',
+  member_removed: 'Member removed',
+  team_role: 'Team role',
+  user_type: 'User type',
+  creator_on_workspaces: 'Creator workspaces',
+  team_setting: 'Team setting',
+};
+
+const fmt = (v: any): string => {
+  if (v === null || v === undefined || v === '') return '—';
+  if (Array.isArray(v)) return v.length ? v.join(', ') : '(none)';
+  if (typeof v === 'object') return Object.entries(v).map(([k, x]) => `${k}: ${fmt(x)}`).join(' · ');
+  return String(v);
+};
+
+const describe = (c: ChangeEntry): React.ReactNode => {
+  switch (c.type) {
+    case 'member_added': return <>joined as {fmt(c.after?.team_role)} / {fmt(c.after?.user_type)}{c.after?.creator_on_workspaces?.length ? <> (creator on {fmt(c.after.creator_on_workspaces)})</> : null}</>;
+    case 'member_removed': return <>left (was {fmt(c.before?.team_role)} / {fmt(c.before?.user_type)})</>;
+    case 'creator_on_workspaces': {
+      const before: string[] = c.before || [], after: string[] = c.after || [];
+      const added = after.filter(w => !before.includes(w)), removed = before.filter(w => !after.includes(w));
+      return <>{added.length > 0 && <>+ {added.join(', ')} </>}{removed.length > 0 && <>− {removed.join(', ')}</>}</>;
+    }
+    default: return <><code>{c.field}</code>: {fmt(c.before)} → {fmt(c.after)}</>;
+  }
+};
+
+export const ChangesPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
+  const [changes, setChanges] = useState<ChangeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
+  const [type, setType] = useRouteParam('type', 'ALL');
+  const [from, setFrom] = useRouteParam('from');
+  const [to, setTo] = useRouteParam('to');
+  const { team, multi, inTeam, teamLabel } = useTeamScope(refreshKey);
+
+  useEffect(() => {
+    setLoading(true); setError(null);
+    fetchDataFile('changes.json', { optional: true })
+      .then(d => setChanges(Array.isArray(d) ? d : []))
+      .catch(e => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [refreshKey]);
+
+  const filtered = useMemo(() => changes.filter(c => {
+    if (!inTeam(c.team_id)) return false;
+    if (type !== 'ALL' && c.type !== type) return false;
+    if (from && c.date < from) return false;
+    if (to && c.date > to) return false;
+    if (query && !search(c, query)) return false;
+    return true;
+  }), [changes, type, from, to, query, inTeam]);
+
+  // Timeline grouped by snapshot date (newest first)
+  const byDate = useMemo(() => {
+    const groups = new Map<string, ChangeEntry[]>();
+    for (const c of filtered) {
+      if (!groups.has(c.date)) groups.set(c.date, []);
+      groups.get(c.date)!.push(c);
+    }
+    return Array.from(groups.entries()).sort((a, b) => b[0].localeCompare(a[0]));
+  }, [filtered]);
+
+  return (
+    <div className="grid auto-fill">
+      <Card className="full-span" title="Changes" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          <select value={type} onChange={e => setType(e.target.value)} title="Change type">
+            <option value="ALL">All changes</option>
+            {Object.entries(TYPE_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+          </select>
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} title="From date" style={{width:'auto'}} />
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} title="To date" style={{width:'auto'}} />
+          <SearchBox value={query} onChange={setQuery} records={changes} />
+          <ExportMenu name="Changes" rows={filtered} context={{ team: team === ALL_TEAMS ? '' : teamLabel(team), type: type === 'ALL' ? '' : type, from, to, q: query }} />
+        </div>
+      }>
+        {loading && <p>Loading…</p>}
+        {error && <p className="error">{error}</p>}
+        {!loading && !error && changes.length === 0 && <p>No changes recorded yet. Changes appear once two dated snapshots exist.</p>}
+        {!loading && !error && changes.length > 0 && (
+          <div className="timeline">
+            {byDate.map(([date, entries]) => (
+              <div key={date} className="timeline-day">
+                <h3>{date} <span>{entries.length} change{entries.length === 1 ? '' : 's'}</span></h3>
+                <ul>
+                  {entries.map(c => (
+                    <li key={c.id} className={`change-${c.type}`}>
+                      <span className="change-type">{TYPE_LABELS[c.type] || c.type}</span>
+                      <strong>{c.subject || '—'}</strong>
+                      {team === ALL_TEAMS && multi && <span className="dim">{teamLabel(c.team_id)}</span>}
+                      <span>{describe(c)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            {filtered.length === 0 && <p>No changes match.</p>}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { search } from '../utils/search';
+import { SearchBox } from '../components/SearchBox';
+import { ExportMenu } from '../components/ExportMenu';
+import { fetchDataFile } from '../utils/fetchData';
+import { useRouteParam } from '../utils/router';
+import { DAY_MS, DetailTarget, orderWorkspaces, shortEntityType } from '../utils/audit';
+import { EntityRollupRow, loadRollups } from '../utils/auditData';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
+import { Asset } from '../../shared/model.mjs';
+
+interface ContentRow {
+  key: string;
+  asset: Asset;
+  workspace: string;
+  /** Audit entity type seen for this asset, for the drill-down link */
+  entity_type: string | null;
+  views: number;
+  last_view: string | null;
+  /** First create event in the archive, when the API gave no created date */
+  first_created: string | null;
+  stale: boolean;
+}
+
+const KIND_LABELS: Record<string, string> = { chart: 'Chart', dashboard: 'Dashboard', dataset: 'Dataset' };
+const isView = (action: string) => /:view$/.test(action);
+const fmtDate = (iso: string | null) => (iso ? iso.slice(0, 10) : '—');
+const assetKey = (kind: string, workspace: string, id: unknown) => `${kind}|${workspace}|${id}`;
+
+export const ContentPage: React.FC<{ refreshKey: number; onSelect?: (t: DetailTarget) => void }> = ({ refreshKey, onSelect }) => {
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [daily, setDaily] = useState<EntityRollupRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
+  const [kind, setKind] = useRouteParam('kind', 'ALL');
+  const [workspace, setWorkspace] = useRouteParam('ws', 'ALL');
+  const [daysParam, setDaysParam] = useRouteParam('days', '90', { replace: true });
+  const [onlyParam, setOnlyParam] = useRouteParam('only');
+  const days = Math.max(1, Number(daysParam) || 90);
+  const onlyStale = onlyParam === '1';
+  const { team, multi, inTeam, teamLabel } = useTeamScope(refreshKey);
+  const showTeam = team === ALL_TEAMS && multi;
+
+  useEffect(() => {
+    setLoading(true); setError(null);
+    Promise.all([fetchDataFile('content.json', { optional: true }), loadRollups(refreshKey)])
+      .then(([c, r]) => { setAssets(c); setDaily(r.entities); })
+      .catch(e => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [refreshKey]);
+
+  // Views, last view and first create per chart / dashboard, keyed by kind, workspace id and entity id
+  const activity = useMemo(() => {
+    const map = new Map<string, { views: number; last_view: string | null; first_created: string | null; entity_type: string }>();
+    for (const r of daily) {
+      if (!r.entity_id) continue;
+      const key = assetKey(shortEntityType(r.entity_type), r.workspace_id, r.entity_id);
+      const a = map.get(key) || { views: 0, last_view: null, first_created: null, entity_type: r.entity_type };
+      if (isView(r.action)) {
+        a.views += r.count;
+        if (!a.last_view || r.date > a.last_view) a.last_view = r.date;
+      }
+      if (/:create$/.test(r.action) && (!a.first_created || r.date < a.first_created)) a.first_created = r.date;
+      map.set(key, a);
+    }
+    return map;
+  }, [daily]);
+
+  const rows = useMemo<ContentRow[]>(() => {
+    const cutoff = new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+    const base = assets.filter(asset => inTeam(asset._team_id)).map(asset => {
+      const a = activity.get(assetKey(asset.kind, asset.workspace_name, asset.id));
+      return {
+        key: assetKey(asset.kind, asset.workspace_name, asset.id),
+        asset,
+        workspace: asset.workspace_title || asset.workspace_name,
+        entity_type: a?.entity_type ?? null,
+        views: a?.views ?? 0,
+        last_view: a?.last_view ?? null,
+        first_created: a?.first_created ?? null,
+        stale: false,
+      };
+    });
+    // Datasets are not viewed directly: count the views of the charts built on them
+    const byDatasource = new Map<string, ContentRow[]>();
+    for (const r of base) {
+      if (r.asset.kind !== 'chart' || !r.asset.datasource) continue;
+      const key = `${r.asset.workspace_name}|${r.asset.datasource}`;
+      byDatasource.set(key, [...(byDatasource.get(key) || []), r]);
+    }
+    for (const r of base) {
+      if (r.asset.kind !== 'dataset') continue;
+      const name = r.asset.schema ? `${r.asset.schema}.${r.asset.name}` : r.asset.name;
+      for (const c of byDatasource.get(`${r.asset.workspace_name}|${name}`) || []) {
+        r.views += c.views;
+        if (c.last_view && (!r.last_view || c.last_view > r.last_view)) r.last_view = c.last_view;
+      }
+    }
+    for (const r of base) r.stale = !r.last_view || r.last_view < cutoff;
+    return base.sort((x, y) => Number(y.stale) - Number(x.stale) || (x.last_view || '').localeCompare(y.last_view || '') || x.asset.name.localeCompare(y.asset.name));
+  }, [assets, activity, days, inTeam]);
+
+  const workspaces = useMemo(() => orderWorkspaces(new Set(rows.map(r => r.workspace))), [rows]);
+  const searchable = (r: ContentRow) => ({ name: r.asset.name, kind: r.asset.kind, workspace: r.workspace, owners: r.asset.owners.join(', '), viz_type: r.asset.viz_type, datasource: r.asset.datasource });
+  const filtered = rows.filter(r =>
+    (kind === 'ALL' || r.asset.kind === kind)
+    && (workspace === 'ALL' || r.workspace === workspace)
+    && (!onlyStale || r.stale)
+    && (!query || search(searchable(r), query)));
+  const stale = rows.filter(r => r.stale && (kind === 'ALL' || r.asset.kind === kind) && (workspace === 'ALL' || r.workspace === workspace));
+
+  const exportRow = (r: ContentRow) => ({
+    kind: r.asset.kind,
+    id: r.asset.id,
+    name: r.asset.name,
+    ...(showTeam ? { team: teamLabel(r.asset._team_id) } : {}),
+    workspace: r.workspace,
+    owners: r.asset.owners.join(', '),
+    created_by: r.asset.created_by || '',
+    created_on: r.asset.created_on || r.first_created || '',
+    changed_by: r.asset.changed_by || '',
+    changed_on: r.asset.changed_on || '',
+    views: r.views,
+    last_view: r.last_view || '',
+    stale: r.stale,
+    url: r.asset.url || '',
+  });
+
+  const nameCell = (r: ContentRow) => {
+    if (!onSelect || r.asset.kind === 'dataset') return r.asset.name;
+    const target: DetailTarget = { kind: 'entity', entityType: r.entity_type || `urn:preset:ws:${r.asset.kind}`, entityId: String(r.asset.id), workspace: r.asset.workspace_name };
+    return <button className="link" onClick={() => onSelect(target)}>{r.asset.name}</button>;
+  };
+
+  return (
+    <div className="grid auto-fill">
+      <Card className="full-span" title="Content" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          <select value={kind} onChange={e => setKind(e.target.value)} title="Asset type">
+            <option value="ALL">All content</option>
+            {Object.entries(KIND_LABELS).map(([k, label]) => <option key={k} value={k}>{label}s</option>)}
+          </select>
+          {workspaces.length > 1 && (
+            <select value={workspace} onChange={e => setWorkspace(e.target.value)} title="Workspace">
+              <option value="ALL">All workspaces</option>
+              {workspaces.map(w => <option key={w} value={w}>{w}</option>)}
+            </select>
+          )}
+          <label style={{fontSize:'.75rem', display:'flex', gap:'.35rem', alignItems:'center'}} title="Flag content without views in this many days">
+            Stale after
+            <input type="number" min={1} value={days} onChange={e => setDaysParam(String(Math.max(1, Number(e.target.value) || 1)))} style={{width:70}} /> days
+          </label>
+          <label style={{fontSize:'.75rem', display:'flex', gap:'.35rem', alignItems:'center'}}>
+            <input type="checkbox" checked={onlyStale} onChange={e => setOnlyParam(e.target.checked ? '1' : '')} style={{width:'auto'}} /> Stale only ({stale.length})
+          </label>
+          <SearchBox value={query} onChange={setQuery} records={rows.map(searchable)} />
+          <ExportMenu name="Content" rows={() => filtered.map(exportRow)} context={{ team: team === ALL_TEAMS ? '' : teamLabel(team), kind: kind === 'ALL' ? '' : kind, ws: workspace === 'ALL' ? '' : workspace, stale: `${days}d`, only: onlyStale, q: query }} />
+          <ExportMenu name="Cleanup Candidates" label="Export stale" rows={() => stale.map(exportRow)} context={{ team: team === ALL_TEAMS ? '' : teamLabel(team), kind: kind === 'ALL' ? '' : kind, ws: workspace === 'ALL' ? '' : workspace, stale: `${days}d` }} />
+        </div>
+      }>
+        {loading && <p>Loading…</p>}
+        {error && <p className="error">{error}</p>}
+        {!loading && !error && assets.length === 0 && <p>No content inventory in this snapshot. Charts, dashboards and datasets are listed from each workspace's API by the fetch script.</p>}
+        {!loading && !error && assets.length > 0 && (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Type</th>
+                  <th>Workspace</th>
+                  <th>Owners</th>
+                  <th>Created</th>
+                  <th>Changed</th>
+                  <th title="Dataset views are the views of charts built on the dataset">Views</th>
+                  <th>Last View</th>
+                  <th>Flag</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(r => (
+                  <tr key={r.key}>
+                    <td>
+                      {nameCell(r)}
+                      {(r.asset.viz_type || r.asset.datasource || r.asset.database) && <div className="dim">{[r.asset.viz_type, r.asset.datasource, r.asset.database].filter(Boolean).join(' · ')}</div>}
+                    </td>
+                    <td>{KIND_LABELS[r.asset.kind] || r.asset.kind}{r.asset.published === false && <span className="dim"> (draft)</span>}</td>
+                    <td>{r.workspace}{showTeam && <div className="dim">{teamLabel(r.asset._team_id)}</div>}</td>
+                    <td>{r.asset.owners.join(', ') || '—'}</td>
+                    <td title={r.asset.created_by ? `by ${r.asset.created_by}` : undefined}>
+                      {r.asset.created_on ? fmtDate(r.asset.created_on) : r.first_created ? fmtDate(r.first_created) : r.asset.created_on_humanized ? <span className="dim">{r.asset.created_on_humanized}</span> : '—'}
+                    </td>
+                    <td title={r.asset.changed_by ? `by ${r.asset.changed_by}` : undefined}>{fmtDate(r.asset.changed_on)}</td>
+                    <td>{r.views.toLocaleString()}</td>
+                    <td>{fmtDate(r.last_view)}</td>
+                    <td>{r.stale ? <span className="flag" title={`No views in the last ${days} days`}>Cleanup?</span> : ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filtered.length === 0 && <p>No content matches.</p>}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
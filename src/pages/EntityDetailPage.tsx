@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { ExportMenu } from '../components/ExportMenu';
+import { AuditLog, loadAuditEvents, loadRollups, monthsWhere } from '../utils/auditData';
+import { DetailTarget, actionFamily, logAction, logTime, logUser, logWorkspace, matchesEntity, shortEntityType } from '../utils/audit';
+import { useTeamScope } from '../utils/teams';
+
+type EntityTarget = Extract<DetailTarget, { kind: 'entity' }>;
+
+const fmtTime = (ms: number) => (isNaN(ms) ? '—' : new Date(ms).toISOString().replace('T', ' ').slice(0, 19));
+
+export const EntityDetailPage: React.FC<{ refreshKey: number; target: EntityTarget; onBack: () => void; onSelect: (t: DetailTarget) => void }>
+ = ({ refreshKey, target, onBack, onSelect }) => {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [family, setFamily] = useState('ALL');
+  const { inTeam } = useTeamScope(refreshKey);
+
+  useEffect(() => {
+    setLoading(true); setError(null);
+    // Only the month shards in which this entity appears
+    loadRollups(refreshKey).then(r => loadAuditEvents(refreshKey, { months: monthsWhere(r.entities, r => r.entity_type === target.entityType && r.entity_id === target.entityId && r.workspace_id === target.workspace && inTeam(r.team_id)) }))
+      .then(d => setLogs(d))
+      .catch(e => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [refreshKey, target.entityType, target.entityId, target.workspace, inTeam]);
+
+  // Oldest first so name history and creator fall out in order
+  const events = useMemo(() => logs
+    .filter(l => matchesEntity(l, target) && inTeam(l._team_id))
+    .sort((a, b) => (logTime(a) || 0) - (logTime(b) || 0)), [logs, target, inTeam]);
+
+  const summary = useMemo(() => {
+    const names: { name: string; since: number }[] = [];
+    for (const e of events) {
+      if (e.entity_name && names[names.length - 1]?.name !== e.entity_name) names.push({ name: e.entity_name, since: logTime(e) });
+    }
+    const created = events.find(e => logAction(e).endsWith(':create'));
+    const owners: string[] = (events.find(e => Array.isArray(e.details?.owners) && e.details.owners.length)?.details?.owners || [])
+      .map((o: any) => o.email || [o.first_name, o.last_name].filter(Boolean).join(' '));
+    const viewers = new Map<string, { user: string; workspace: string; views: number; last: number }>();
+    for (const e of events) {
+      if (actionFamily(logAction(e)) !== 'view') continue;
+      const user = logUser(e) || 'Unknown';
+      const ws = logWorkspace(e) || '—';
+      const k = `${user}|${ws}`;
+      const v = viewers.get(k) || { user, workspace: ws, views: 0, last: 0 };
+      v.views += 1;
+      v.last = Math.max(v.last, logTime(e) || 0);
+      viewers.set(k, v);
+    }
+    return {
+      names,
+      created,
+      owners,
+      viewers: Array.from(viewers.values()).sort((a, b) => b.views - a.views),
+      workspaceTitle: events.map(logWorkspace).find(Boolean) || target.workspace,
+    };
+  }, [events, target]);
+
+  const timeline = events.filter(e => family === 'ALL' || actionFamily(logAction(e)) === family).slice().reverse();
+  const currentName = summary.names[summary.names.length - 1]?.name || `${shortEntityType(target.entityType)} ${target.entityId}`;
+
+  return (
+    <div className="grid auto-fill">
+      <Card className="full-span" title={`${shortEntityType(target.entityType)} · ${currentName}`} actions={<button onClick={onBack}>← Back</button>}>
+        {loading && <p>Loading…</p>}
+        {error && <p className="error">{error}</p>}
+        {!loading && !error && events.length === 0 && <p>No audit events for this {shortEntityType(target.entityType)}.</p>}
+        {!loading && !error && events.length > 0 && (
+          <dl className="detail-facts">
+            <dt>Type</dt><dd>{target.entityType}</dd>
+            <dt>ID</dt><dd>{target.entityId}</dd>
+            <dt>Workspace</dt><dd>{summary.workspaceTitle}</dd>
+            <dt>Creator</dt>
+            <dd>
+              {summary.created
+                ? <><button className="link" onClick={() => onSelect({ kind: 'user', user: logUser(summary.created!) })}>{logUser(summary.created)}</button> · {fmtTime(logTime(summary.created))}</>
+                : summary.owners.length ? <>Owners: {summary.owners.join(', ')}</> : <>Unknown (first seen {fmtTime(logTime(events[0]))})</>}
+            </dd>
+            <dt>Events</dt><dd>{events.length}</dd>
+          </dl>
+        )}
+      </Card>
+      {!loading && !error && events.length > 0 && (
+        <>
+          <Card title="Name History">
+            <ul className="plain-list">
+              {summary.names.map((n, i) => <li key={i}><strong>{n.name}</strong> <span className="dim">since {fmtTime(n.since)}</span></li>)}
+            </ul>
+          </Card>
+          <Card title="Viewers" actions={summary.viewers.length > 0 &&
+            <ExportMenu name="Viewers" rows={summary.viewers.map(v => ({ ...v, last: fmtTime(v.last) }))} context={{ [shortEntityType(target.entityType)]: target.entityId }} />
+          }>
+            {summary.viewers.length === 0 && <p>No views recorded.</p>}
+            {summary.viewers.length > 0 && (
+              <div className="table-wrapper">
+                <table>
+                  <thead><tr><th>User</th><th>Workspace</th><th>Views</th><th>Last Viewed</th></tr></thead>
+                  <tbody>
+                    {summary.viewers.map(v => (
+                      <tr key={`${v.user}|${v.workspace}`}>
+                        <td><button className="link" onClick={() => onSelect({ kind: 'user', user: v.user })}>{v.user}</button></td>
+                        <td>{v.workspace}</td>
+                        <td>{v.views}</td>
+                        <td>{fmtTime(v.last)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+          <Card className="full-span" title="Timeline" actions={
+            <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+              <select value={family} onChange={e => setFamily(e.target.value)} title="Event type">
+                <option value="ALL">All events</option>
+                <option value="create">Create</option>
+                <option value="update">Update</option>
+                <option value="view">View</option>
+                <option value="delete">Delete</option>
+              </select>
+              <ExportMenu name="Entity Timeline" rows={timeline} context={{ [shortEntityType(target.entityType)]: target.entityId, type: family === 'ALL' ? '' : family }} />
+            </div>
+          }>
+            <div className="table-wrapper">
+              <table>
+                <thead><tr><th>Timestamp</th><th>Action</th><th>User</th><th>Name</th><th>Workspace</th></tr></thead>
+                <tbody>
+                  {timeline.map((e, i) => (
+                    <tr key={e._event_key || i}>
+                      <td style={{whiteSpace:'nowrap'}}>{fmtTime(logTime(e))}</td>
+                      <td>{logAction(e) || '—'}</td>
+                      <td><button className="link" onClick={() => onSelect({ kind: 'user', user: logUser(e) })}>{logUser(e) || '—'}</button></td>
+                      <td>{e.entity_name || '—'}</td>
+                      <td>{logWorkspace(e) || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {timeline.length === 0 && <p>No events of this type.</p>}
+            </div>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
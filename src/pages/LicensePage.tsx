@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { fetchDataFile } from '../utils/fetchData';
+import { search } from '../utils/search';
+import { SearchBox } from '../components/SearchBox';
+import { ExportMenu } from '../components/ExportMenu';
+import { useRouteParam } from '../utils/router';
+import { DAY_MS, isAuthoring } from '../utils/audit';
+import { UserRollupRow, loadRollups } from '../utils/auditData';
+import { ALL_TEAMS, teamKey, useTeamScope } from '../utils/teams';
+import { Team, TeamMember } from '../../shared/model.mjs';
+
+interface SeatRow {
+  key: string;
+  team_id: string;
+  user_id?: string | number;
+  name: string;
+  email: string;
+  team_role: string;
+  user_type: string;
+  last_seen?: number;
+  events: number;
+  last_authoring_action?: string;
+  last_authoring_at?: number;
+  candidate: boolean;
+}
+
+const fmtDate = (ms?: number) => (ms ? new Date(ms).toISOString().slice(0, 10) : '—');
+
+interface Activity { last_seen?: number; events: number; last_authoring_action?: string; last_authoring_at?: number }
+
+// Rollups written before teams were tracked have no team_id; their activity counts for every team
+const combine = (a?: Activity, b?: Activity): Activity => {
+  if (!a || !b) return a || b || { events: 0 };
+  const authoring = (b.last_authoring_at || 0) > (a.last_authoring_at || 0) ? b : a;
+  return { events: a.events + b.events, last_seen: Math.max(a.last_seen || 0, b.last_seen || 0) || undefined, last_authoring_action: authoring.last_authoring_action, last_authoring_at: authoring.last_authoring_at };
+};
+
+const SeatMeter: React.FC<{ label: string; used: number; soft?: number | null; hard?: number | null }> = ({ label, used, soft, hard }) => {
+  const max = Math.max(hard || 0, soft || 0, used, 1);
+  const over = soft ? used > soft : false;
+  return (
+    <div className="seat-meter">
+      <div className="seat-meter-head"><span>{label}</span><strong className={over ? 'error' : ''}>{used}{soft ? ` / ${soft}` : ''}{hard && hard !== soft ? ` (hard ${hard})` : ''}</strong></div>
+      <div className="hbar-bar-wrap">
+        <div className="hbar-bar" style={{width: (used / max * 100) + '%'}} />
+        {soft ? <div className="seat-limit" style={{left: Math.min(soft / max * 100, 99) + '%'}} title={`Soft limit ${soft}`} /> : null}
+      </div>
+    </div>
+  );
+};
+
+export const LicensePage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [daily, setDaily] = useState<UserRollupRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
+  const [daysParam, setDaysParam] = useRouteParam('days', '30', { replace: true });
+  const [onlyParam, setOnlyParam] = useRouteParam('only');
+  const days = Math.max(1, Number(daysParam) || 30);
+  const onlyCandidates = onlyParam === '1';
+  const { team: scope, multi, inTeam, teamLabel } = useTeamScope(refreshKey);
+  const showTeam = scope === ALL_TEAMS && multi;
+
+  useEffect(() => {
+    setLoading(true); setError(null);
+    Promise.all([
+      fetchDataFile('teams.json', { optional: true }),
+      fetchDataFile('team_members.json', { optional: true }),
+      loadRollups(refreshKey)
+    ]).then(([t, m, r]) => { setTeams(t); setMembers(m); setDaily(r.users); })
+      .catch(e => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [refreshKey]);
+
+  // Per-user activity summary keyed by team id and lower-cased email (day resolution, from the daily rollups)
+  const activity = useMemo(() => {
+    const map = new Map<string, Activity>();
+    for (const r of daily) {
+      if (!r.user) continue;
+      const user = `${r.team_id || ''}|${r.user.toLowerCase()}`;
+      const ts = Date.parse(`${r.date}T00:00:00Z`);
+      const a = map.get(user) || { events: 0 };
+      a.events += r.count;
+      if (!a.last_seen || ts > a.last_seen) a.last_seen = ts;
+      if (isAuthoring(r.action) && (!a.last_authoring_at || ts > a.last_authoring_at)) {
+        a.last_authoring_at = ts;
+        a.last_authoring_action = r.action;
+      }
+      map.set(user, a);
+    }
+    return map;
+  }, [daily]);
+
+  const rows = useMemo<SeatRow[]>(() => {
+    const cutoff = Date.now() - days * DAY_MS;
+    return members.filter(m => inTeam(m._team_id)).map(m => {
+      const email = m.email || '';
+      const a = combine(activity.get(`${m._team_id}|${email.toLowerCase()}`), activity.get(`|${email.toLowerCase()}`));
+      const userType = m.user_type || '—';
+      return {
+        key: `${m._team_id}|${m.user_id ?? email}`,
+        team_id: String(m._team_id),
+        user_id: m.user_id,
+        name: [m.first_name, m.last_name].filter(Boolean).join(' ') || '—',
+        email: email || '—',
+        team_role: m.team_role_name || '—',
+        user_type: userType,
+        ...a,
+        candidate: userType === 'CREATOR' && (!a.last_authoring_at || a.last_authoring_at < cutoff),
+      };
+    }).sort((x, y) => Number(y.candidate) - Number(x.candidate) || (x.last_authoring_at || 0) - (y.last_authoring_at || 0));
+  }, [members, activity, days, inTeam]);
+
+  const filtered = rows.filter(r => (!onlyCandidates || r.candidate) && (!query || search(r, query)));
+  const candidates = rows.filter(r => r.candidate);
+
+  const seats = useMemo(() => teams.filter(t => inTeam(teamKey(t))).map(t => {
+    const teamMembers = members.filter(m => String(m._team_id) === teamKey(t));
+    const creators = teamMembers.filter(m => m.user_type === 'CREATOR').length;
+    const viewers = teamMembers.filter(m => m.user_type === 'VIEWER').length;
+    return { team: t, creators, viewers, candidates: candidates.filter(r => r.team_id === teamKey(t)).length };
+  }), [teams, members, candidates, inTeam]);
+
+  const exportRow = (r: SeatRow) => ({
+    ...(showTeam ? { team: teamLabel(r.team_id) } : {}),
+    user_id: r.user_id,
+    name: r.name,
+    email: r.email,
+    team_role: r.team_role,
+    user_type: r.user_type,
+    last_seen: fmtDate(r.last_seen),
+    events: r.events,
+    last_authoring_action: r.last_authoring_action || '',
+    last_authoring_at: fmtDate(r.last_authoring_at),
+    downgrade_candidate: r.candidate,
+  });
+
+  return (
+    <div className="grid auto-fill">
+      {!loading && !error && seats.map(({ team, creators, viewers, candidates }) => (
+        <Card key={String(team.id)} title={`Seats · ${team.title || team.name || team.id}`}>
+          <SeatMeter label="Creators" used={creators} soft={team.creator_soft_limit} hard={team.creator_hard_limit} />
+          <SeatMeter label="Viewers" used={viewers} soft={team.viewer_soft_limit} hard={team.viewer_hard_limit} />
+          <p style={{opacity:.6, fontSize:'.7rem', margin:0}}>Admins: {team.admin_count ?? '—'} · Downgrade candidates: {candidates}</p>
+        </Card>
+      ))}
+      <Card className="full-span" title="License Utilization" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          <label style={{fontSize:'.75rem', display:'flex', gap:'.35rem', alignItems:'center'}} title="Flag creators without create/update activity in this many days">
+            Idle days
+            <input type="number" min={1} value={days} onChange={e => setDaysParam(String(Math.max(1, Number(e.target.value) || 1)))} style={{width:70}} />
+          </label>
+          <label style={{fontSize:'.75rem', display:'flex', gap:'.35rem', alignItems:'center'}}>
+            <input type="checkbox" checked={onlyCandidates} onChange={e => setOnlyParam(e.target.checked ? '1' : '')} style={{width:'auto'}} /> Candidates only
+          </label>
+          <SearchBox value={query} onChange={setQuery} records={rows} />
+          <ExportMenu name="License Utilization" rows={filtered.map(exportRow)} context={{ team: scope === ALL_TEAMS ? '' : teamLabel(scope), idle: `${days}d`, candidates: onlyCandidates, q: query }} />
+          <ExportMenu name="Downgrade Candidates" label="Export candidates" rows={candidates.map(exportRow)} context={{ team: scope === ALL_TEAMS ? '' : teamLabel(scope), idle: `${days}d` }} />
+        </div>
+      }>
+        {loading && <p>Loading…</p>}
+        {error && <p className="error">{error}</p>}
+        {!loading && !error && (
+          <div className="table-wrapper">
+            <table>
+              <thead><tr>{showTeam && <th>Team</th>}<th>Name</th><th>Email</th><th>Role</th><th>Type</th><th>Last Seen</th><th>Events</th><th>Last Create/Update</th><th>Flag</th></tr></thead>
+              <tbody>
+                {filtered.map(r => (
+                  <tr key={r.key}>
+                    {showTeam && <td>{teamLabel(r.team_id)}</td>}
+                    <td>{r.name}</td>
+                    <td>{r.email}</td>
+                    <td>{r.team_role}</td>
+                    <td>{r.user_type}</td>
+                    <td>{fmtDate(r.last_seen)}</td>
+                    <td>{r.events}</td>
+                    <td>{r.last_authoring_action ? `${r.last_authoring_action} · ${fmtDate(r.last_authoring_at)}` : '—'}</td>
+                    <td>{r.candidate ? <span className="flag">Downgrade?</span> : ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filtered.length === 0 && <p>No members match.</p>}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
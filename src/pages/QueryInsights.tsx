@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { BarDatum, HBarChart } from '../components/SvgCharts';
+import { ExportMenu } from '../components/ExportMenu';
+import { useRouteParam } from '../utils/router';
+import { DAY_MS, dayKey, orderWorkspaces } from '../utils/audit';
+import { QueryRollupRow, loadQueryRollups } from '../utils/auditData';
+import { useTeamScope } from '../utils/teams';
+
+const workspaceLabel = (w: string) => (w || '').trim() || 'unknown';
+
+/**
+ * What chart queries touch — datasets, columns, metrics, viz types, filter
+ * values and time ranges — from the params / query_context on audit events.
+ * Follows the team scope and the Analytics workspace and range selection; clicking a dataset
+ * narrows the other charts to it.
+ */
+export const QueryInsights: React.FC<{ refreshKey: number; workspace: string; rangeDays: number; exportContext: Record<string, string> }> = ({ refreshKey, workspace, rangeDays, exportContext }) => {
+  const [rows, setRows] = useState<QueryRollupRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dataset, setDataset] = useRouteParam('dataset');
+  const { inTeam } = useTeamScope(refreshKey);
+
+  useEffect(() => {
+    setLoading(true); setError(null);
+    loadQueryRollups(refreshKey)
+      .then(setRows)
+      .catch(e => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [refreshKey]);
+
+  const inRange = useMemo(() => {
+    const cutoffDate = dayKey(Date.now() - rangeDays * DAY_MS);
+    return rows.filter(r => r.date > cutoffDate && inTeam(r.team_id) && (workspace === 'ALL' || workspaceLabel(r.workspace) === workspace));
+  }, [rows, workspace, rangeDays, inTeam]);
+
+  const charts = useMemo(() => {
+    const maps: Record<string, Map<string, number>> = {};
+    const bump = (dimension: string, value: string, count: number) => {
+      const m = maps[dimension] || (maps[dimension] = new Map());
+      m.set(value, (m.get(value) || 0) + count);
+    };
+    // Datasets stay unfiltered so the selected bar can be switched; the rest follow the selection
+    inRange.forEach(r => {
+      if (r.dimension === 'dataset') bump('dataset', r.value, r.count);
+      else if (!dataset || r.dataset === dataset) bump(r.dimension, r.value, r.count);
+    });
+    const bars = (dimension: string, select?: (v: string) => void): BarDatum[] => [...(maps[dimension] || new Map<string, number>())]
+      .map(([label, value]) => ({ key: label, label, value, onSelect: select && (() => select(label)) }))
+      .sort((a, b) => b.value - a.value);
+    return {
+      datasets: bars('dataset', v => setDataset(v === dataset ? '' : v)),
+      columns: bars('column'),
+      metrics: bars('metric'),
+      vizTypes: bars('viz_type'),
+      filters: bars('filter'),
+      timeRanges: bars('time_range'),
+    };
+  }, [inRange, dataset]);
+
+  // Queries per dataset in each workspace
+  const breakdown = useMemo(() => {
+    const workspaces = orderWorkspaces(new Set(inRange.filter(r => r.dimension === 'dataset').map(r => workspaceLabel(r.workspace))));
+    const counts = new Map<string, Map<string, number>>();
+    inRange.forEach(r => {
+      if (r.dimension !== 'dataset') return;
+      const m = counts.get(r.value) || new Map<string, number>();
+      m.set(workspaceLabel(r.workspace), (m.get(workspaceLabel(r.workspace)) || 0) + r.count);
+      counts.set(r.value, m);
+    });
+    const datasets = charts.datasets.map(d => ({ dataset: d.label, total: d.value, perWorkspace: counts.get(d.label) || new Map<string, number>() }));
+    return { workspaces, datasets };
+  }, [inRange, charts]);
+
+  const context = { ...exportContext, dataset };
+  const barRows = (data: BarDatum[]) => () => data.map(d => ({ value: d.label, queries: d.value }));
+  const chart = (title: string, name: string, data: BarDatum[]) =>
+    <HBarChart title={title} data={data} valueLabel="queries" actions={<ExportMenu name={name} rows={barRows(data)} context={context} />} />;
+
+  return (
+    <Card className="full-span" title="Query Insights" actions={dataset ? (
+      <button className="mini" onClick={() => setDataset('')} title="Show all datasets">Dataset: {dataset} ✕</button>
+    ) : undefined}>
+      {loading && <p>Loading…</p>}
+      {error && <p className="error">{error}</p>}
+      {!loading && !error && inRange.length === 0 && <p>No chart queries with params or query context in this selection.</p>}
+      {!loading && !error && inRange.length > 0 && (
+        <>
+          <div className="charts-grid" style={{display:'grid', gap:'1.25rem', gridTemplateColumns:'repeat(auto-fit,minmax(340px,1fr))', marginBottom:'1.25rem'}}>
+            {chart('Most-Queried Datasets', 'Queried Datasets', charts.datasets)}
+            {chart('Top Columns', 'Queried Columns', charts.columns)}
+            {chart('Top Metrics', 'Queried Metrics', charts.metrics)}
+            {chart('Viz Types', 'Viz Types', charts.vizTypes)}
+            {chart('Common Filter Values', 'Filter Values', charts.filters)}
+            {chart('Time Ranges', 'Time Ranges', charts.timeRanges)}
+          </div>
+          <h4 style={{display:'flex', justifyContent:'space-between', alignItems:'center', margin:'0 0 .5rem'}}>
+            Datasets by Workspace
+            <ExportMenu name="Datasets by Workspace" context={context} rows={() => breakdown.datasets.map(d => ({
+              dataset: d.dataset, ...Object.fromEntries(breakdown.workspaces.map(w => [w, d.perWorkspace.get(w) || 0])), total: d.total,
+            }))} />
+          </h4>
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Dataset</th>
+                  {breakdown.workspaces.map(w => <th key={w}>{w}</th>)}
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {breakdown.datasets.map(d => (
+                  <tr key={d.dataset} className={d.dataset === dataset ? 'active' : undefined}>
+                    <td><button className="link" onClick={() => setDataset(d.dataset === dataset ? '' : d.dataset)}>{d.dataset}</button></td>
+                    {breakdown.workspaces.map(w => <td key={w}>{d.perWorkspace.get(w) || ''}</td>)}
+                    <td>{d.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { LineChart } from '../components/SvgCharts';
+import { ExportMenu } from '../components/ExportMenu';
+import { fetchDataFile } from '../utils/fetchData';
+import { useRouteParam } from '../utils/router';
+import { DAY_MS, DetailTarget, orderWorkspaces, weekKey } from '../utils/audit';
+import { UserRollupRow, loadRollups } from '../utils/auditData';
+import { TeamMember } from '../../shared/model.mjs';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
+
+interface MemberInfo {
+  email: string;
+  name: string;
+  user_type: string;
+  /** Membership `user.onboarded`, when the API reports it */
+  onboarded: boolean | null;
+  /** Earliest member_added change for this email */
+  joined: string | null;
+  first_seen: string | null;
+  last_seen: string | null;
+  /** Cohort week (Monday): earliest of first-seen and join week */
+  cohort: string | null;
+  /** Weeks (Mondays) with any audit event */
+  weeks: Set<string>;
+}
+
+interface Cohort { week: string; members: MemberInfo[]; not_onboarded: number; retained: (number | null)[] }
+
+const WEEK_OPTIONS = [8, 12, 26, 52];
+const WEEK_MS = 7 * DAY_MS;
+const dateMs = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const weekOf = (date: string) => weekKey(dateMs(date));
+const addWeeks = (week: string, n: number) => weekKey(dateMs(week) + n * WEEK_MS);
+const pct = (v: number | null) => (v === null ? '' : `${Math.round(v * 100)}%`);
+
+/**
+ * Share of each cohort active k weeks after its start, for k = 0..maxOffset.
+ * `start` gives a member's cohort week and `active` the weeks they were seen;
+ * offsets past the current week are left out (null).
+ */
+function retentionCurve<T>(items: T[], start: (t: T) => string | null, active: (t: T) => Set<string>, maxOffset: number, currentWeek: string) {
+  const reached = Array(maxOffset + 1).fill(0), eligible = Array(maxOffset + 1).fill(0);
+  for (const t of items) {
+    const s = start(t);
+    if (!s) continue;
+    const weeks = active(t);
+    for (let k = 0; k <= maxOffset; k++) {
+      const w = addWeeks(s, k);
+      if (w > currentWeek) break;
+      eligible[k] += 1;
+      if (weeks.has(w)) reached[k] += 1;
+    }
+  }
+  return reached.map((n, k) => (eligible[k] ? n / eligible[k] : null));
+}
+
+export const RetentionPage: React.FC<{ refreshKey: number; onSelect?: (t: DetailTarget) => void }> = ({ refreshKey, onSelect }) => {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [changes, setChanges] = useState<{ type: string; date: string; subject: string; team_id?: string | number }[]>([]);
+  const [daily, setDaily] = useState<UserRollupRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [weeksParam, setWeeks] = useRouteParam('weeks', '12');
+  const [split, setSplit] = useRouteParam('split', 'user_type');
+  const weeks = WEEK_OPTIONS.includes(Number(weeksParam)) ? Number(weeksParam) : 12;
+  const { team, inTeam, teamLabel } = useTeamScope(refreshKey);
+
+  useEffect(() => {
+    setLoading(true); setError(null);
+    Promise.all([
+      fetchDataFile('team_members.json', { optional: true }),
+      fetchDataFile('changes.json', { optional: true }),
+      loadRollups(refreshKey),
+    ]).then(([m, c, r]) => { setMembers(m); setChanges(c); setDaily(r.users); })
+      .catch(e => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [refreshKey]);
+
+  const currentWeek = weekKey(Date.now());
+
+  // One entry per member email (members of several teams are merged), with activity weeks overall and per workspace
+  const { infos, byWorkspace } = useMemo(() => {
+    const infos = new Map<string, MemberInfo>();
+    for (const m of members) {
+      if (!inTeam(m._team_id)) continue;
+      const email = (m.email || '').toLowerCase();
+      if (!email) continue;
+      const info = infos.get(email) || { email: m.email, name: [m.first_name, m.last_name].filter(Boolean).join(' '), user_type: '', onboarded: null, joined: null, first_seen: null, last_seen: null, cohort: null, weeks: new Set<string>() };
+      info.user_type = info.user_type || m.user_type || '';
+      if (typeof m.user?.onboarded === 'boolean') info.onboarded = Boolean(info.onboarded) || m.user.onboarded;
+      infos.set(email, info);
+    }
+    for (const c of changes) {
+      const info = c.type === 'member_added' && inTeam(c.team_id) ? infos.get((c.subject || '').toLowerCase()) : undefined;
+      if (info && (!info.joined || c.date < info.joined)) info.joined = c.date;
+    }
+    const byWorkspace = new Map<string, Map<string, Set<string>>>();
+    for (const r of daily) {
+      const info = r.user && inTeam(r.team_id) ? infos.get(r.user.toLowerCase()) : undefined;
+      if (!info) continue;
+      if (!info.first_seen || r.date < info.first_seen) info.first_seen = r.date;
+      if (!info.last_seen || r.date > info.last_seen) info.last_seen = r.date;
+      const week = weekOf(r.date);
+      info.weeks.add(week);
+      const ws = r.workspace || r.workspace_id;
+      if (!ws) continue;
+      const perUser = byWorkspace.get(ws) || new Map<string, Set<string>>();
+      perUser.set(info.email.toLowerCase(), (perUser.get(info.email.toLowerCase()) || new Set<string>()).add(week));
+      byWorkspace.set(ws, perUser);
+    }
+    for (const info of infos.values()) {
+      const starts = [info.first_seen, info.joined].filter(Boolean) as string[];
+      info.cohort = starts.length ? weekOf(starts.sort()[0]) : null;
+    }
+    return { infos: [...infos.values()], byWorkspace };
+  }, [members, changes, daily, inTeam]);
+
+  const firstWeek = addWeeks(currentWeek, -(weeks - 1));
+  const offsets = Array.from({ length: weeks }, (_, k) => k);
+
+  const cohorts = useMemo<Cohort[]>(() => {
+    const groups = new Map<string, MemberInfo[]>();
+    for (const info of infos) {
+      if (!info.cohort || info.cohort < firstWeek) continue;
+      groups.set(info.cohort, [...(groups.get(info.cohort) || []), info]);
+    }
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([week, list]) => ({
+      week,
+      members: list,
+      not_onboarded: list.filter(m => m.onboarded === false).length,
+      retained: retentionCurve(list, m => m.cohort, m => m.weeks, weeks - 1, currentWeek),
+    }));
+  }, [infos, firstWeek, weeks, currentWeek]);
+
+  // Adoption curves: retention by weeks since start, one line per user type or per workspace
+  const curves = useMemo(() => {
+    const maxOffset = weeks - 1;
+    const inWindow = (s: string | null) => (s && s >= firstWeek ? s : null);
+    if (split === 'workspace') {
+      return orderWorkspaces(byWorkspace.keys()).map(ws => {
+        const perUser = [...byWorkspace.get(ws)!.values()];
+        const first = (w: Set<string>) => inWindow([...w].sort()[0] || null);
+        return { name: ws, values: retentionCurve(perUser, first, w => w, maxOffset, currentWeek) };
+      });
+    }
+    const types = [...new Set(infos.map(m => m.user_type || 'unknown'))].sort();
+    return types.map(t => ({
+      name: t,
+      values: retentionCurve(infos.filter(m => (m.user_type || 'unknown') === t), m => inWindow(m.cohort), m => m.weeks, maxOffset, currentWeek),
+    }));
+  }, [infos, byWorkspace, split, weeks, firstWeek, currentWeek]);
+
+  // Only offsets some cohort has reached, so the curves don't fall to zero at the end
+  const curveOffsets = offsets.filter(k => curves.some(s => s.values[k] !== null));
+
+  const neverSeen = useMemo(() => infos.filter(m => !m.first_seen).sort((a, b) => Number(a.onboarded !== false) - Number(b.onboarded !== false) || a.email.localeCompare(b.email)), [infos]);
+
+  const exportContext = { team: team === ALL_TEAMS ? '' : teamLabel(team), weeks: `${weeks}w`, split };
+  const gridRows = () => cohorts.map(c => ({ cohort: c.week, members: c.members.length, not_onboarded: c.not_onboarded, ...Object.fromEntries(offsets.map(k => [`week_${k}`, pct(c.retained[k])])) }));
+  const curveRows = () => curveOffsets.map(k => ({ week: k, ...Object.fromEntries(curves.map(s => [s.name, pct(s.values[k])])) }));
+  const onboardedLabel = (m: MemberInfo) => (m.onboarded === false ? 'Invited, not onboarded' : m.onboarded ? 'Onboarded' : '—');
+
+  return (
+    <div className="grid auto-fill">
+      <Card className="full-span" title="Retention" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          <select value={weeks} onChange={e => setWeeks(e.target.value)} title="Cohorts started in the last N weeks">
+            {WEEK_OPTIONS.map(n => <option key={n} value={n}>Last {n} weeks</option>)}
+          </select>
+          <ExportMenu name="Retention" rows={gridRows} context={exportContext} />
+        </div>
+      }>
+        {loading && <p>Loading…</p>}
+        {error && <p className="error">{error}</p>}
+        {!loading && !error && !infos.length && <p>No team members in this snapshot.</p>}
+        {!loading && !error && infos.length > 0 && (
+          <>
+            <p style={{opacity:.6, fontSize:'.7rem', margin:'0 0 .75rem'}}>
+              Members grouped by the week they first appear in the audit archive, or joined the team according to the snapshots if earlier. Each cell is the share of the cohort active that many weeks later.
+            </p>
+            {!cohorts.length && <p>No cohorts started in the last {weeks} weeks.</p>}
+            {cohorts.length > 0 && (
+              <div className="table-wrapper">
+                <table className="matrix">
+                  <thead>
+                    <tr>
+                      <th>Cohort (week of)</th>
+                      <th>Members</th>
+                      {offsets.map(k => <th key={k}>W{k}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cohorts.map(c => (
+                      <tr key={c.week}>
+                        <td>{c.week}</td>
+                        <td title={c.members.map(m => m.email).join('\n')}>
+                          {c.members.length}
+                          {c.not_onboarded > 0 && <div className="dim">{c.not_onboarded} not onboarded</div>}
+                        </td>
+                        {offsets.map(k => {
+                          const v = c.retained[k];
+                          return (
+                            <td key={k} className="matrix-cell" title={v === null ? undefined : `${Math.round(v * c.members.length)} of ${c.members.length} active in ${addWeeks(c.week, k)}`}
+                              style={v === null ? undefined : { background: `rgba(79,140,255,${(0.1 + v * 0.6).toFixed(2)})`, color: 'var(--text)' }}>
+                              {pct(v)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </Card>
+      {!loading && !error && infos.length > 0 && (
+        <Card className="full-span" title="Adoption Curves" actions={
+          <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+            <select value={split} onChange={e => setSplit(e.target.value)} title="One line per">
+              <option value="user_type">By user type</option>
+              <option value="workspace">By workspace</option>
+            </select>
+            <ExportMenu name="Adoption Curves" rows={curveRows} context={exportContext} />
+          </div>
+        }>
+          <LineChart
+            title={`% of ${split === 'workspace' ? 'members active in the workspace' : 'members'} still active N weeks after starting`}
+            labels={curveOffsets.map(k => `W${k}`)}
+            series={curves.map(s => ({ name: s.name, values: curveOffsets.map(k => Math.round((s.values[k] ?? 0) * 100)) }))}
+          />
+        </Card>
+      )}
+      {!loading && !error && infos.length > 0 && (
+        <Card className="full-span" title={`Never Seen (${neverSeen.length})`} actions={
+          <ExportMenu name="Never Seen" context={exportContext} rows={() => neverSeen.map(m => ({ name: m.name, email: m.email, user_type: m.user_type, onboarded: m.onboarded ?? '', joined: m.joined || '' }))} />
+        }>
+          {!neverSeen.length && <p>Every member appears in the audit archive.</p>}
+          {neverSeen.length > 0 && (
+            <div className="table-wrapper">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Email</th>
+                    <th>User Type</th>
+                    <th>Status</th>
+                    <th>Joined</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {neverSeen.map(m => (
+                    <tr key={m.email}>
+                      <td>{onSelect ? <button className="link" onClick={() => onSelect({ kind: 'user', user: m.email })}>{m.name || m.email}</button> : m.name || m.email}</td>
+                      <td>{m.email}</td>
+                      <td>{m.user_type || '—'}</td>
+                      <td>{onboardedLabel(m)}</td>
+                      <td>{m.joined || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
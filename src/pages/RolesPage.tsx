@@ -1,67 +1,142 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card } from '../components/Card';
 import { search } from '../utils/search';
+import { SearchBox } from '../components/SearchBox';
+import { ExportMenu } from '../components/ExportMenu';
 import { fetchDataFile } from '../utils/fetchData';
+import { useRouteParam } from '../utils/router';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
+import { TeamMember, WorkspaceMembership, WorkspaceRole, normalizeRole } from '../../shared/model.mjs';
 
-interface RoleRecord {
-  id: string | number;
-  name?: string;
-  permissions?: string[];
-  [k: string]: unknown;
-}
+// "can_read on Dashboard" -> ["Dashboard", "can_read"], so rows group by view
+const splitPermission = (p: string) => {
+  const i = p.indexOf(' on ');
+  return i < 0 ? ['', p] : [p.slice(i + 4), p.slice(0, i)];
+};
 
 export const RolesPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
-  const [roles, setRoles] = useState<RoleRecord[]>([]);
-  const [query, setQuery] = useState('');
+  const [roles, setRoles] = useState<WorkspaceRole[]>([]);
+  const [workspaceMembers, setWorkspaceMembers] = useState<WorkspaceMembership[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
+  const [workspaceParam, setWorkspace] = useRouteParam('ws');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { team, multi, inTeam, teamLabel } = useTeamScope(refreshKey);
 
   useEffect(() => {
     setLoading(true); setError(null);
     Promise.all([
+      fetchDataFile('workspace_roles.json', { optional: true }),
       fetchDataFile('roles.json', { optional: true }),
+      fetchDataFile('workspace_memberships.json', { optional: true }),
       fetchDataFile('team_members.json', { optional: true })
-    ]).then(([rolesRaw, membersRaw]) => {
-      if (rolesRaw.length) { setRoles(rolesRaw); return; }
-      const set = new Map<string, any>();
-      for (const m of membersRaw) {
-        const roleName = m.team_role_name || m.team_role?.name;
-        if (roleName && !set.has(roleName)) set.set(roleName, { id: roleName, name: roleName });
-      }
-      setRoles(Array.from(set.values()));
+    ]).then(([workspaceRoles, legacyRoles, wm, m]) => {
+      // Older snapshots only have the legacy Superset roles.json (PRESET_FETCH_ROLES=1)
+      setRoles(workspaceRoles.length ? workspaceRoles : legacyRoles.map((r: unknown) => normalizeRole(r)));
+      setWorkspaceMembers(wm);
+      setMembers(m);
     })
       .catch(e => setError(String(e)))
       .finally(() => setLoading(false));
   }, [refreshKey]);
 
-  const filtered = query ? roles.filter(r => search(r, query)) : roles;
+  // Legacy roles carry no team and stay visible in every scope
+  const scopedRoles = useMemo(() => roles.filter(r => r._team_id === null || r._team_id === undefined || inTeam(r._team_id)), [roles, inTeam]);
+
+  const workspaces = useMemo(() => {
+    const titles = new Map<string, string>();
+    workspaceMembers.forEach(m => titles.set(m.workspace_name, m.workspace_title || m.workspace_name));
+    const teamOf = new Map(scopedRoles.map(r => [r.workspace_name ?? '', r._team_id]));
+    // In "All teams" mode workspaces are prefixed with their team
+    const label = (name: string) => {
+      const title = titles.get(name) || name || 'All';
+      return team === ALL_TEAMS && multi && teamOf.get(name) != null ? `${teamLabel(teamOf.get(name))} · ${title}` : title;
+    };
+    return Array.from(new Set(scopedRoles.map(r => r.workspace_name ?? ''))).map(name => ({ name, title: label(name) }));
+  }, [scopedRoles, workspaceMembers, team, multi, teamLabel]);
+  const workspace = workspaces.some(w => w.name === workspaceParam) ? workspaceParam : workspaces[0]?.name ?? '';
+
+  // Role columns for the selected workspace, labelled with the Preset display name ("Primary Contributor") when known
+  const columns = useMemo(() => {
+    const inWorkspace = workspaceMembers.filter(m => m.workspace_name === workspace);
+    return scopedRoles
+      .filter(r => (r.workspace_name ?? '') === workspace)
+      .map(r => {
+        const holders = inWorkspace.filter(m => m.workspace_role_identifier === r.name);
+        return { role: r, label: holders[0]?.workspace_role_name || r.name, holders: holders.length };
+      })
+      .sort((a, b) => b.role.permissions.length - a.role.permissions.length || a.label.localeCompare(b.label));
+  }, [scopedRoles, workspaceMembers, workspace]);
+
+  const permissions = useMemo(() => {
+    const all = new Set<string>();
+    columns.forEach(c => c.role.permissions.forEach(p => all.add(p)));
+    return Array.from(all)
+      .map(p => { const [view, perm] = splitPermission(p); return { label: p, view, perm }; })
+      .sort((a, b) => a.view.localeCompare(b.view) || a.perm.localeCompare(b.perm));
+  }, [columns]);
+
+  const filtered = query ? permissions.filter(p => search(p, query)) : permissions;
+  const exportRows = () => filtered.map(p => ({ view: p.view, permission: p.perm, ...Object.fromEntries(columns.map(c => [c.label, c.role.permissions.includes(p.label)])) }));
+
+  // Without any fetched roles, list the team roles in use so the page is not empty
+  const teamRoles = useMemo(() => {
+    const counts = new Map<string, number>();
+    members.forEach(m => inTeam(m._team_id) && m.team_role_name && counts.set(m.team_role_name, (counts.get(m.team_role_name) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [members, inTeam]);
 
   return (
     <div className="grid auto-fill">
-  <Card className="full-span" title="Roles" actions={<input placeholder="Search" value={query} onChange={e => setQuery(e.target.value)} />}> 
+      <Card className="full-span" title="Roles & Permissions" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          {workspaces.length > 1 && (
+            <select value={workspace} onChange={e => setWorkspace(e.target.value)} title="Workspace">
+              {workspaces.map(w => <option key={w.name} value={w.name}>{w.title}</option>)}
+            </select>
+          )}
+          <SearchBox value={query} onChange={setQuery} records={permissions} placeholder="Filter permissions" />
+          <ExportMenu name="Role Permissions" rows={exportRows} context={{ team: team === ALL_TEAMS ? '' : teamLabel(team), ws: workspace, q: query }} />
+        </div>
+      }>
         {loading && <p>Loading…</p>}
         {error && <p className="error">{error}</p>}
-        {!loading && !error && (
+        {!loading && !error && columns.length === 0 && (
+          <>
+            <p className="dim">No workspace roles in this snapshot; team roles in use are listed instead. Permissions are collected from each workspace's security API by the fetch script.</p>
+            <ul className="plain-list">
+              {teamRoles.map(([name, n]) => <li key={name}>{name} <span className="dim">· {n} member{n === 1 ? '' : 's'}</span></li>)}
+            </ul>
+          </>
+        )}
+        {!loading && !error && columns.length > 0 && (
           <div className="table-wrapper">
-            <table>
+            <table className="matrix">
               <thead>
                 <tr>
-                  <th>ID</th>
-                  <th>Name</th>
-                  <th>Permissions</th>
+                  <th>View</th>
+                  <th>Permission</th>
+                  {columns.map(c => (
+                    <th key={String(c.role.id)} title={`${c.role.name} · ${c.role.permissions.length} permissions · ${c.holders} member${c.holders === 1 ? '' : 's'}`}>
+                      {c.label}<div className="dim">{c.holders} member{c.holders === 1 ? '' : 's'}</div>
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody>
-                {filtered.map(r => (
-                  <tr key={r.id}>
-                    <td>{r.id}</td>
-                    <td>{r.name || '—'}</td>
-                    <td>{Array.isArray(r.permissions) ? r.permissions.join(', ') : '—'}</td>
+                {filtered.map(p => (
+                  <tr key={p.label}>
+                    <td>{p.view || '—'}</td>
+                    <td>{p.perm}</td>
+                    {columns.map(c => (
+                      <td key={String(c.role.id)} className="matrix-cell">{c.role.permissions.includes(p.label) ? '✓' : ''}</td>
+                    ))}
                   </tr>
                 ))}
               </tbody>
             </table>
-            {filtered.length === 0 && <p>No roles match.</p>}
+            {filtered.length === 0 && <p>No permissions match.</p>}
           </div>
         )}
       </Card>
@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { BarDatum, HBarChart } from '../components/SvgCharts';
+import { ExportMenu } from '../components/ExportMenu';
+import { useRouteParam } from '../utils/router';
+import { DAY_MS, DetailTarget, orderWorkspaces } from '../utils/audit';
+import { AuditLog, loadAuditEvents } from '../utils/auditData';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
+import { DEFAULT_FUNNEL, DEFAULT_SESSION_GAP_MINUTES, buildSessions, funnel, sessionStats } from '../../shared/sessions.mjs';
+
+const RANGE_DAYS: Record<string, number> = { week: 7, month: 30, quarter: 90, year: 365 };
+const LENGTH_BUCKETS: [string, number][] = [['< 1 min', 60_000], ['1–5 min', 300_000], ['5–15 min', 900_000], ['15–60 min', 3_600_000], ['> 1 h', Infinity]];
+
+const fmtDuration = (ms: number) => {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, '0')}s`;
+  return `${Math.floor(s / 3600)}h ${String(Math.floor(s / 60) % 60).padStart(2, '0')}m`;
+};
+const fmtTime = (iso: string) => iso.replace('T', ' ').slice(0, 16);
+const pct = (r: number) => `${Math.round(r * 100)}%`;
+
+export const SessionsPage: React.FC<{ refreshKey: number; onSelect?: (t: DetailTarget) => void }> = ({ refreshKey, onSelect }) => {
+  const [events, setEvents] = useState<{ key: string; logs: AuditLog[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rangeParam, setRange] = useRouteParam('range', 'month');
+  const [workspace, setWorkspace] = useRouteParam('ws', 'ALL');
+  const [gapParam, setGap] = useRouteParam('gap', String(DEFAULT_SESSION_GAP_MINUTES), { replace: true });
+  const [funnelParam, setFunnel] = useRouteParam('funnel', DEFAULT_FUNNEL.join(','));
+  const range = rangeParam in RANGE_DAYS ? rangeParam : 'month';
+  const gapMinutes = Math.max(1, Number(gapParam) || DEFAULT_SESSION_GAP_MINUTES);
+  const steps = funnelParam.split(',').map(s => s.trim()).filter(Boolean);
+  const rangeKey = `${refreshKey}:${range}`;
+  const { team, inTeam, teamLabel } = useTeamScope(refreshKey);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    loadAuditEvents(refreshKey, { since: Date.now() - RANGE_DAYS[range] * DAY_MS })
+      .then(logs => { if (!cancelled) setEvents({ key: rangeKey, logs }); })
+      .catch(e => { if (!cancelled) setError(String(e)); });
+    return () => { cancelled = true; };
+  }, [rangeKey]);
+
+  const loading = !error && events?.key !== rangeKey;
+  const logs = useMemo(() => (events?.key === rangeKey ? events.logs.filter(l => inTeam(l._team_id)) : []), [events, rangeKey, inTeam]);
+  const workspaces = useMemo(() => orderWorkspaces(new Set(logs.map(l => l.workspace_title || l.workspace_name).filter(Boolean) as string[])), [logs]);
+  const actions = useMemo(() => [...new Set(logs.map(l => l.action).filter(Boolean) as string[])].sort(), [logs]);
+
+  const sessions = useMemo(() => {
+    const cutoff = new Date(Date.now() - RANGE_DAYS[range] * DAY_MS).toISOString();
+    const inScope = logs.filter(l => (l.timestamp || '') >= cutoff && (workspace === 'ALL' || (l.workspace_title || l.workspace_name) === workspace));
+    return buildSessions(inScope, { gapMinutes });
+  }, [logs, range, workspace, gapMinutes]);
+
+  const stats = useMemo(() => sessionStats(sessions), [sessions]);
+  const funnelSteps = useMemo(() => funnel(sessions, steps), [sessions, funnelParam]);
+
+  const charts = useMemo(() => {
+    const entries = new Map<string, BarDatum>();
+    const users = new Map<string, BarDatum>();
+    const lengths: BarDatum[] = LENGTH_BUCKETS.map(([label]) => ({ label, value: 0 }));
+    for (const s of sessions) {
+      const d = s.entry_dashboard;
+      if (d) {
+        const key = `${d.entity_type}|${d.id}|${d.workspace_id}`;
+        const bar = entries.get(key) || {
+          key, label: d.name, value: 0, extra: `${d.name} · ${d.workspace || 'unknown workspace'}`,
+          onSelect: onSelect && (() => onSelect({ kind: 'entity', entityType: d.entity_type, entityId: d.id, workspace: d.workspace_id })),
+        };
+        bar.value += 1;
+        entries.set(key, bar);
+      }
+      const u = users.get(s.user) || { label: s.user, value: 0, onSelect: onSelect && (() => onSelect({ kind: 'user', user: s.user })) };
+      u.value += 1;
+      users.set(s.user, u);
+      lengths[LENGTH_BUCKETS.findIndex(([, max]) => s.duration_ms < max)].value += 1;
+    }
+    const sorted = (m: Map<string, BarDatum>) => [...m.values()].sort((a, b) => b.value - a.value);
+    return { entries: sorted(entries), users: sorted(users), lengths };
+  }, [sessions, onSelect]);
+
+  const setStep = (i: number, action: string) => setFunnel(steps.map((s, j) => (j === i ? action : s)).join(','));
+  const removeStep = (i: number) => setFunnel(steps.filter((_, j) => j !== i).join(','));
+  const addStep = () => setFunnel([...steps, actions.find(a => !steps.includes(a)) || actions[0] || 'chart:view'].join(','));
+
+  const exportContext = { range, team: team === ALL_TEAMS ? '' : teamLabel(team), ws: workspace === 'ALL' ? '' : workspace, gap: `${gapMinutes}m` };
+  const barRows = (data: BarDatum[], valueLabel: string) => () => data.map(d => ({ label: d.label, [valueLabel]: d.value, detail: d.extra ?? '' }));
+  const kpis: [string, string][] = [
+    ['Sessions', stats.sessions.toLocaleString()],
+    ['Users', stats.users.toLocaleString()],
+    ['Sessions / User', stats.sessions_per_user.toFixed(1)],
+    ['Median Length', fmtDuration(stats.median_ms)],
+    ['P90 Length', fmtDuration(stats.p90_ms)],
+    ['Events / Session', stats.events_per_session.toFixed(1)],
+  ];
+
+  return (
+    <div className="grid auto-fill">
+      <Card className="full-span" title="Sessions" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          <select value={range} onChange={e => setRange(e.target.value)} title="Time range">
+            <option value="week">Last 7 days</option>
+            <option value="month">Last 30 days</option>
+            <option value="quarter">Last 90 days</option>
+            <option value="year">Last 365 days</option>
+          </select>
+          {workspaces.length > 1 && (
+            <select value={workspace} onChange={e => setWorkspace(e.target.value)} title="Workspace">
+              <option value="ALL">All workspaces</option>
+              {workspaces.map(w => <option key={w} value={w}>{w}</option>)}
+            </select>
+          )}
+          <label style={{fontSize:'.75rem', display:'flex', gap:'.35rem', alignItems:'center'}} title="A session ends after this many minutes without events; a login always starts a new one">
+            Gap
+            <input type="number" min={1} value={gapMinutes} onChange={e => setGap(String(Math.max(1, Number(e.target.value) || 1)))} style={{width:60}} /> min
+          </label>
+          <ExportMenu name="Sessions" context={exportContext} rows={() => sessions.map(s => ({
+            user: s.user,
+            start: s.start,
+            end: s.end,
+            duration_min: Math.round(s.duration_ms / 6000) / 10,
+            events: s.events,
+            login: s.login,
+            entry_dashboard: s.entry_dashboard?.name || '',
+            workspaces: s.workspaces.join(', '),
+            actions: s.actions.join(' > '),
+          }))} />
+        </div>
+      }>
+        {loading && <p>Loading events…</p>}
+        {error && <p className="error">{error}</p>}
+        {!loading && !error && sessions.length === 0 && <p>No audit events with a user in this selection.</p>}
+        {!loading && !error && sessions.length > 0 && (
+          <>
+            <p style={{opacity:.6, fontSize:'.7rem', margin:'0 0 .5rem'}}>
+              {sessions.length.toLocaleString()} sessions from {sessions.reduce((n, s) => n + s.events, 0).toLocaleString()} events · {fmtTime(sessions[0].start)} – {fmtTime(sessions[sessions.length - 1].end)}
+            </p>
+            <div className="kpi-row">
+              {kpis.map(([label, value]) => (
+                <div key={label} className="kpi">
+                  <span className="kpi-label">{label}</span>
+                  <span className="kpi-value">{value}</span>
+                </div>
+              ))}
+            </div>
+            <div className="charts-grid" style={{display:'grid', gap:'1.25rem', gridTemplateColumns:'repeat(auto-fit,minmax(340px,1fr))'}}>
+              <HBarChart title="Entry Dashboards" data={charts.entries} valueLabel="sessions" actions={<ExportMenu name="Entry Dashboards" rows={barRows(charts.entries, 'sessions')} context={exportContext} />} />
+              <HBarChart title="Sessions per User" data={charts.users} valueLabel="sessions" actions={<ExportMenu name="Sessions per User" rows={barRows(charts.users, 'sessions')} context={exportContext} />} />
+              <HBarChart title="Session Length" data={charts.lengths} maxBars={LENGTH_BUCKETS.length} valueLabel="sessions" actions={<ExportMenu name="Session Length" rows={barRows(charts.lengths, 'sessions')} context={exportContext} />} />
+            </div>
+          </>
+        )}
+      </Card>
+      {!loading && !error && sessions.length > 0 && (
+        <Card className="full-span" title="Funnel" actions={
+          <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+            <button className="mini" onClick={addStep}>+ Step</button>
+            <button className="mini" onClick={() => setFunnel(DEFAULT_FUNNEL.join(','))} title={DEFAULT_FUNNEL.join(' → ')}>Reset</button>
+            <ExportMenu name="Funnel" context={{ ...exportContext, funnel: steps.join(' > ') }} rows={() => funnelSteps.map((f, i) => ({
+              position: i + 1, action: f.step, sessions: f.sessions, of_first: pct(f.of_first), of_previous: pct(f.of_previous),
+            }))} />
+          </div>
+        }>
+          <p style={{opacity:.6, fontSize:'.7rem', margin:'0 0 .75rem'}}>Sessions that performed each step after all the previous ones, in order (other actions may come in between).</p>
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Action</th>
+                  <th>Sessions</th>
+                  <th style={{width:'35%'}}></th>
+                  <th>Of First Step</th>
+                  <th>Of Previous Step</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {funnelSteps.map((f, i) => (
+                  <tr key={i}>
+                    <td>{i + 1}</td>
+                    <td>
+                      <select value={f.step} onChange={e => setStep(i, e.target.value)}>
+                        {(actions.includes(f.step) ? actions : [f.step, ...actions]).map(a => <option key={a} value={a}>{a}</option>)}
+                      </select>
+                    </td>
+                    <td>{f.sessions.toLocaleString()}</td>
+                    <td><div className="hbar-bar-wrap"><div className="hbar-bar" style={{width: `${f.of_first * 100}%`}} /></div></td>
+                    <td>{pct(f.of_first)}</td>
+                    <td>{i === 0 ? '—' : pct(f.of_previous)}</td>
+                    <td>{steps.length > 1 && <button className="mini" onClick={() => removeStep(i)} title="Remove step">✕</button>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
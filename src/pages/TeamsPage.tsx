@@ -1,19 +1,23 @@
 import React, { useEffect, useState } from 'react';
 import { Card } from '../components/Card';
 import { search } from '../utils/search';
-import { downloadCSV } from '../utils/download';
+import { SearchBox } from '../components/SearchBox';
+import { ExportMenu } from '../components/ExportMenu';
 import { fetchDataFile } from '../utils/fetchData';
-
-interface Team { id: string | number; name?: string; [k: string]: any }
-interface TeamMember { id?: string | number; user_id?: string | number; email?: string; _team_id?: string | number; [k: string]: any }
+import { useRouteParam } from '../utils/router';
+import { ALL_TEAMS, teamKey, useTeamScope } from '../utils/teams';
+import { Team, TeamMember } from '../../shared/model.mjs';
 
 export const TeamsPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
   const [teams, setTeams] = useState<Team[]>([]);
   const [members, setMembers] = useState<TeamMember[]>([]);
-  const [query, setQuery] = useState('');
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [view, setView] = useState<'teams' | 'members'>('members');
+  const [viewParam, setView] = useRouteParam('view', 'members');
+  const view: 'teams' | 'members' = viewParam === 'teams' ? 'teams' : 'members';
+  const { team, multi, inTeam, teamLabel } = useTeamScope(refreshKey);
+  const showTeam = team === ALL_TEAMS && multi;
 
   useEffect(() => {
     setLoading(true); setError(null);
@@ -25,16 +29,23 @@ export const TeamsPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
       .finally(() => setLoading(false));
   }, [refreshKey]);
 
-  const data = view === 'teams' ? teams : members;
+  const scopedTeams = teams.filter(t => inTeam(teamKey(t)));
+  const scopedMembers = members.filter(m => inTeam(m._team_id));
+  const data = view === 'teams' ? scopedTeams : scopedMembers;
   const filtered = query ? data.filter(d => search(d, query)) : data;
 
-  // Precompute counts map
-  const memberCount = React.useMemo(() => {
-    const map = new Map<string|number, number>();
+  // Members, creators, viewers and admins per team
+  const memberCounts = React.useMemo(() => {
+    const map = new Map<string, { members: number; creators: number; viewers: number; admins: number }>();
     for (const m of members) {
-      const key = m._team_id as any;
-      if (key === undefined) continue;
-      map.set(key, (map.get(key) || 0) + 1);
+      if (m._team_id === undefined || m._team_id === null) continue;
+      const key = String(m._team_id);
+      const c = map.get(key) || { members: 0, creators: 0, viewers: 0, admins: 0 };
+      c.members += 1;
+      if (m.user_type === 'CREATOR') c.creators += 1;
+      if (m.user_type === 'VIEWER') c.viewers += 1;
+      if (/admin/i.test(m.team_role_name || '')) c.admins += 1;
+      map.set(key, c);
     }
     return map;
   }, [members]);
@@ -47,8 +58,8 @@ export const TeamsPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
               <button type="button" onClick={() => setView('members')} className={view==='members' ? 'secondary' : ''} style={{opacity:view==='members'?1:.6}}>Members</button>
               <button type="button" onClick={() => setView('teams')} className={view==='teams' ? 'secondary' : ''} style={{opacity:view==='teams'?1:.6}}>Teams</button>
             </div>
-          <input placeholder="Search" value={query} onChange={e => setQuery(e.target.value)} />
-            <button onClick={() => downloadCSV(filtered as any[], view + '-export.csv')}>Download CSV</button>
+          <SearchBox value={query} onChange={setQuery} records={data} />
+            <ExportMenu name={view === 'teams' ? 'Teams' : 'Team Members'} rows={filtered} context={{ team: team === ALL_TEAMS ? '' : teamLabel(team), q: query }} />
         </div>
       }>
         {loading && <p>Loading…</p>}
@@ -57,27 +68,32 @@ export const TeamsPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
           <div className="table-wrapper">
             {view === 'teams' && (
               <table>
-                <thead><tr><th>ID</th><th>Name</th><th>Title</th><th>Members</th></tr></thead>
+                <thead><tr><th>ID</th><th>Name</th><th>Title</th><th>Members</th><th>Creators</th><th>Viewers</th><th>Admins</th><th>Workspaces</th></tr></thead>
                 <tbody>
                   {filtered.map(t => {
-                    const id = t.id || (t as any).uuid;
-                    const count = memberCount.get(id) || 0;
-                    return <tr key={String(id)}><td>{id}</td><td>{t.name || '—'}</td><td>{(t as any).title || '—'}</td><td>{count}</td></tr>;
+                    const id = t.id || t.uuid;
+                    const c = memberCounts.get(String(id));
+                    return <tr key={String(id)}>
+                      <td>{id}</td><td>{t.name || '—'}</td><td>{t.title || '—'}</td>
+                      <td>{c?.members ?? 0}</td><td>{c?.creators ?? 0}</td><td>{c?.viewers ?? 0}</td><td>{c?.admins ?? 0}</td>
+                      <td>{t.workspace_count ?? '—'}</td>
+                    </tr>;
                   })}
                 </tbody>
               </table>
             )}
             {view === 'members' && (
               <table>
-                <thead><tr><th>User ID</th><th>Name</th><th>Email</th><th>Role</th><th>Type</th></tr></thead>
+                <thead><tr>{showTeam && <th>Team</th>}<th>User ID</th><th>Name</th><th>Email</th><th>Role</th><th>Type</th></tr></thead>
                 <tbody>
                   {filtered.map(m => {
                     const name = [m.first_name, m.last_name].filter(Boolean).join(' ') || '—';
-                    return <tr key={String(m.user_id || m.id || Math.random())}>
-                      <td>{m.user_id || m.id || '—'}</td>
+                    return <tr key={`${m._team_id}|${m.user_id}`}>
+                      {showTeam && <td>{teamLabel(m._team_id)}</td>}
+                      <td>{m.user_id ?? '—'}</td>
                       <td>{name}</td>
                       <td>{m.email || '—'}</td>
-                      <td>{m.team_role_name || (m as any).team_role?.name || '—'}</td>
+                      <td>{m.team_role_name || '—'}</td>
                       <td>{m.user_type || '—'}</td>
                     </tr>;
                   })}
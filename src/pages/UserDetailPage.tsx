@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../components/Card';
+import { ExportMenu } from '../components/ExportMenu';
+import { fetchDataFile } from '../utils/fetchData';
+import { AuditLog, loadAuditEvents, loadRollups, monthsWhere } from '../utils/auditData';
+import { TeamMember } from '../../shared/model.mjs';
+import { useTeamScope } from '../utils/teams';
+import { ACTION_FAMILIES, DetailTarget, actionFamily, entityTarget, logAction, logEntityId, logEntityType, logTime, logUser, logWorkspace, shortEntityType } from '../utils/audit';
+
+type UserTarget = Extract<DetailTarget, { kind: 'user' }>;
+
+const fmtTime = (ms: number) => (isNaN(ms) ? '—' : new Date(ms).toISOString().replace('T', ' ').slice(0, 19));
+
+export const UserDetailPage: React.FC<{ refreshKey: number; target: UserTarget; onBack: () => void; onSelect: (t: DetailTarget) => void }>
+ = ({ refreshKey, target, onBack, onSelect }) => {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [family, setFamily] = useState('ALL');
+
+  useEffect(() => {
+    setLoading(true); setError(null);
+    Promise.all([
+      // Only the month shards in which this user appears
+      loadRollups(refreshKey).then(r => loadAuditEvents(refreshKey, { months: monthsWhere(r.users, r => r.user.toLowerCase() === target.user.toLowerCase()) })),
+      fetchDataFile('team_members.json', { optional: true })
+    ]).then(([l, m]) => { setLogs(l); setMembers(m); })
+      .catch(e => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [refreshKey, target.user]);
+
+  const { inTeam, teamLabel } = useTeamScope(refreshKey);
+  const needle = target.user.toLowerCase();
+  const memberships = useMemo(() => members.filter(m => (m.email || '').toLowerCase() === needle && inTeam(m._team_id)), [members, needle, inTeam]);
+  const events = useMemo(() => logs
+    .filter(l => logUser(l).toLowerCase() === needle && inTeam(l._team_id))
+    .sort((a, b) => (logTime(b) || 0) - (logTime(a) || 0)), [logs, needle, inTeam]);
+
+  const familyCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    events.forEach(e => { const f = actionFamily(logAction(e)); counts[f] = (counts[f] || 0) + 1; });
+    return counts;
+  }, [events]);
+
+  const timeline = events.filter(e => family === 'ALL' || actionFamily(logAction(e)) === family);
+  const m = memberships[0];
+  const name = m ? [m.first_name, m.last_name].filter(Boolean).join(' ') : '';
+
+  return (
+    <div className="grid auto-fill">
+      <Card className="full-span" title={`User · ${name || target.user}`} actions={<button onClick={onBack}>← Back</button>}>
+        {loading && <p>Loading…</p>}
+        {error && <p className="error">{error}</p>}
+        {!loading && !error && (
+          <dl className="detail-facts">
+            <dt>Email</dt><dd>{target.user}</dd>
+            {memberships.length === 0 && <><dt>Membership</dt><dd>Not a current team member</dd></>}
+            {memberships.map((mm, i) => (
+              <React.Fragment key={i}>
+                {memberships.length > 1 && <><dt>Team</dt><dd>{teamLabel(mm._team_id)}</dd></>}
+                <dt>Team role</dt><dd>{mm.team_role_name || '—'}</dd>
+                <dt>User type</dt><dd>{mm.user_type || '—'}</dd>
+                <dt>Creator on</dt><dd>{mm.creator_on_workspaces.length ? mm.creator_on_workspaces.join(', ') : '—'}</dd>
+                <dt>Onboarded</dt><dd>{mm.user?.onboarded === undefined ? '—' : mm.user.onboarded ? 'Yes' : 'No'}</dd>
+              </React.Fragment>
+            ))}
+            <dt>Events</dt><dd>{events.length}{events.length > 0 && <> · {ACTION_FAMILIES.filter(f => familyCounts[f]).map(f => `${familyCounts[f]} ${f}`).join(', ')}</>}</dd>
+            <dt>First / last seen</dt><dd>{events.length ? `${fmtTime(logTime(events[events.length - 1]))} → ${fmtTime(logTime(events[0]))}` : '—'}</dd>
+          </dl>
+        )}
+      </Card>
+      {!loading && !error && (
+        <Card className="full-span" title="Activity Timeline" actions={
+          <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+            <select value={family} onChange={e => setFamily(e.target.value)} title="Event type">
+              <option value="ALL">All events</option>
+              {[...ACTION_FAMILIES, 'other'].map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+            <ExportMenu name="User Activity" rows={timeline} context={{ user: target.user, type: family === 'ALL' ? '' : family }} />
+          </div>
+        }>
+          <div className="table-wrapper">
+            <table>
+              <thead><tr><th>Timestamp</th><th>Action</th><th>Entity</th><th>Workspace</th></tr></thead>
+              <tbody>
+                {timeline.map((e, i) => {
+                  const hasEntity = Boolean(logEntityType(e) && logEntityId(e));
+                  const label = e.entity_name || (hasEntity ? `${shortEntityType(logEntityType(e))} ${logEntityId(e)}` : '—');
+                  return (
+                    <tr key={e._event_key || i}>
+                      <td style={{whiteSpace:'nowrap'}}>{fmtTime(logTime(e))}</td>
+                      <td>{logAction(e) || '—'}</td>
+                      <td>{hasEntity ? <button className="link" onClick={() => onSelect(entityTarget(e))}>{label}</button> : label}</td>
+                      <td>{logWorkspace(e) || '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {timeline.length === 0 && <p>No activity recorded.</p>}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -1,60 +1,108 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card } from '../components/Card';
 import { search } from '../utils/search';
+import { SearchBox } from '../components/SearchBox';
+import { ExportMenu } from '../components/ExportMenu';
 import { fetchDataFile } from '../utils/fetchData';
+import { useRouteParam } from '../utils/router';
+import { DetailTarget } from '../utils/audit';
+import { ALL_TEAMS, useTeamScope } from '../utils/teams';
+import { TeamMember, WorkspaceMembership } from '../../shared/model.mjs';
 
-interface UserRecord {
-  id: string | number;
-  username?: string;
-  email?: string;
-  first_name?: string;
-  last_name?: string;
-  roles?: (string | number)[];
-  [k: string]: unknown;
+interface WorkspaceRoleCell { workspace: string; role: string; from_group: boolean }
+
+interface UserRow {
+  key: string;
+  user_id: string | number | null;
+  name: string;
+  email: string;
+  username: string;
+  /** Team ids the user is a member of */
+  teams: string[];
+  team_role: string;
+  team_role_from_group: boolean;
+  user_type: string;
+  workspace_roles: WorkspaceRoleCell[];
+  /** Team or any workspace role assigned through a group */
+  from_group: boolean;
 }
 
-export const UsersPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
-  const [users, setUsers] = useState<UserRecord[]>([]);
-  const [query, setQuery] = useState('');
+const userKey = (email: string | null | undefined, id: unknown) => (email ? email.toLowerCase() : `id:${id}`);
+
+export const UsersPage: React.FC<{ refreshKey: number; onSelect?: (t: DetailTarget) => void }> = ({ refreshKey, onSelect }) => {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [workspaceMembers, setWorkspaceMembers] = useState<WorkspaceMembership[]>([]);
+  const [legacyUsers, setLegacyUsers] = useState<any[]>([]);
+  const [query, setQuery] = useRouteParam('q', '', { replace: true });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { team, multi, inTeam, teamLabel } = useTeamScope(refreshKey);
+  const showTeam = team === ALL_TEAMS && multi;
 
   useEffect(() => {
     setLoading(true); setError(null);
     Promise.all([
-      fetchDataFile('users.json', { optional: true }),
-      fetchDataFile('team_members.json', { optional: true })
-    ]).then(([usersRaw, membersRaw]) => {
-      if (usersRaw.length) { setUsers(usersRaw); return; }
-      // Derive users from flattened member records
-      const map = new Map<string|number, any>();
-      for (const m of membersRaw) {
-        const id = m.user_id || m.id || (m.user && m.user.id);
-        if (!id) continue;
-        if (!map.has(id)) {
-          map.set(id, {
-            id,
-            first_name: m.first_name || m.user?.first_name,
-            last_name: m.last_name || m.user?.last_name,
-            email: m.email || m.user?.email,
-            username: m.username || m.user?.username,
-            roles: m.roles || [],
-            user_type: m.user_type,
-            team_role: m.team_role_name || m.team_role?.name
-          });
-        }
-      }
-      setUsers(Array.from(map.values()));
-    })
+      fetchDataFile('team_members.json', { optional: true }),
+      fetchDataFile('workspace_memberships.json', { optional: true }),
+      fetchDataFile('users.json', { optional: true })
+    ]).then(([m, wm, u]) => { setMembers(m); setWorkspaceMembers(wm); setLegacyUsers(u); })
       .catch(e => setError(String(e)))
       .finally(() => setLoading(false));
   }, [refreshKey]);
 
+  // One row per user: team role from team_members, one cell per workspace from workspace_memberships
+  const users = useMemo<UserRow[]>(() => {
+    const map = new Map<string, UserRow>();
+    for (const m of members) {
+      if (!inTeam(m._team_id)) continue;
+      const key = userKey(m.email, m.user_id);
+      const existing = map.get(key);
+      if (existing) { existing.teams.push(String(m._team_id)); continue; }
+      map.set(key, {
+        key,
+        user_id: m.user_id,
+        teams: [String(m._team_id)],
+        name: [m.first_name, m.last_name].filter(Boolean).join(' '),
+        email: m.email || '',
+        username: m.username || '',
+        team_role: m.team_role_name || '',
+        team_role_from_group: m.is_role_from_group,
+        user_type: m.user_type || '',
+        workspace_roles: [],
+        from_group: m.is_role_from_group,
+      });
+    }
+    // Without team members (older snapshots), fall back to the legacy users.json
+    if (!members.length) {
+      for (const u of legacyUsers) {
+        const key = userKey(u.email, u.id);
+        map.set(key, {
+          key, user_id: u.id ?? null, teams: [], name: [u.first_name, u.last_name].filter(Boolean).join(' '), email: u.email || '', username: u.username || '',
+          team_role: Array.isArray(u.roles) ? u.roles.map((r: any) => r?.name ?? r).join(', ') : '', team_role_from_group: false,
+          user_type: '', workspace_roles: [], from_group: false,
+        });
+      }
+    }
+    for (const wm of workspaceMembers) {
+      if (!inTeam(wm._team_id)) continue;
+      const row = map.get(userKey(wm.email, wm.user_id));
+      if (!row) continue;
+      row.workspace_roles.push({ workspace: wm.workspace_title || wm.workspace_name, role: wm.workspace_role_name || wm.workspace_role_identifier || '—', from_group: wm.is_role_from_group });
+      if (wm.is_role_from_group) row.from_group = true;
+    }
+    return Array.from(map.values()).sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email));
+  }, [members, workspaceMembers, legacyUsers, inTeam]);
+
   const filtered = query ? users.filter(u => search(u, query)) : users;
 
   return (
     <div className="grid auto-fill">
-  <Card className="full-span" title="Users" actions={<input placeholder="Search" value={query} onChange={e => setQuery(e.target.value)} />}> 
+      <Card className="full-span" title="Users" actions={
+        <div style={{display:'flex', gap:'.5rem', alignItems:'center'}}>
+          <SearchBox value={query} onChange={setQuery} records={users} />
+          <ExportMenu name="Users" rows={filtered.map(({ key, teams, ...u }) => ({ teams: teams.map(teamLabel).join(', '), ...u }))} context={{ team: team === ALL_TEAMS ? '' : teamLabel(team), q: query }} />
+        </div>
+      }>
         {loading && <p>Loading…</p>}
         {error && <p className="error">{error}</p>}
         {!loading && !error && (
@@ -65,18 +113,31 @@ export const UsersPage: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
                   <th>ID</th>
                   <th>Name</th>
                   <th>Email</th>
-                  <th>Username</th>
-                  <th>Roles</th>
+                  {showTeam && <th>Teams</th>}
+                  <th>Team Role</th>
+                  <th>Type</th>
+                  <th>Workspace Roles</th>
+                  <th title="Role assigned through a user group (is_role_from_group)">Via Group</th>
                 </tr>
               </thead>
               <tbody>
                 {filtered.map(u => (
-                  <tr key={u.id}>
-                    <td>{u.id}</td>
-                    <td>{[u.first_name, u.last_name].filter(Boolean).join(' ') || '—'}</td>
-                    <td>{u.email || '—'}</td>
-                    <td>{u.username || '—'}</td>
-                    <td>{Array.isArray(u.roles) ? u.roles.join(', ') : '—'}</td>
+                  <tr key={u.key}>
+                    <td>{u.user_id ?? '—'}</td>
+                    <td>{u.name || '—'}</td>
+                    <td>{u.email && onSelect ? <button className="link" onClick={() => onSelect({ kind: 'user', user: u.email })}>{u.email}</button> : u.email || '—'}</td>
+                    {showTeam && <td>{u.teams.map(teamLabel).join(', ') || '—'}</td>}
+                    <td>{u.team_role || '—'}{u.team_role_from_group && <span className="dim" title="Assigned through a group"> (group)</span>}</td>
+                    <td>{u.user_type || '—'}</td>
+                    <td>
+                      {u.workspace_roles.length === 0 && '—'}
+                      {u.workspace_roles.map(w => (
+                        <span key={w.workspace} className="role-chip" title={w.from_group ? 'Assigned through a group' : 'Assigned directly'}>
+                          {w.workspace}: {w.role}{w.from_group ? ' ⧉' : ''}
+                        </span>
+                      ))}
+                    </td>
+                    <td>{u.from_group ? 'Yes' : 'No'}</td>
                   </tr>
                 ))}
               </tbody>
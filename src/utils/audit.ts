@@ -0,0 +1,86 @@
+import { AuditEvent, timestampMs } from '../../shared/model.mjs';
+
+// Field accessors for audit events. Events arrive in the canonical shape from
+// shared/model.mjs (the fetch script normalizes them), so these only supply
+// defaults for optional fields.
+type AuditLike = Pick<AuditEvent, 'timestamp' | 'user' | 'action' | 'entity_type' | 'entity_id' | 'workspace_name' | 'workspace_title'> & { _event_key?: string };
+
+export const logUser = (l: AuditLike): string => l.user || '';
+
+export const logAction = (l: AuditLike): string => l.action || '';
+
+export const logWorkspace = (l: AuditLike): string => l.workspace_title || l.workspace_name || '';
+
+export const logTime = (l: AuditLike): number => timestampMs(l.timestamp);
+
+// Production, Pre-Production, Sandbox (any case) first, then the rest alphabetically
+const WORKSPACE_ORDER = ['production', 'pre-production', 'sandbox', 'unknown'];
+export const orderWorkspaces = (names: Iterable<string>): string[] => {
+  const rank = (n: string) => { const i = WORKSPACE_ORDER.indexOf(n.toLowerCase()); return i < 0 ? WORKSPACE_ORDER.length : i; };
+  return Array.from(new Set(names)).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+};
+
+// Pre-Production is not production; "Prod EU" is
+export const workspaceTier = (title: string): 'production' | 'sandbox' | 'other' => {
+  const t = title.toLowerCase();
+  if (/sandbox|dev|test/.test(t)) return 'sandbox';
+  if (/^prod/.test(t)) return 'production';
+  return 'other';
+};
+
+// create/update actions count as authoring (e.g. chart:create, dashboard:update)
+export const isAuthoring = (action: string) => /:(create|update)$/.test(action);
+
+export const DAY_MS = 24 * 3600 * 1000;
+
+export const ACTION_FAMILIES = ['view', 'create', 'update', 'delete', 'login'] as const;
+export type ActionFamily = typeof ACTION_FAMILIES[number] | 'other';
+
+// chart:view -> view, user:login -> login, anything else -> other
+export const actionFamily = (action: string): ActionFamily => {
+  const verb = action.split(':').pop() || '';
+  return (ACTION_FAMILIES as readonly string[]).includes(verb) ? verb as ActionFamily : 'other';
+};
+
+// UTC day / ISO week (Monday) bucket keys, e.g. 2025-08-25
+export const dayKey = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+export const weekKey = (ms: number) => {
+  const d = new Date(ms);
+  const offset = (d.getUTCDay() + 6) % 7;
+  return dayKey(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - offset));
+};
+
+// Drill-down target opened from charts and tables
+export type DetailTarget =
+  | { kind: 'entity'; entityType: string; entityId: string; workspace: string }
+  | { kind: 'user'; user: string };
+
+export const logEntityType = (l: AuditLike): string => l.entity_type || '';
+export const logEntityId = (l: AuditLike): string => l.entity_id ?? '';
+// workspace_name is the stable workspace id (e.g. 1f951550); titles can be renamed
+export const logWorkspaceId = (l: AuditLike): string => l.workspace_name || l.workspace_title || '';
+
+export const entityTarget = (l: AuditLike): DetailTarget => ({
+  kind: 'entity',
+  entityType: logEntityType(l),
+  entityId: logEntityId(l),
+  workspace: logWorkspaceId(l),
+});
+
+export const matchesEntity = (l: AuditLike, t: { entityType: string; entityId: string; workspace: string }) =>
+  logEntityType(l) === t.entityType && logEntityId(l) === t.entityId && logWorkspaceId(l) === t.workspace;
+
+// urn:preset:ws:chart -> chart
+export const shortEntityType = (type: string) => type.split(':').pop() || type;
+
+// Stable id for an audit event: the build-time _event_key, else an FNV-1a hash of its identifying fields
+export const eventId = (l: AuditLike): string => {
+  if (l._event_key) return String(l._event_key);
+  const raw = [l.timestamp, logUser(l), logAction(l), logEntityType(l), logEntityId(l), logWorkspaceId(l)].join('|');
+  let h = 0x811c9dc5;
+  for (let i = 0; i < raw.length; i++) {
+    h ^= raw.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
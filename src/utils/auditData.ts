@@ -0,0 +1,100 @@
+import { fetchDataFile } from './fetchData';
+import { DailyRollupRow, EntityRollupRow, HourlyRollupRow, PackedRows, UserRollupRow, rollupEvents, unpackRows } from '../../shared/rollups.mjs';
+import { AuditEvent, normalizeAuditEvent } from '../../shared/model.mjs';
+import { QueryRollupRow, rollupQueries } from '../../shared/queries.mjs';
+
+// Lazy access to the month-sharded audit archive and its build-time rollups.
+// Falls back to the legacy single audit_logs.json when no manifest exists.
+
+export type AuditLog = AuditEvent;
+
+export interface AuditManifest {
+  generated_at?: string;
+  total: number;
+  months: { month: string | null; file: string; count: number; first: string | null; last: string | null }[];
+}
+
+export interface Rollups { daily: DailyRollupRow[]; users: UserRollupRow[]; entities: EntityRollupRow[]; hourly: HourlyRollupRow[] }
+
+export const EMPTY_ROLLUPS: Rollups = { daily: [], users: [], entities: [], hourly: [] };
+
+// Promises are cached per refreshKey so every page shares one download per file
+const cache = new Map<string, Promise<any>>();
+const cached = <T>(refreshKey: number, file: string, load: () => Promise<T>): Promise<T> => {
+  const key = `${refreshKey}:${file}`;
+  if (!cache.has(key)) {
+    const p = load();
+    p.catch(() => cache.delete(key));
+    cache.set(key, p);
+  }
+  return cache.get(key)!;
+};
+
+export const monthOf = (ms: number) => new Date(ms).toISOString().slice(0, 7);
+
+export function loadManifest(refreshKey: number): Promise<AuditManifest | null> {
+  return cached(refreshKey, 'audit/manifest.json', async () => {
+    const m = await fetchDataFile('audit/manifest.json', { optional: true });
+    return m && !Array.isArray(m) && Array.isArray(m.months) ? m as AuditManifest : null;
+  });
+}
+
+// The legacy file predates normalization at build time, so normalize it here
+const loadLegacy = (refreshKey: number): Promise<AuditLog[]> =>
+  cached(refreshKey, 'audit_logs.json', async () => (await fetchDataFile('audit_logs.json', { optional: true })).map((e: unknown) => normalizeAuditEvent(e)));
+
+const byNewest = (a: AuditLog, b: AuditLog) => String(b.timestamp || '').localeCompare(String(a.timestamp || ''));
+
+/**
+ * Load audit events, fetching only the month shards needed: either an explicit
+ * list of months (YYYY-MM) or every month from `since` (epoch ms) onwards.
+ * With neither option all shards are loaded.
+ */
+export async function loadAuditEvents(refreshKey: number, { months, since }: { months?: string[]; since?: number } = {}): Promise<AuditLog[]> {
+  const manifest = await loadManifest(refreshKey);
+  const wanted = (month: string | null) => {
+    if (months) return month !== null && months.includes(month);
+    if (since !== undefined) return month !== null && month >= monthOf(since);
+    return true;
+  };
+  if (!manifest) {
+    const all = await loadLegacy(refreshKey);
+    return all.filter(l => wanted(typeof l.timestamp === 'string' ? l.timestamp.slice(0, 7) : null));
+  }
+  const files = manifest.months.filter(m => wanted(m.month)).map(m => m.file);
+  const shards = await Promise.all(files.map(f => cached(refreshKey, f, () => fetchDataFile(f, { optional: true }))));
+  return shards.flat().sort(byNewest);
+}
+
+export function loadRollups(refreshKey: number): Promise<Rollups> {
+  return cached(refreshKey, 'rollups', async () => {
+    const [daily, users, entities, hourly] = await Promise.all(['daily', 'users', 'entities', 'hourly'].map(name =>
+      fetchDataFile(`rollups/${name}.json`, { optional: true })));
+    if (![daily, users, entities, hourly].some(Array.isArray)) {
+      return {
+        daily: unpackRows<DailyRollupRow>(daily as PackedRows),
+        users: unpackRows<UserRollupRow>(users as PackedRows),
+        entities: unpackRows<EntityRollupRow>(entities as PackedRows),
+        hourly: unpackRows<HourlyRollupRow>(hourly as PackedRows),
+      };
+    }
+    // No build-time rollups (older snapshot / local dev): aggregate the legacy file
+    return rollupEvents(await loadLegacy(refreshKey));
+  });
+}
+
+/** What queries touched (datasets, metrics, columns, filters …) per day and workspace, from params / query_context. */
+export function loadQueryRollups(refreshKey: number): Promise<QueryRollupRow[]> {
+  return cached(refreshKey, 'rollups/queries.json', async () => {
+    const packed = await fetchDataFile('rollups/queries.json', { optional: true });
+    if (!Array.isArray(packed)) return unpackRows<QueryRollupRow>(packed as PackedRows);
+    return rollupQueries(await loadLegacy(refreshKey));
+  });
+}
+
+/** Months (YYYY-MM) in which rollup rows matching `pred` occur; used to fetch only the shards a drill-down needs. */
+export const monthsWhere = <T extends DailyRollupRow>(rows: T[], pred: (r: T) => boolean) =>
+  Array.from(new Set(rows.filter(pred).map(r => r.date.slice(0, 7))));
+
+export { rollupEvents };
+export type { DailyRollupRow, EntityRollupRow, HourlyRollupRow, QueryRollupRow, UserRollupRow };
@@ -0,0 +1,28 @@
+import { useSyncExternalStore } from 'react';
+import { ValidationResult, schemaForFile, validateDataset } from '../../shared/model.mjs';
+
+// Schema mismatches found while loading data files, surfaced by <DataWarnings />
+// instead of letting pages quietly render "—" for fields that are not there.
+
+export type DataProblem = ValidationResult & { file: string };
+
+const listeners = new Set<() => void>();
+let problems: DataProblem[] = [];
+
+/** Validate a loaded data file against the shared model; unknown files are ignored. */
+export function checkDataFile(file: string, data: unknown) {
+  const schema = schemaForFile(file);
+  if (!schema) return;
+  const result = validateDataset(schema.kind, data, { list: schema.list });
+  const rest = problems.filter(p => p.file !== file);
+  if (!result.invalid && rest.length === problems.length) return;
+  problems = result.invalid ? [...rest, { ...result, file }] : rest;
+  listeners.forEach(l => l());
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useDataProblems = () => useSyncExternalStore(subscribe, () => problems);
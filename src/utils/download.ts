@@ -1,12 +1,14 @@
 import { dump } from 'js-yaml';
+import { xlsxBlob } from './xlsx';
+import { fetchDataFile } from './fetchData';
 
-export function downloadYAML(data: unknown, filename: string) {
-  const yaml = dump(data, { lineWidth: 120 });
-  const blob = new Blob([yaml], { type: 'text/yaml' });
+export type ExportFormat = 'csv' | 'json' | 'yaml' | 'xlsx';
+
+function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = filename.endsWith('.yaml') ? filename : `${filename}.yaml`;
+  a.download = filename;
   document.body.appendChild(a);
   a.click();
   setTimeout(() => {
@@ -15,25 +17,100 @@ export function downloadYAML(data: unknown, filename: string) {
   }, 0);
 }
 
-export function downloadCSV(rows: any[], filename: string) {
-  if (!Array.isArray(rows) || !rows.length) return;
-  // Collect column set from union of keys (excluding nested objects except flatten common user fields)
-  const columns = Array.from(new Set(rows.flatMap(r => Object.keys(r)))).filter(k => !k.startsWith('_') && typeof rows[0][k] !== 'object');
-  const escape = (v: any) => {
+const withExt = (filename: string, ext: string) => (filename.endsWith(`.${ext}`) ? filename : `${filename}.${ext}`);
+
+/**
+ * Flatten nested objects and arrays into dotted paths, e.g.
+ * { user: { email }, tags: ['a'] } -> { 'user.email', 'tags.0' }.
+ * Internal `_`-prefixed fields are dropped; empty objects/arrays become ''.
+ */
+export function flattenRecord(record: unknown, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (record === null || typeof record !== 'object') {
+    out[prefix || 'value'] = record;
+    return out;
+  }
+  const entries = Array.isArray(record) ? record.map((v, i) => [String(i), v] as const) : Object.entries(record);
+  if (!entries.length && prefix) out[prefix] = '';
+  for (const [k, v] of entries) {
+    if (!prefix && k.startsWith('_')) continue;
+    const path = prefix ? `${prefix}.${k}` : k;
+    if (v !== null && typeof v === 'object') flattenRecord(v, path, out);
+    else out[path] = v;
+  }
+  return out;
+}
+
+/** Flattened rows plus the union of their columns, in first-seen order. */
+export function tabulate(rows: unknown[]) {
+  const flat = rows.map(r => flattenRecord(r));
+  const columns = Array.from(new Set(flat.flatMap(r => Object.keys(r))));
+  return { columns, rows: flat };
+}
+
+export function toCSV(rows: unknown[]) {
+  const { columns, rows: flat } = tabulate(rows);
+  const escape = (v: unknown) => {
     if (v === null || v === undefined) return '';
     const s = String(v);
-    if (/[",\n]/.test(s)) return '"' + s.replace(/"/g,'""') + '"';
+    if (/[",\n\r]/.test(s)) return '"' + s.replace(/"/g, '""') + '"';
     return s;
   };
-  const header = columns.join(',');
-  const lines = rows.map(r => columns.map(c => escape(r[c])).join(','));
-  const csv = [header, ...lines].join('\n');
-  const blob = new Blob([csv], { type: 'text/csv' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename.endsWith('.csv') ? filename : `${filename}.csv`;
-  document.body.appendChild(a);
-  a.click();
-  setTimeout(() => { document.body.removeChild(a); URL.revokeObjectURL(url); }, 0);
+  return [columns.map(escape).join(','), ...flat.map(r => columns.map(c => escape(r[c])).join(','))].join('\n');
+}
+
+export function downloadYAML(data: unknown, filename: string) {
+  const yaml = dump(data, { lineWidth: 120, skipInvalid: true });
+  downloadBlob(new Blob([yaml], { type: 'text/yaml' }), withExt(filename, 'yaml'));
+}
+
+export function downloadJSON(data: unknown, filename: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), withExt(filename, 'json'));
+}
+
+export function downloadCSV(rows: unknown[], filename: string) {
+  if (!Array.isArray(rows) || !rows.length) return;
+  downloadBlob(new Blob([toCSV(rows)], { type: 'text/csv' }), withExt(filename, 'csv'));
+}
+
+export function downloadXLSX(rows: unknown[], filename: string, sheetName = 'Export') {
+  if (!Array.isArray(rows) || !rows.length) return;
+  const { columns, rows: flat } = tabulate(rows);
+  downloadBlob(xlsxBlob(sheetName, columns, flat.map(r => columns.map(c => r[c]))), withExt(filename, 'xlsx'));
+}
+
+export function downloadAs(format: ExportFormat, rows: unknown[], filename: string, sheetName?: string) {
+  if (format === 'csv') downloadCSV(rows, filename);
+  else if (format === 'json') downloadJSON(rows, filename);
+  else if (format === 'yaml') downloadYAML(rows, filename);
+  else downloadXLSX(rows, filename, sheetName);
+}
+
+// Date of the published data set, taken from summary.json; fetched once per page load
+let snapshot: Promise<string | null> | null = null;
+export function snapshotDate(): Promise<string | null> {
+  if (!snapshot) {
+    snapshot = fetchDataFile('summary.json', { optional: true })
+      .then((s: any) => {
+        const dates = s && !Array.isArray(s) ? Object.values(s).map((e: any) => e?.generated_at).filter(Boolean) as string[] : [];
+        return dates.length ? dates.sort()[dates.length - 1].slice(0, 10) : null;
+      })
+      .catch(() => { snapshot = null; return null; });
+  }
+  return snapshot;
+}
+
+const slug = (s: string) => s.trim().replace(/[^\w.-]+/g, '-').replace(/-{2,}/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+
+/**
+ * Filename from a base name, the active filters and the snapshot date, e.g.
+ * audit-logs_range-month_ws-Production_2025-08-29. Empty filter values are skipped.
+ */
+export function exportFilename(base: string, context: Record<string, string | number | boolean | null | undefined> = {}, date?: string | null) {
+  const parts = [slug(base)];
+  for (const [k, v] of Object.entries(context)) {
+    if (v === undefined || v === null || v === '' || v === false) continue;
+    parts.push(v === true ? slug(k) : `${slug(k)}-${slug(String(v))}`);
+  }
+  if (date) parts.push(date);
+  return parts.filter(Boolean).join('_');
 }
@@ -1,3 +1,5 @@
+import { checkDataFile } from './dataHealth';
+
 // Resilient data fetch that tries current Vite base, then root-relative, then bare relative
 export async function fetchDataFile(file: string, { optional }: { optional?: boolean } = {}) {
   const cacheBust = `ck=${Date.now()}`;
@@ -14,7 +16,11 @@ export async function fetchDataFile(file: string, { optional }: { optional?: boo
   for (const url of candidates) {
     try {
       const res = await fetch(url, { cache: 'no-store' });
-      if (res.ok) return res.json();
+      if (res.ok) {
+        const data = await res.json();
+        checkDataFile(file, data);
+        return data;
+      }
       errors.push(`${url} -> ${res.status}`);
     } catch (e: any) {
       errors.push(`${url} -> ${e.message}`);
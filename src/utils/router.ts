@@ -0,0 +1,85 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+// Minimal hash router: #/<path>?<params>. Hash URLs work unchanged under the
+// GitHub Pages base path and keep back/forward navigation in the browser.
+
+export interface Route { path: string; params: Record<string, string> }
+
+const listeners = new Set<() => void>();
+let inAppNavigations = 0;
+
+export function parseHash(hash: string): Route {
+  const raw = hash.replace(/^#\/?/, '');
+  const qIdx = raw.indexOf('?');
+  const path = decodeURIComponent(qIdx === -1 ? raw : raw.slice(0, qIdx));
+  const params: Record<string, string> = {};
+  new URLSearchParams(qIdx === -1 ? '' : raw.slice(qIdx + 1)).forEach((v, k) => { params[k] = v; });
+  return { path, params };
+}
+
+export function buildHash(path: string, params: Record<string, string | undefined> = {}): string {
+  const qs = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => { if (v !== undefined && v !== '') qs.set(k, v); });
+  const query = qs.toString();
+  return `#/${path}${query ? `?${query}` : ''}`;
+}
+
+const notify = () => listeners.forEach(l => l());
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (listeners.size === 1) window.addEventListener('hashchange', notify);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('hashchange', notify);
+  };
+};
+
+const getSnapshot = () => window.location.hash;
+
+// Params carried over to every route unless set explicitly (the global team scope)
+const STICKY_PARAMS = ['team'];
+
+/** Push (default) or replace the current hash; replace is used for keystroke-level updates. */
+export function navigate(path: string, params: Record<string, string | undefined> = {}, { replace = false } = {}) {
+  const current = parseHash(window.location.hash).params;
+  const sticky = Object.fromEntries(STICKY_PARAMS.filter(k => current[k] && !(k in params)).map(k => [k, current[k]]));
+  const hash = buildHash(path, { ...sticky, ...params });
+  if (hash === window.location.hash) return;
+  if (replace) {
+    window.history.replaceState(window.history.state, '', hash);
+    notify();
+  } else {
+    inAppNavigations += 1;
+    window.location.hash = hash;
+  }
+}
+
+/** Go back if we navigated inside the app, otherwise fall back to `path`. */
+export function goBack(fallbackPath: string) {
+  if (inAppNavigations > 0) {
+    inAppNavigations -= 1;
+    window.history.back();
+  } else {
+    navigate(fallbackPath, {}, { replace: true });
+  }
+}
+
+export function useRoute(): Route {
+  const hash = useSyncExternalStore(subscribe, getSnapshot);
+  return parseHash(hash);
+}
+
+/**
+ * Read/write a single query param of the current route. Values equal to the
+ * default are dropped from the URL to keep links short.
+ */
+export function useRouteParam(name: string, defaultValue = '', { replace = false } = {}): [string, (v: string) => void] {
+  const route = useRoute();
+  const value = route.params[name] ?? defaultValue;
+  const setValue = useCallback((v: string) => {
+    const current = parseHash(window.location.hash);
+    navigate(current.path, { ...current.params, [name]: v === defaultValue ? undefined : v }, { replace });
+  }, [name, defaultValue, replace]);
+  return [value, setValue];
+}
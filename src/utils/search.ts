@@ -1,15 +1,196 @@
-// Basic deep search utility for filtering
+// Search query language shared by every page's search box.
+//
+//   view                       bare term: substring match anywhere in the record
+//   "top dashboards"           quoted phrase
+//   action:chart:delete        field qualifier (first colon splits field from value)
+//   user:foo@ workspace:Sandbox entity_type:dashboard
+//   -action:chart:view         negation (also NOT term)
+//   a OR b                     alternatives; adjacent terms are ANDed
+//   after:2025-08-01 before:2025-09-01 on:2025-08-29, timestamp>=2025-08-01
+//
+// A `field:value` token is only treated as a qualifier when `field` is a known
+// alias or a key present in the data, so bare terms like chart:view still work.
+
+import { timestampMs } from '../../shared/model.mjs';
+
+type Op = ':' | '>' | '>=' | '<' | '<=';
+
+export interface QueryTerm { field?: string; op: Op; value: string; negate: boolean }
+export interface ParsedQuery { groups: QueryTerm[][]; error?: string }
+
+// Field aliases -> candidate record paths (first present wins for comparisons, any match for ':')
+export const FIELD_ALIASES: Record<string, string[]> = {
+  action: ['action', 'event', 'type'],
+  user: ['user', 'user_email', 'actor', 'email'],
+  workspace: ['workspace_title', 'workspace_name', 'workspace', 'creator_on_workspaces'],
+  entity_type: ['entity_type', 'object_type', 'resource_type'],
+  entity: ['entity_name', 'entity_id'],
+  team: ['_team_id', 'team', 'team_id'],
+  role: ['team_role_name', 'team_role', 'role'],
+  timestamp: ['timestamp', 'date', 'created_on'],
+};
+
+// Date shorthands map onto timestamp comparisons
+const DATE_KEYWORDS: Record<string, Op> = { after: '>', before: '<', since: '>=', until: '<=', on: ':' };
+
+// Qualifiers matched exactly (case-insensitive) rather than by substring, e.g.
+// workspace:Production must not match Pre-Production
+const EXACT_FIELDS = new Set(['workspace']);
+
+const isDateField = (field?: string) => field === 'timestamp' || field === 'date' || field === 'created_on';
+
+const getPath = (obj: any, path: string): unknown =>
+  path.split('.').reduce<any>((acc, k) => (acc == null ? undefined : acc[k]), obj);
+
+export const fieldValues = (obj: any, field: string): unknown[] =>
+  (FIELD_ALIASES[field] || [field]).map(p => getPath(obj, p)).filter(v => v !== undefined && v !== null);
+
+const containsDeep = (val: unknown, needle: string): boolean => {
+  if (val == null) return false;
+  if (typeof val === 'string' || typeof val === 'number' || typeof val === 'boolean') {
+    return String(val).toLowerCase().includes(needle);
+  }
+  if (Array.isArray(val)) return val.some(v => containsDeep(v, needle));
+  if (typeof val === 'object') return Object.values(val).some(v => containsDeep(v, needle));
+  return false;
+};
+
+const equalsDeep = (val: unknown, needle: string): boolean => {
+  if (val == null) return false;
+  if (Array.isArray(val)) return val.some(v => equalsDeep(v, needle));
+  if (typeof val === 'object') return Object.values(val).some(v => equalsDeep(v, needle));
+  const s = String(val).toLowerCase();
+  // urn:preset:ws:dashboard also equals "dashboard"
+  return s === needle || s.split(':').pop() === needle;
+};
+
+
+function tokenize(q: string): { tokens: string[]; error?: string } {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < q.length) {
+    if (/\s/.test(q[i])) { i++; continue; }
+    let tok = '';
+    while (i < q.length && !/\s/.test(q[i])) {
+      if (q[i] === '"') {
+        const end = q.indexOf('"', i + 1);
+        if (end === -1) return { tokens, error: 'Unterminated quote' };
+        tok += q.slice(i, end + 1);
+        i = end + 1;
+      } else {
+        tok += q[i++];
+      }
+    }
+    tokens.push(tok);
+  }
+  return { tokens };
+}
+
+const unquote = (s: string) => s.replace(/"/g, '');
+
+export function parseQuery(q: string, knownFields: Iterable<string> = []): ParsedQuery {
+  const known = new Set([...Object.keys(FIELD_ALIASES), ...knownFields]);
+  const { tokens, error } = tokenize(q.trim());
+  if (error) return { groups: [], error };
+  const groups: QueryTerm[][] = [[]];
+  let negateNext = false;
+  for (let idx = 0; idx < tokens.length; idx++) {
+    let tok = tokens[idx];
+    if (tok === 'OR') {
+      if (!groups[groups.length - 1].length || negateNext) return { groups, error: 'OR needs a term on both sides' };
+      if (idx === tokens.length - 1) return { groups, error: 'OR needs a term on both sides' };
+      groups.push([]);
+      continue;
+    }
+    if (tok === 'NOT') {
+      if (idx === tokens.length - 1) return { groups, error: 'NOT needs a term after it' };
+      negateNext = true;
+      continue;
+    }
+    let negate = negateNext;
+    negateNext = false;
+    if (tok.startsWith('-') && tok.length > 1) { negate = !negate; tok = tok.slice(1); }
+
+    const cmp = /^([A-Za-z_][\w.]*)(>=|<=|>|<)(.*)$/.exec(tok);
+    const colon = tok.indexOf(':');
+    const prefix = colon > 0 ? tok.slice(0, colon) : '';
+    let term: QueryTerm;
+    if (cmp && !tok.startsWith('"')) {
+      const [, field, op, raw] = cmp;
+      const value = unquote(raw);
+      if (!value) return { groups, error: `Missing value after ${field}${op}` };
+      if (isDateField(field) && isNaN(timestampMs(value))) return { groups, error: `Invalid date "${value}"` };
+      term = { field, op: op as Op, value, negate };
+    } else if (prefix && DATE_KEYWORDS[prefix.toLowerCase()]) {
+      const value = unquote(tok.slice(colon + 1));
+      if (!value) return { groups, error: `Missing date after ${prefix}:` };
+      if (isNaN(timestampMs(value))) return { groups, error: `Invalid date "${value}" (use YYYY-MM-DD)` };
+      term = { field: 'timestamp', op: DATE_KEYWORDS[prefix.toLowerCase()], value, negate };
+    } else if (prefix && known.has(prefix)) {
+      const value = unquote(tok.slice(colon + 1));
+      if (!value) return { groups, error: `Missing value after ${prefix}:` };
+      term = { field: prefix, op: ':', value, negate };
+    } else {
+      term = { op: ':', value: unquote(tok), negate };
+    }
+    groups[groups.length - 1].push(term);
+  }
+  if (negateNext) return { groups, error: 'NOT needs a term after it' };
+  return { groups: groups.filter(g => g.length) };
+}
+
+function matchTerm(obj: unknown, t: QueryTerm): boolean {
+  const needle = t.value.toLowerCase();
+  if (!t.field) return containsDeep(obj, needle);
+  const values = fieldValues(obj, t.field);
+  if (isDateField(t.field)) {
+    const target = timestampMs(t.value);
+    const ts = values.map(v => timestampMs(String(v))).find(n => !isNaN(n));
+    if (ts === undefined) return false;
+    if (t.op === ':') return new Date(ts).toISOString().slice(0, 10) === new Date(target).toISOString().slice(0, 10);
+    if (t.op === '>') return ts > target;
+    if (t.op === '>=') return ts >= target;
+    if (t.op === '<') return ts < target;
+    return ts <= target;
+  }
+  if (t.op !== ':') {
+    const n = Number(values[0]), target = Number(t.value);
+    const [a, b] = !isNaN(n) && !isNaN(target) ? [n, target] : [String(values[0] ?? '').toLowerCase(), needle];
+    if (values[0] === undefined) return false;
+    if (t.op === '>') return a > b;
+    if (t.op === '>=') return a >= b;
+    if (t.op === '<') return a < b;
+    return a <= b;
+  }
+  return EXACT_FIELDS.has(t.field) || t.field === 'entity_type'
+    ? values.some(v => equalsDeep(v, needle))
+    : values.some(v => containsDeep(v, needle));
+}
+
+export function matchQuery(obj: unknown, parsed: ParsedQuery): boolean {
+  if (!parsed.groups.length) return true;
+  return parsed.groups.some(group => group.every(t => matchTerm(obj, t) !== t.negate));
+}
+
+// Pages call search() once per record with the same query. Known fields come from the record, so the
+// parse is cached per query and record shape (its keys)
+let lastQuery = '';
+const parsedByShape = new Map<string, ParsedQuery>();
+
 export function search(obj: unknown, q: string): boolean {
   if (!q) return true;
-  const needle = q.toLowerCase();
-  const visit = (val: unknown): boolean => {
-    if (val == null) return false;
-    if (typeof val === 'string' || typeof val === 'number' || typeof val === 'boolean') {
-      return String(val).toLowerCase().includes(needle);
-    }
-    if (Array.isArray(val)) return val.some(visit);
-    if (typeof val === 'object') return Object.values(val).some(visit);
-    return false;
-  };
-  return visit(obj);
+  if (q !== lastQuery || parsedByShape.size > 100) {
+    lastQuery = q;
+    parsedByShape.clear();
+  }
+  const fields = obj && typeof obj === 'object' ? Object.keys(obj) : [];
+  const shape = fields.join('\u0000');
+  let parsed = parsedByShape.get(shape);
+  if (!parsed) {
+    parsed = parseQuery(q, fields);
+    parsedByShape.set(shape, parsed);
+  }
+  // Invalid queries degrade to the old behaviour: plain substring over every value
+  if (parsed.error) return containsDeep(obj, q.toLowerCase());
+  return matchQuery(obj, parsed);
 }
@@ -0,0 +1,56 @@
+import { useEffect, useMemo, useState } from 'react';
+import { fetchDataFile } from './fetchData';
+import { useRouteParam } from './router';
+import { Team } from '../../shared/model.mjs';
+
+// Global team scope: the `team` route param (kept across navigation, see router.ts) holds a team id or ALL
+export const ALL_TEAMS = 'ALL';
+
+/** Value of the `team` param for a team; records carry the same value as `_team_id` (or `team_id` in rollups and changes). */
+export const teamKey = (t: Team) => String(t.id ?? t.name ?? '');
+
+export interface TeamScope {
+  team: string;
+  setTeam: (team: string) => void;
+  teams: Team[];
+  /** More than one team in the snapshot, so "All teams" views get per-team columns */
+  multi: boolean;
+  /** Whether a record's team id is in scope */
+  inTeam: (id: unknown) => boolean;
+  /** Title (or name) of a team id, falling back to the id */
+  teamLabel: (id: unknown) => string;
+}
+
+let teamsCache: { refreshKey: number; teams: Promise<Team[]> } | null = null;
+const loadTeams = (refreshKey: number): Promise<Team[]> => {
+  if (!teamsCache || teamsCache.refreshKey !== refreshKey) {
+    const teams = fetchDataFile('teams.json', { optional: true }).then(t => (Array.isArray(t) ? t : []));
+    teams.catch(() => { teamsCache = null; });
+    teamsCache = { refreshKey, teams };
+  }
+  return teamsCache.teams;
+};
+
+export function useTeamScope(refreshKey: number): TeamScope {
+  const [team, setTeam] = useRouteParam('team', ALL_TEAMS);
+  const [teams, setTeams] = useState<Team[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTeams(refreshKey).then(t => { if (!cancelled) setTeams(t); }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  return useMemo(() => {
+    const labels = new Map<string, string>();
+    teams.forEach(t => { labels.set(teamKey(t), t.title || t.name || teamKey(t)); labels.set(String(t.name), t.title || t.name); });
+    return {
+      team,
+      setTeam,
+      teams,
+      multi: teams.length > 1,
+      inTeam: (id: unknown) => team === ALL_TEAMS || String(id ?? '') === team,
+      teamLabel: (id: unknown) => labels.get(String(id ?? '')) || String(id ?? '') || 'unknown team',
+    };
+  }, [team, setTeam, teams]);
+}
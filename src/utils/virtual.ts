@@ -0,0 +1,48 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// Windowing for long tables: fixed-height rows plus a few rows with measured
+// extra height (e.g. an expanded detail row rendered after row `index`).
+
+export interface VirtualWindow { start: number; end: number; padTop: number; padBottom: number; offsetOf: (index: number) => number }
+
+export function useVirtualRows(
+  containerRef: RefObject<HTMLElement>,
+  count: number,
+  rowHeight: number,
+  extraHeights: Record<number, number> = {},
+  overscan = 12,
+): VirtualWindow {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(600);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onScroll = () => setScrollTop(el.scrollTop);
+    const ro = new ResizeObserver(() => setViewport(el.clientHeight));
+    el.addEventListener('scroll', onScroll, { passive: true });
+    ro.observe(el);
+    setViewport(el.clientHeight);
+    return () => { el.removeEventListener('scroll', onScroll); ro.disconnect(); };
+  }, [containerRef]);
+
+  const extras = Object.entries(extraHeights).map(([i, h]) => [Number(i), h] as const).sort((a, b) => a[0] - b[0]);
+  // Top offset of row `index`, counting extra height of rows above it
+  const offsetOf = (index: number) => index * rowHeight + extras.filter(([i]) => i < index).reduce((sum, [, h]) => sum + h, 0);
+  const indexAt = (y: number) => {
+    let consumed = 0;
+    for (const [i, h] of extras) {
+      const extraTop = (i + 1) * rowHeight + consumed;
+      if (y < extraTop) break;
+      if (y < extraTop + h) return i;
+      consumed += h;
+    }
+    return Math.floor((y - consumed) / rowHeight);
+  };
+  const total = offsetOf(count);
+  const start = Math.max(0, Math.min(count, indexAt(scrollTop)) - overscan);
+  const end = Math.min(count, indexAt(scrollTop + viewport) + 1 + overscan);
+  const padTop = offsetOf(start);
+  const padBottom = Math.max(0, total - offsetOf(end));
+  return { start, end, padTop, padBottom, offsetOf };
+}